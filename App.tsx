@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Layout } from './components/Layout';
 import { InputSection } from './components/InputSection';
 import { QuizPlayer } from './components/QuizPlayer';
@@ -10,16 +10,32 @@ import { ChatBot } from './components/ChatBot';
 import { StudyGuideView } from './components/StudyGuide';
 import { SettingsModal } from './components/SettingsModal';
 import { ReviewPlanner } from './components/ReviewPlanner';
+import { ExamPlanner } from './components/ExamPlanner';
+import { DueReview } from './components/DueReview';
 import { LoadingOverlay } from './components/LoadingOverlay';
 import { AdminDashboard } from './components/AdminDashboard';
-import { generateQuizContent, generateStudyGuide, checkActivationStatus } from './services/geminiService';
-import { Quiz, InputMode, QuizSettings, FileData, QuestionType, Mistake, UserProfile, StudyGuide, AppLanguage } from './types';
+import { generateQuizContent, generateStudyGuide, checkActivationStatus, extractUrlContent, pageToSourceText, isAbortError, startServerMonitor, subscribeServerStatus, ServerStatus } from './services/geminiService';
+import { getGuideSource, putGuideSource, deleteGuideSource } from './services/offlineStore';
+import { readLongPdfsAsText } from './services/pdfText';
+import { Quiz, Question, InputMode, QuizSettings, FileData, QuestionType, Difficulty, Mistake, UserProfile, StudyGuide, AppLanguage, ChatContext, ChatThread, ReviewPlan, ExamPlan } from './types';
+import { translations } from './utils/translations';
+import { guideTextForTopic } from './utils/studyGuide';
+import { unsplittableFiles } from './utils/sourceSections';
+import { CardSchedule, startOfDay } from './utils/srs';
+import { DEFAULT_PLAN_SETTINGS } from './utils/reviewSchedule';
+import { ExamSession } from './utils/examPlan';
+import { collectReviewCards, dueCards, countBySubject, reviewSessionQuiz } from './utils/reviewQueue';
 import { Lock, KeyRound, ChevronRight } from 'lucide-react';
 
 const generateId = () => {
   return Date.now().toString(36) + Math.random().toString(36).substring(2);
 };
 
+// Open the player once this many streamed questions are ready; the rest keep filling in.
+const STREAM_OPEN_THRESHOLD = 3;
+// XP for checking off a session in the review plan (taken back if it is unchecked).
+const REVIEW_SESSION_XP = 20;
+
 // --- ACTIVATION SCREEN COMPONENT ---
 const ActivationScreen = ({ onActivate }: { onActivate: () => void }) => {
     const [code, setCode] = useState('');
@@ -36,6 +52,8 @@ const ActivationScreen = ({ onActivate }: { onActivate: () => void }) => {
         if (isValid) {
             localStorage.setItem('activation_code', code.trim().toUpperCase());
             onActivate();
+        } else if (isValid === null) {
+            setError('تعذر الاتصال بالخادم. تحقق من اتصالك بالإنترنت وحاول مرة أخرى.');
         } else {
             setError('كود غير صالح. يرجى التحقق من الكود والمحاولة مرة أخرى.');
         }
@@ -83,6 +101,9 @@ const ActivationScreen = ({ onActivate }: { onActivate: () => void }) => {
 const App: React.FC = () => {
   const [activeView, _setActiveView] = useState('home'); 
   const activeViewRef = useRef(activeView);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  // Flashcards rated while their quiz is still streaming; re-applied to each batch of questions.
+  const streamingReviewsRef = useRef<Record<string, CardSchedule>>({});
   const [isActivated, setIsActivated] = useState(false); // NEW STATE
   const [checkingAuth, setCheckingAuth] = useState(true);
 
@@ -90,11 +111,21 @@ const App: React.FC = () => {
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
   const [mistakes, setMistakes] = useState<Mistake[]>([]);
   const [currentQuiz, setCurrentQuiz] = useState<Quiz | null>(null);
+  const [studyGuides, setStudyGuides] = useState<StudyGuide[]>([]);
   const [currentStudyGuide, setCurrentStudyGuide] = useState<StudyGuide | null>(null);
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [activeChatId, setActiveChatId] = useState<string | null>(null);
+  const [reviewPlan, setReviewPlan] = useState<ReviewPlan>({ settings: DEFAULT_PLAN_SETTINGS, reviews: [] });
+  const [examPlans, setExamPlans] = useState<ExamPlan[]>([]);
+  const [reviewSession, setReviewSession] = useState<{ id: string; title: string; keys: string[] } | null>(null);
+  const [dueClock, setDueClock] = useState(Date.now());
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState<{ received: number; total: number; notice?: string } | null>(null);
+  const [streamingQuizId, setStreamingQuizId] = useState<string | null>(null);
   const [darkMode, setDarkMode] = useState(false);
   const [language, setLanguage] = useState<AppLanguage>('ar');
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [serverStatus, setServerStatus] = useState<ServerStatus>({ online: true, pendingSaves: 0 });
   const [userProfile, setUserProfile] = useState<UserProfile>({
     xp: 0,
     level: 1,
@@ -108,7 +139,8 @@ const App: React.FC = () => {
           const code = localStorage.getItem('activation_code');
           if (code) {
               const valid = await checkActivationStatus(code);
-              if (valid) setIsActivated(true);
+              // Unreachable server (null): trust the stored code so saved content stays usable offline.
+              if (valid !== false) setIsActivated(true);
               else localStorage.removeItem('activation_code');
           }
           setCheckingAuth(false);
@@ -116,6 +148,12 @@ const App: React.FC = () => {
       checkAuth();
   }, []);
 
+  useEffect(() => {
+    const stopMonitor = startServerMonitor();
+    const unsubscribe = subscribeServerStatus(setServerStatus);
+    return () => { stopMonitor(); unsubscribe(); };
+  }, []);
+
   useEffect(() => {
     activeViewRef.current = activeView;
   }, [activeView]);
@@ -182,10 +220,18 @@ const App: React.FC = () => {
       const savedProfile = localStorage.getItem('studygenius_profile');
       const savedTheme = localStorage.getItem('studygenius_theme');
       const savedLang = localStorage.getItem('studygenius_language');
+      const savedChats = localStorage.getItem('studygenius_chats');
+      const savedGuides = localStorage.getItem('studygenius_guides');
+      const savedPlan = localStorage.getItem('studygenius_review_plan');
+      const savedExams = localStorage.getItem('studygenius_exam_plans');
       
       if (savedQuizzes) setQuizzes(JSON.parse(savedQuizzes));
       if (savedMistakes) setMistakes(JSON.parse(savedMistakes));
       if (savedProfile) setUserProfile(JSON.parse(savedProfile));
+      if (savedChats) setChatThreads(JSON.parse(savedChats));
+      if (savedGuides) setStudyGuides(JSON.parse(savedGuides));
+      if (savedPlan) setReviewPlan(JSON.parse(savedPlan));
+      if (savedExams) setExamPlans(JSON.parse(savedExams));
       if (savedTheme === 'dark') {
          setDarkMode(true);
          document.documentElement.classList.add('dark');
@@ -230,13 +276,37 @@ const App: React.FC = () => {
     try { localStorage.setItem('studygenius_profile', JSON.stringify(userProfile)); } catch(e){ console.warn("Failed to save profile", e); }
   }, [userProfile]);
 
+  useEffect(() => {
+    try { localStorage.setItem('studygenius_guides', JSON.stringify(studyGuides)); } catch(e){ console.warn("Failed to save study guides", e); }
+  }, [studyGuides]);
+
+  useEffect(() => {
+    try { localStorage.setItem('studygenius_review_plan', JSON.stringify(reviewPlan)); } catch(e){ console.warn("Failed to save review plan", e); }
+  }, [reviewPlan]);
+
+  useEffect(() => {
+    try { localStorage.setItem('studygenius_exam_plans', JSON.stringify(examPlans)); } catch(e){ console.warn("Failed to save exam plans", e); }
+  }, [examPlans]);
+
+  // Uploaded files are kept out of storage (they would fill the quota fast); after a reload
+  // such a thread keeps its messages but answers without the files.
+  useEffect(() => {
+    const storable = chatThreads.map(thread => thread.context?.files ? { ...thread, context: { ...thread.context, files: undefined } } : thread);
+    try { localStorage.setItem('studygenius_chats', JSON.stringify(storable)); } catch(e){ console.warn("Failed to save chats", e); }
+  }, [chatThreads]);
+
   const toggleDarkMode = () => setDarkMode(!darkMode);
 
+  // Earning XP on a new day also counts that day towards the study streak.
   const awardXP = (amount: number) => {
     setUserProfile(prev => {
-      const newXP = prev.xp + amount;
+      const newXP = Math.max(0, prev.xp + amount);
       const newLevel = Math.floor(newXP / 1000) + 1;
-      return { ...prev, xp: newXP, level: newLevel };
+      if (amount <= 0) return { ...prev, xp: newXP, level: newLevel };
+      const now = Date.now();
+      const daysSince = Math.round((startOfDay(now) - startOfDay(prev.lastStudyDate)) / (24 * 60 * 60 * 1000));
+      const streak = daysSince === 0 ? Math.max(prev.streak, 1) : daysSince === 1 ? prev.streak + 1 : 1;
+      return { ...prev, xp: newXP, level: newLevel, streak, lastStudyDate: now };
     });
   };
 
@@ -250,59 +320,186 @@ const App: React.FC = () => {
     }
   };
 
-  const handleGenerate = async (mode: InputMode, content: string | FileData[], settings: QuizSettings) => {
+  // URL mode: swap the link for the page's readable text before any generation.
+  const resolveUrlInput = async (mode: InputMode, content: string | FileData[], signal?: AbortSignal): Promise<{ mode: InputMode; content: string | FileData[]; title?: string }> => {
+    if (mode !== InputMode.URL) return { mode, content };
+    const page = await extractUrlContent(content as string, signal);
+    return { mode: InputMode.TEXT, content: pageToSourceText(page), title: page.title };
+  };
+
+  // Cancel from the loading overlay: the request is aborted and the user stays on the
+  // input screen with everything they entered. From an open player it stops the remaining
+  // questions; the ones already shown stay in the saved quiz.
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  // `origin` links a quiz generated from a study guide or an exam plan back to it (and names it).
+  const handleGenerate = async (mode: InputMode, content: string | FileData[], settings: QuizSettings, origin?: { title: string; guideId?: string; guideTopic?: string; examId?: string }) => {
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
     setIsGenerating(true);
-    try {
-      const questions = await generateQuizContent(mode, content, settings);
-      
-      let title = "Generated Quiz";
-      if (mode === InputMode.TOPIC) title = content as string;
-      if (mode === InputMode.FILE) {
-        const files = content as FileData[];
-        title = files.length > 1 ? `${files[0].name} + ${files.length - 1} others` : files[0].name;
-      }
-      if (mode === InputMode.TEXT) {
-          const text = content as string;
-          title = text.startsWith("REMEDIAL_INSTRUCTION:") 
-                  ? "Remedial: " + (text.split("Topic:")[1]?.split("\n")[0] || "Review") 
-                  : text.substring(0, 30) + "...";
+    setGenerationProgress({ received: 0, total: settings.maxMode ? 0 : settings.quantity });
+
+    let title = "Generated Quiz";
+    if (mode === InputMode.TOPIC) title = content as string;
+    if (mode === InputMode.FILE) {
+      const files = content as FileData[];
+      title = files.length > 1 ? `${files[0].name} + ${files.length - 1} others` : files[0].name;
+    }
+    if (mode === InputMode.TEXT) {
+        const text = content as string;
+        title = text.startsWith("REMEDIAL_INSTRUCTION:") 
+                ? "Remedial: " + (text.split("Topic:")[1]?.split("\n")[0] || "Review") 
+                : text.substring(0, 30) + "...";
+    }
+    if (origin) title = origin.title;
+
+    const quizId = generateId();
+    const createdAt = Date.now();
+    const targetView = settings.questionType === QuestionType.FLASHCARD ? 'flashcards' : 'quiz';
+    let streamed: Question[] = [];
+    let opened = false;
+
+    streamingReviewsRef.current = {};
+    const withReviews = (questions: Question[]) =>
+      questions.map(q => streamingReviewsRef.current[q.id] ? { ...q, ...streamingReviewsRef.current[q.id] } : q);
+    const buildQuiz = (questions: Question[]): Quiz => ({
+      id: quizId, title, createdAt, questions: withReviews(questions), settings, completed: false, timeSpentSeconds: 0,
+      guideId: origin?.guideId, guideTopic: origin?.guideTopic, examId: origin?.examId
+    });
+
+    // Saved in place, so the questions on screen survive a closed tab while the rest streams in.
+    const saveQuiz = (quiz: Quiz) =>
+      setQuizzes(prev => prev.some(q => q.id === quiz.id) ? prev.map(q => q.id === quiz.id ? { ...q, questions: quiz.questions } : q) : [quiz, ...prev]);
+
+    const handleProgress = (questions: Question[]) => {
+      streamed = questions;
+      setGenerationProgress(prev => prev ? { ...prev, received: questions.length } : prev);
+      if (!opened && questions.length >= STREAM_OPEN_THRESHOLD) {
+        opened = true;
+        const partial = buildQuiz(questions);
+        saveQuiz(partial);
+        setStreamingQuizId(quizId);
+        setCurrentQuiz(partial);
+        setIsGenerating(false);
+        setActiveView(targetView);
+      } else if (opened) {
+        saveQuiz(buildQuiz(questions));
+        setCurrentQuiz(prev => prev && prev.id === quizId ? { ...prev, questions: withReviews(questions) } : prev);
       }
+    };
 
-      const newQuiz: Quiz = {
-        id: generateId(), title, createdAt: Date.now(), questions, settings, completed: false, timeSpentSeconds: 0
-      };
+    try {
+      const resolved = await resolveUrlInput(mode, content, controller.signal);
+      if (resolved.title) title = resolved.title;
+      // Long PDFs become page text here, so they can be generated section by section.
+      const pdfText = await readLongPdfsAsText(resolved.content);
+      const source = { ...resolved, content: pdfText.content };
+      const unsplittable = [...new Set([...unsplittableFiles(source.content), ...pdfText.unreadable])];
+      if (unsplittable.length > 0) {
+        setGenerationProgress(prev => prev ? { ...prev, notice: `${translations[language].unsplittableFiles} ${unsplittable.join(', ')}` } : prev);
+      }
+      const questions = await generateQuizContent(source.mode, source.content, settings, handleProgress, controller.signal);
+      const newQuiz = buildQuiz(questions);
 
-      setQuizzes([newQuiz, ...quizzes]);
-      setCurrentQuiz(newQuiz);
-      setActiveView(settings.questionType === QuestionType.FLASHCARD ? 'flashcards' : 'quiz');
+      saveQuiz(newQuiz);
+      if (opened) {
+        setCurrentQuiz(prev => prev && prev.id === quizId ? { ...prev, questions: newQuiz.questions } : prev);
+      } else {
+        setCurrentQuiz(newQuiz);
+        setActiveView(targetView);
+      }
     } catch (error: any) {
+      // Once the player is open, what already arrived is saved and stays playable.
+      if (isAbortError(error)) return;
       handleGenerationError(error);
     } finally {
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
       setIsGenerating(false);
+      setGenerationProgress(null);
+      setStreamingQuizId(null);
     }
   };
 
-  const handleGenerateStudyGuide = async (mode: InputMode, content: string | FileData[], language: string, thinking: boolean) => {
+  const describeGuideSource = (mode: InputMode, content: string | FileData[]): string => {
+    if (mode === InputMode.FILE) return (content as FileData[]).map(f => f.name).join(', ');
+    const text = (content as string).trim();
+    return mode === InputMode.TEXT && text.length > 60 ? text.substring(0, 60) + "..." : text;
+  };
+
+  // Shared by new guides and "Regenerate"; `existing` keeps the guide's id and skips the cache.
+  const runStudyGuideGeneration = async (mode: InputMode, content: string | FileData[], language: string, thinking: boolean, existing?: StudyGuide) => {
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
     setIsGenerating(true);
     try {
-       const guideData = await generateStudyGuide(mode, content, language, thinking);
-       const newGuide: StudyGuide = {
-          id: generateId(), title: guideData.title, content: guideData.content, topics: guideData.topics, createdAt: Date.now()
+       const source = await resolveUrlInput(mode, content, controller.signal);
+       const guideData = await generateStudyGuide(source.mode, source.content, language, thinking, controller.signal, !!existing);
+       const guide: StudyGuide = {
+          id: existing?.id || generateId(), title: guideData.title, content: guideData.content, topics: guideData.topics, createdAt: Date.now(),
+          source: { mode, label: describeGuideSource(mode, content), language, thinking }
        };
-       setCurrentStudyGuide(newGuide);
+       setStudyGuides(prev => [guide, ...prev.filter(g => g.id !== guide.id)]);
+       if (!existing) await putGuideSource({ guideId: guide.id, mode, content, savedAt: Date.now() });
+       setCurrentStudyGuide(guide);
        setActiveView('study_guide');
-       awardXP(50); 
+       if (!existing) awardXP(50);
     } catch (error: any) {
-      handleGenerationError(error);
+      if (!isAbortError(error)) handleGenerationError(error);
     } finally {
+       if (generationAbortRef.current === controller) generationAbortRef.current = null;
        setIsGenerating(false);
     }
   };
 
+  const handleGenerateStudyGuide = (mode: InputMode, content: string | FileData[], language: string, thinking: boolean) =>
+    runStudyGuideGeneration(mode, content, language, thinking);
+
+  const handleRegenerateStudyGuide = async (guide: StudyGuide) => {
+    const source = await getGuideSource(guide.id);
+    if (!source || !guide.source) {
+      alert(translations[language].guideSourceMissing);
+      return;
+    }
+    await runStudyGuideGeneration(source.mode, source.content, guide.source.language, guide.source.thinking, guide);
+  };
+
+  // "Quiz me" / "Flashcards" on a guide topic or section: that part of the guide is the source text.
+  const handleGenerateFromGuide = (guide: StudyGuide, topic: string, kind: 'quiz' | 'flashcards') => {
+    const sourceText = `Study guide: ${guide.title}\nFocus on: ${topic}\n\n${guideTextForTopic(guide, topic)}`;
+    const settings: QuizSettings = {
+      questionType: kind === 'flashcards' ? QuestionType.FLASHCARD : QuestionType.SHORT_QUIZ,
+      difficulty: Difficulty.MEDIUM,
+      quantity: 10,
+      language: guide.source?.language || (language === 'ar' ? 'Arabic' : 'English'),
+      distribution: kind === 'quiz' ? { multipleChoice: 5, trueFalse: 3, openEnded: 2 } : undefined
+    };
+    handleGenerate(InputMode.TEXT, sourceText, settings, { title: `${guide.title}: ${topic}`, guideId: guide.id, guideTopic: topic });
+  };
+
+  const handleUpdateStudyGuide = (guide: StudyGuide) => {
+    setStudyGuides(prev => prev.map(g => g.id === guide.id ? guide : g));
+    setCurrentStudyGuide(prev => prev && prev.id === guide.id ? guide : prev);
+  };
+
+  const handleOpenStudyGuide = (guide: StudyGuide) => {
+    setCurrentStudyGuide(guide);
+    setActiveView('study_guide');
+  };
+
+  const handleDeleteStudyGuide = (id: string) => {
+    if (confirm(translations[language].deleteGuideConfirm)) {
+      setStudyGuides(studyGuides.filter(g => g.id !== id));
+      if (currentStudyGuide?.id === id) setCurrentStudyGuide(null);
+      deleteGuideSource(id);
+    }
+  };
+
   const handleQuizComplete = (completedQuiz: Quiz) => {
     setQuizzes(quizzes.map(q => q.id === completedQuiz.id ? completedQuiz : q));
     setCurrentQuiz(completedQuiz);
-    awardXP(100 + ((completedQuiz.score || 0) * 10));
+    awardXP(100 + Math.round((completedQuiz.score || 0) * 10));
 
     const newMistakes = completedQuiz.questions
       .filter(q => q.isCorrect === false)
@@ -315,8 +512,114 @@ const App: React.FC = () => {
     if (newMistakes.length > 0) setMistakes(prev => [...prev, ...newMistakes]);
   };
 
-  const handleSRSUpdate = (questionId: string, status: 'learning' | 'review' | 'mastered') => {
-     awardXP(5);
+  // Saves a flashcard's new schedule on the card inside its quiz, so the next session knows what is due.
+  const handleReviewCard = (quizId: string, questionId: string, schedule: CardSchedule) => {
+    const applySchedule = (quiz: Quiz): Quiz => quiz.id !== quizId ? quiz : {
+      ...quiz,
+      questions: quiz.questions.map(q => q.id === questionId ? { ...q, ...schedule } : q)
+    };
+    if (quizId === streamingQuizId) streamingReviewsRef.current[questionId] = schedule;
+    setQuizzes(prev => prev.map(applySchedule));
+    setCurrentQuiz(prev => prev ? applySchedule(prev) : prev);
+    awardXP(5);
+  };
+
+  // --- REVIEW PLAN ---
+  const handleToggleReviewDone = (id: string) => {
+    const review = reviewPlan.reviews.find(r => r.id === id);
+    if (!review) return;
+    setReviewPlan(prev => ({
+      ...prev,
+      reviews: prev.reviews.map(r => r.id === id ? { ...r, completedAt: r.completedAt ? undefined : Date.now() } : r)
+    }));
+    awardXP(review.completedAt ? -REVIEW_SESSION_XP : REVIEW_SESSION_XP);
+  };
+
+  // --- EXAM COUNTDOWN ---
+  const handleSaveExam = (exam: ExamPlan) => {
+    setExamPlans(prev => prev.some(e => e.id === exam.id) ? prev.map(e => e.id === exam.id ? exam : e) : [exam, ...prev]);
+  };
+
+  const handleDeleteExam = (id: string) => {
+    setExamPlans(prev => prev.filter(e => e.id !== id));
+  };
+
+  // Checking off a "new material" session marks its topics as learned, which moves their reviews
+  // to count from that day; unchecking it puts the session back into the plan.
+  const handleToggleExamSession = (examId: string, session: ExamSession) => {
+    setExamPlans(prev => prev.map(exam => {
+      if (exam.id !== examId) return exam;
+      const completed = session.done
+        ? exam.completed.filter(r => r.key !== session.key)
+        : [...exam.completed, { key: session.key, date: session.date, kind: session.kind, topicIds: session.topicIds, completedAt: Date.now() }];
+      const topics = session.kind === 'learn'
+        ? exam.topics.map(topic => session.topicIds.includes(topic.id) ? { ...topic, learnedOn: session.done ? undefined : session.date } : topic)
+        : exam.topics;
+      return { ...exam, completed, topics };
+    }));
+    awardXP(session.done ? -REVIEW_SESSION_XP : REVIEW_SESSION_XP);
+  };
+
+  // A mixed paper over every topic of the exam, linked to the plan so its score adapts it.
+  const handleStartMockExam = (exam: ExamPlan) => {
+    const settings: QuizSettings = {
+      questionType: QuestionType.COMPREHENSIVE,
+      difficulty: Difficulty.HARD,
+      quantity: 20,
+      language: language === 'ar' ? 'Arabic' : 'English',
+      distribution: { multipleChoice: 10, trueFalse: 6, openEnded: 4 },
+      onlyNewQuestions: true // Each mock exam should be a fresh paper, not a cached repeat
+    };
+    handleGenerate(InputMode.TOPIC, `${exam.title}: ${exam.topics.map(topic => topic.name).join(', ')}`, settings, {
+      title: `${exam.title}: ${translations[language].mockExam}`, examId: exam.id
+    });
+  };
+
+  // --- DUE TODAY ---
+  // Cards come due with time alone (learning steps, midnight), so the due list is re-checked
+  // every minute and whenever the app comes back into view.
+  useEffect(() => {
+    const tick = () => setDueClock(Date.now());
+    const interval = setInterval(tick, 60 * 1000);
+    const onVisible = () => { if (document.visibilityState === 'visible') tick(); };
+    window.addEventListener('focus', tick);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('focus', tick);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, []);
+
+  const reviewCards = useMemo(() => collectReviewCards(quizzes, mistakes), [quizzes, mistakes]);
+  const dueReviewCards = useMemo(() => dueCards(reviewCards, dueClock), [reviewCards, dueClock]);
+  const dueSubjects = useMemo(() => countBySubject(dueReviewCards), [dueReviewCards]);
+
+  // The session keeps the cards it started with; they drop out of the due list as they're rated.
+  const reviewSessionDeck = useMemo(() => {
+    if (!reviewSession) return null;
+    const byKey = new Map(reviewCards.map(c => [c.key, c]));
+    const cards = reviewSession.keys.flatMap(key => byKey.get(key) || []);
+    return reviewSessionQuiz(cards, reviewSession.title, language === 'ar' ? 'Arabic' : 'English');
+  }, [reviewSession, reviewCards, language]);
+
+  const handleStartReviewSession = (subject: string | null) => {
+    const cards = subject === null ? dueReviewCards : dueReviewCards.filter(c => c.subject === subject);
+    if (cards.length === 0) return;
+    setReviewSession({ id: generateId(), title: subject || translations[language].dueToday, keys: cards.map(c => c.key) });
+    setActiveView('review_session');
+  };
+
+  const handleReviewSessionCard = (key: string, schedule: CardSchedule) => {
+    const card = reviewCards.find(c => c.key === key);
+    if (!card) return;
+    if (card.source.kind === 'quiz') {
+      handleReviewCard(card.source.quizId, card.source.questionId, schedule);
+    } else {
+      const { mistakeId } = card.source;
+      setMistakes(prev => prev.map(m => m.id === mistakeId ? { ...m, ...schedule } : m));
+      awardXP(5);
+    }
   };
 
   const handleDeleteQuiz = (id: string) => {
@@ -349,6 +652,48 @@ const App: React.FC = () => {
     handleGenerate(InputMode.TEXT, fullPrompt, settings);
   };
 
+  // --- Context-aware chat ---
+
+  const handleCreateChat = (thread: ChatThread) => {
+    setChatThreads(prev => [thread, ...prev]);
+    setActiveChatId(thread.id);
+  };
+
+  const handleUpdateChat = (id: string, update: (thread: ChatThread) => ChatThread) => {
+    setChatThreads(prev => prev.map(thread => thread.id === id ? update(thread) : thread));
+  };
+
+  const handleDeleteChat = (id: string) => {
+    setChatThreads(prev => prev.filter(thread => thread.id !== id));
+    if (activeChatId === id) setActiveChatId(null);
+  };
+
+  // Each "ask about..." starts its own thread, so earlier conversations stay as they were.
+  const openChatWith = (context: ChatContext, title: string) => {
+    handleCreateChat({ id: generateId(), title, messages: [], context, createdAt: Date.now(), updatedAt: Date.now() });
+    setActiveView('chat');
+  };
+
+  const handleAskAboutQuestion = (quiz: Quiz, question: Question, userAnswer?: string) => {
+    openChatWith({
+      kind: 'quiz', quizId: quiz.id, title: quiz.title,
+      focus: { question: question.question, userAnswer, correctAnswer: question.correctAnswer, explanation: question.explanation }
+    }, question.question);
+  };
+
+  // Mistakes only keep the question id, so the chat is grounded in whichever saved quiz still holds it.
+  const handleAskAboutMistake = (mistake: Mistake) => {
+    const quiz = quizzes.find(q => q.questions.some(question => question.id === mistake.questionId));
+    openChatWith({
+      kind: 'quiz', quizId: quiz?.id, title: quiz?.title || mistake.quizTitle,
+      focus: { question: mistake.question, userAnswer: mistake.userAnswer, correctAnswer: mistake.correctAnswer, explanation: mistake.explanation }
+    }, mistake.question);
+  };
+
+  const handleAskAboutGuide = (guide: StudyGuide) => {
+    openChatWith({ kind: 'study_guide', guideId: guide.id, title: guide.title }, guide.title);
+  };
+
   // Render Admin View directly
   if (activeView === 'admin') {
       return <AdminDashboard onExit={() => {
@@ -367,27 +712,54 @@ const App: React.FC = () => {
       activeView={activeView} setActiveView={setActiveView} userProfile={userProfile}
       darkMode={darkMode} toggleDarkMode={toggleDarkMode} onOpenSettings={() => setIsSettingsOpen(true)}
       language={language}
+      serverStatus={serverStatus}
+      dueSubjects={dueSubjects}
+      onReviewSubject={handleStartReviewSession}
     >
-      {isGenerating && <LoadingOverlay language={language} />}
+      {isGenerating && <LoadingOverlay language={language} progress={generationProgress} onCancel={handleCancelGeneration} />}
       {activeView === 'home' && <InputSection onGenerate={handleGenerate} onGenerateStudyGuide={handleGenerateStudyGuide} isGenerating={isGenerating} language={language} />}
-      {activeView === 'dashboard' && <Dashboard quizzes={quizzes} onSelectQuiz={(quiz, mode) => { setCurrentQuiz(quiz); setActiveView(mode === 'flashcard' ? 'flashcards' : 'quiz'); }} onDeleteQuiz={handleDeleteQuiz} language={language} />}
-      {activeView === 'mistakes' && <SmartReview mistakes={mistakes} onDeleteMistake={handleDeleteMistake} onDeleteTopic={handleDeleteTopic} onClearAll={handleClearMistakes} onGenerateRemedial={handleGenerateRemedial} language={language} />}
-      {activeView === 'review_plan' && <ReviewPlanner onOpenSettings={() => setIsSettingsOpen(true)} language={language} />}
-      {activeView === 'chat' && <ChatBot language={language} />}
-      {activeView === 'study_guide' && currentStudyGuide && <StudyGuideView guide={currentStudyGuide} onExit={() => setActiveView('home')} />}
+      {activeView === 'dashboard' && <Dashboard quizzes={quizzes} studyGuides={studyGuides} onSelectQuiz={(quiz, mode) => { setCurrentQuiz(quiz); setActiveView(mode === 'flashcard' ? 'flashcards' : 'quiz'); }} onDeleteQuiz={handleDeleteQuiz} onOpenGuide={handleOpenStudyGuide} onDeleteGuide={handleDeleteStudyGuide} language={language} />}
+      {activeView === 'mistakes' && <SmartReview mistakes={mistakes} onDeleteMistake={handleDeleteMistake} onDeleteTopic={handleDeleteTopic} onClearAll={handleClearMistakes} onGenerateRemedial={handleGenerateRemedial} onAskAboutMistake={handleAskAboutMistake} language={language} />}
+      {activeView === 'due' && <DueReview cards={reviewCards} due={dueReviewCards} onStartSession={handleStartReviewSession} language={language} />}
+      {activeView === 'review_session' && reviewSession && reviewSessionDeck && (
+        <FlashcardPlayer
+          key={reviewSession.id}
+          quiz={reviewSessionDeck}
+          onExit={() => { setReviewSession(null); setActiveView('due'); }}
+          onReview={handleReviewSessionCard}
+          language={language}
+        />
+      )}
+      {activeView === 'review_plan' && <ReviewPlanner plan={reviewPlan} onUpdatePlan={setReviewPlan} onToggleReviewDone={handleToggleReviewDone} onOpenSettings={() => setIsSettingsOpen(true)} language={language}
+        examPlanner={
+          <ExamPlanner
+            exams={examPlans} quizzes={quizzes} studyGuides={studyGuides} mistakes={mistakes}
+            onSaveExam={handleSaveExam} onDeleteExam={handleDeleteExam} onToggleSession={handleToggleExamSession}
+            onOpenQuiz={(quiz) => { setCurrentQuiz(quiz); setActiveView('quiz'); }} onOpenGuide={handleOpenStudyGuide}
+            onStartMock={handleStartMockExam} language={language}
+          />
+        }
+      />}
+      {activeView === 'chat' && <ChatBot language={language} quizzes={quizzes} studyGuides={studyGuides} threads={chatThreads} activeThreadId={activeChatId} onSelectThread={setActiveChatId} onCreateThread={handleCreateChat} onUpdateThread={handleUpdateChat} onDeleteThread={handleDeleteChat} />}
+      {activeView === 'study_guide' && currentStudyGuide && <StudyGuideView guide={currentStudyGuide} onExit={() => setActiveView('dashboard')} onAskAssistant={() => handleAskAboutGuide(currentStudyGuide)} onRegenerate={() => handleRegenerateStudyGuide(currentStudyGuide)} quizzes={quizzes} onPractice={(topic, kind) => handleGenerateFromGuide(currentStudyGuide, topic, kind)} onUpdateGuide={handleUpdateStudyGuide} language={language} />}
       {activeView === 'quiz' && currentQuiz && (
         <QuizPlayer 
           quiz={currentQuiz} 
           onComplete={handleQuizComplete} 
           onExit={() => { setCurrentQuiz(null); setActiveView('dashboard'); }}
           language={language}
+          isLoadingMore={streamingQuizId === currentQuiz.id}
+          onStopLoading={handleCancelGeneration}
+          onAskAboutQuestion={(question, userAnswer) => handleAskAboutQuestion(currentQuiz, question, userAnswer)}
         />
       )}
       {activeView === 'flashcards' && currentQuiz && (
         <FlashcardPlayer 
           quiz={currentQuiz} 
           onExit={() => { setCurrentQuiz(null); setActiveView('dashboard'); }} 
-          onUpdateProgress={handleSRSUpdate} 
+          onReview={(questionId, schedule) => handleReviewCard(currentQuiz.id, questionId, schedule)}
+          isLoadingMore={streamingQuizId === currentQuiz.id}
+          onStopLoading={handleCancelGeneration}
           language={language}
         />
       )}
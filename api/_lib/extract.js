@@ -0,0 +1,311 @@
+// Readable-text extraction for URL mode (/api/extract).
+// Fetches a page server-side and reduces it to title + headings + body text so the model
+// gets the article instead of a URL it cannot open.
+
+const dns = require('dns');
+const http = require('http');
+const https = require('https');
+const net = require('net');
+
+const MAX_PAGE_BYTES = 3 * 1024 * 1024;
+const MAX_TEXT_CHARS = 200000;
+const MIN_TEXT_CHARS = 200;
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+
+class ExtractError extends Error {
+    constructor(message, status = 422, code = 'EXTRACT_FAILED') {
+        super(message);
+        this.status = status;
+        this.code = code;
+    }
+}
+
+// --- FETCHING ---
+
+// Expands an IPv6 literal to its eight 16-bit groups (an embedded dotted IPv4 tail counts as two).
+const ipv6Groups = (address) => {
+    let text = address.toLowerCase().split('%')[0];
+    const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+    if (dotted) {
+        const [a, b, c, d] = dotted[1].split('.').map(Number);
+        text = text.slice(0, -dotted[1].length) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+    }
+    const [head, tail] = text.split('::');
+    const parse = (part) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+    const front = parse(head);
+    const back = tail === undefined ? [] : parse(tail);
+    return [...front, ...new Array(8 - front.length - back.length).fill(0), ...back];
+};
+
+const isPrivateIPv4 = (address) => {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 ||
+        (a === 169 && b === 254) ||
+        (a === 172 && b >= 16 && b <= 31) ||
+        (a === 192 && b === 168) ||
+        (a === 100 && b >= 64 && b <= 127) ||
+        a >= 224; // multicast (224/4) and reserved (240/4, broadcast)
+};
+
+const isPrivateAddress = (address) => {
+    if (!net.isIPv6(address)) return isPrivateIPv4(address);
+    const groups = ipv6Groups(address);
+    // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d, including :: and ::1) forms,
+    // whichever way they are written, are checked as the IPv4 address they carry.
+    if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+        const ipv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+        return isPrivateIPv4(ipv4);
+    }
+    const first = groups[0];
+    return (first & 0xfe00) === 0xfc00 || // unique local, fc00::/7
+        (first & 0xffc0) === 0xfe80 ||    // link-local, fe80::/10
+        (first & 0xffc0) === 0xfec0 ||    // deprecated site-local, fec0::/10
+        (first & 0xff00) === 0xff00;      // multicast, ff00::/8
+};
+
+// The proxy must not become a way to reach the server's own network.
+const assertPublicUrl = async (rawUrl) => {
+    let url;
+    try {
+        url = new URL(rawUrl);
+    } catch (e) {
+        throw new ExtractError('That does not look like a valid web address.', 400, 'INVALID_URL');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new ExtractError('Only http and https links are supported.', 400, 'INVALID_URL');
+    }
+    let addresses;
+    try {
+        addresses = await dns.promises.lookup(url.hostname, { all: true });
+    } catch (e) {
+        throw new ExtractError(`Could not find the site "${url.hostname}".`, 400, 'UNREACHABLE');
+    }
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+        throw new ExtractError('Links to private or local addresses are not allowed.', 400, 'INVALID_URL');
+    }
+    return url;
+};
+
+// Used as the socket's DNS lookup, so the address that was checked is the one connected to
+// (a second lookup could be answered differently, e.g. by DNS rebinding).
+const publicLookup = (hostname, options, callback) => {
+    dns.lookup(hostname, options, (error, address, family) => {
+        if (error) return callback(error);
+        const addresses = Array.isArray(address) ? address : [{ address, family }];
+        if (addresses.some(entry => isPrivateAddress(entry.address))) {
+            return callback(new ExtractError('Links to private or local addresses are not allowed.', 400, 'INVALID_URL'));
+        }
+        callback(null, address, family);
+    });
+};
+
+const requestPage = (url, signal) => new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, {
+        signal,
+        lookup: publicLookup,
+        headers: {
+            'User-Agent': 'Mozilla/5.0 (compatible; StudyGeniusBot/1.0)',
+            'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5'
+        }
+    }, resolve);
+    request.on('error', reject);
+});
+
+const readLimitedBody = async (response) => {
+    const chunks = [];
+    let size = 0;
+    for await (const chunk of response) {
+        size += chunk.length;
+        if (size > MAX_PAGE_BYTES) {
+            throw new ExtractError(`The page is too large (over ${MAX_PAGE_BYTES / 1024 / 1024} MB). Paste the relevant part as text instead.`, 413, 'TOO_LARGE');
+        }
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf8');
+};
+
+const fetchPage = async (rawUrl) => {
+    let url = await assertPublicUrl(rawUrl);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+    try {
+        // Redirects are followed by hand so every hop is checked before it is requested.
+        let response;
+        for (let hop = 0; ; hop++) {
+            try {
+                response = await requestPage(url, controller.signal);
+            } catch (e) {
+                if (e instanceof ExtractError) throw e;
+                if (e.name === 'AbortError') throw new ExtractError('The site took too long to respond.', 504, 'TIMEOUT');
+                throw new ExtractError(`Could not reach ${url.hostname}.`, 502, 'UNREACHABLE');
+            }
+            const location = response.headers.location;
+            if (response.statusCode < 300 || response.statusCode >= 400 || !location) break;
+            response.resume();
+            if (hop >= MAX_REDIRECTS) throw new ExtractError('The link redirects too many times.', 502, 'UPSTREAM_ERROR');
+            url = await assertPublicUrl(new URL(location, url).href);
+        }
+
+        const status = response.statusCode;
+        if (status === 401 || status === 402 || status === 403) {
+            throw new ExtractError('This page requires a login or subscription. Copy the article text and use Text mode instead.', 403, 'PAYWALLED');
+        }
+        if (status < 200 || status >= 300) {
+            throw new ExtractError(`The site answered with an error (${status}).`, 502, 'UPSTREAM_ERROR');
+        }
+
+        const contentType = (response.headers['content-type'] || '').toLowerCase();
+        if (!contentType.includes('text/html') && !contentType.includes('application/xhtml')) {
+            const kind = contentType.split(';')[0] || 'unknown';
+            throw new ExtractError(`This link is not a web page (${kind}). Download the file and use File mode instead.`, 415, 'NOT_HTML');
+        }
+        const declaredSize = Number(response.headers['content-length']);
+        if (declaredSize > MAX_PAGE_BYTES) {
+            throw new ExtractError(`The page is too large (over ${MAX_PAGE_BYTES / 1024 / 1024} MB). Paste the relevant part as text instead.`, 413, 'TOO_LARGE');
+        }
+
+        try {
+            return { html: await readLimitedBody(response), finalUrl: url.href };
+        } catch (e) {
+            if (e.name === 'AbortError') throw new ExtractError('The site took too long to respond.', 504, 'TIMEOUT');
+            throw e;
+        }
+    } finally {
+        clearTimeout(timer);
+        // Drops the connection of any response that was not read to the end.
+        controller.abort();
+    }
+};
+
+// --- HTML -> TEXT ---
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–', hellip: '…', laquo: '«', raquo: '»' };
+
+const decodeEntities = (text) => text
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&([a-z]+);/gi, (m, name) => ENTITIES[name.toLowerCase()] ?? m);
+
+const stripTags = (html) => decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+// Elements that never hold article text.
+const BOILERPLATE_TAGS = ['script', 'style', 'noscript', 'svg', 'template', 'iframe', 'form', 'nav', 'header', 'footer', 'aside', 'button', 'select'];
+// Matched per class/id token at its start or end ("site-footer", "cookie-banner"), but not
+// state modifiers like "has-sidebar" that sit on the content wrapper itself.
+const BOILERPLATE_HINT = /^(?!(?:has|with|no|is)-)(?:(?:nav|navbar|menu|sidebar|footer|header|cookie|consent|banner|advert|ads?|promo|share|social|related|comments?|newsletter|breadcrumbs?)(?:[_-].*)?|.*[_-](?:nav|navbar|menu|sidebar|footer|header|cookie|consent|banner|advert|ads?|promo|share|social|related|comments?|newsletter|breadcrumbs?))$/i;
+const PAYWALL_HINT = /(paywall|subscriber-only|premium-content|meteredContent|"isAccessibleForFree"\s*:\s*"?false)/i;
+
+const isChrome = (attrs) => {
+    const tokens = [...attrs.matchAll(/(?:class|id|role)\s*=\s*["']([^"']+)["']/gi)].flatMap(m => m[1].split(/\s+/));
+    return tokens.some(token => BOILERPLATE_HINT.test(token));
+};
+
+// Index just past the tag that closes the element opened before `from` (same-name nesting aware).
+const findClosingIndex = (html, tag, from) => {
+    const re = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+    re.lastIndex = from;
+    let depth = 1;
+    let m;
+    while ((m = re.exec(html))) {
+        depth += m[1] ? -1 : 1;
+        if (depth === 0) return re.lastIndex;
+    }
+    return html.length;
+};
+
+const removeBoilerplate = (html) => {
+    let out = html.replace(/<!--[\s\S]*?-->/g, ' ');
+    BOILERPLATE_TAGS.forEach(tag => {
+        out = out.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), ' ');
+    });
+
+    // Drop blocks whose class/id/role marks them as chrome (menus, share bars, cookie banners).
+    const open = /<(div|section|ul|ol)\b([^>]*)>/gi;
+    let result = '';
+    let last = 0;
+    let m;
+    while ((m = open.exec(out))) {
+        if (!isChrome(m[2])) continue;
+        const end = findClosingIndex(out, m[1], open.lastIndex);
+        result += out.slice(last, m.index) + ' ';
+        last = end;
+        open.lastIndex = end;
+    }
+    return result + out.slice(last);
+};
+
+// Prefer <article> / <main> when present; otherwise the whole body.
+const pickMainContent = (html) => {
+    const article = html.match(/<article\b[^>]*>([\s\S]*?)<\/article>/i);
+    if (article && stripTags(article[1]).length >= MIN_TEXT_CHARS) return article[1];
+    const main = html.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i);
+    if (main && stripTags(main[1]).length >= MIN_TEXT_CHARS) return main[1];
+    const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i);
+    return body ? body[1] : html;
+};
+
+const extractTitle = (html) => {
+    const og = html.match(/<meta[^>]+property=["']og:title["'][^>]+content=["']([^"']+)["']/i);
+    if (og) return decodeEntities(og[1]).trim();
+    const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+    if (title) return stripTags(title[1]);
+    const h1 = html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i);
+    return h1 ? stripTags(h1[1]) : '';
+};
+
+// Headings become Markdown "#" lines and block elements become paragraphs,
+// so the quiz generator's section splitter can use the page structure.
+const htmlToText = (html) => {
+    const headings = [];
+    const marked = html
+        .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, inner) => {
+            const text = stripTags(inner);
+            if (!text) return ' ';
+            headings.push(text);
+            return `\n\n${'#'.repeat(Number(level))} ${text}\n\n`;
+        })
+        .replace(/<li\b[^>]*>/gi, '\n- ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|section|li|tr|blockquote|pre|table|ul|ol|dd|dt|figcaption)>/gi, '\n\n');
+
+    const text = decodeEntities(marked.replace(/<[^>]+>/g, ' '))
+        .split('\n')
+        .map(line => line.replace(/[ \t ]+/g, ' ').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+    return { text, headings };
+};
+
+const extractReadableText = (html, url = '') => {
+    const title = extractTitle(html);
+    const { text, headings } = htmlToText(pickMainContent(removeBoilerplate(html)));
+    const plainLength = text.replace(/\s+/g, '').length;
+
+    if (plainLength < MIN_TEXT_CHARS) {
+        if (PAYWALL_HINT.test(html)) {
+            throw new ExtractError('This article is behind a paywall. Copy the text you can see and use Text mode instead.', 403, 'PAYWALLED');
+        }
+        throw new ExtractError('No readable text was found on this page (it may need JavaScript to load). Paste the text instead.', 422, 'NO_CONTENT');
+    }
+
+    const truncated = text.length > MAX_TEXT_CHARS;
+    return {
+        url,
+        title: title || url,
+        headings,
+        text: truncated ? text.substring(0, MAX_TEXT_CHARS) : text,
+        truncated,
+        paywallSuspected: PAYWALL_HINT.test(html)
+    };
+};
+
+module.exports = {
+    ExtractError,
+    isPrivateAddress,
+    fetchPage,
+    extractReadableText
+};
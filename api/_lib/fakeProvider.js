@@ -0,0 +1,235 @@
+// Deterministic stand-in for a real AI provider, for local development and tests without keys or network.
+// Enabled with AI_PROVIDER=fake. Responses are seeded from the prompt, so the same request
+// always gets the same answer, and every JSON payload matches what the client's validators expect.
+//
+// Failure fixtures, chosen with FAKE_AI_FAILURE=<mode> or a "#fake:<mode>" marker anywhere in the prompt:
+//   429        -> rate-limit error (exercises retry + "server overloaded" handling)
+//   malformed  -> truncated, unparseable JSON (exercises repair / validation errors)
+//   empty      -> empty response text
+//   invalid    -> well-formed JSON with defective items (exercises per-item repair)
+
+const { ProviderError } = require('./providerError');
+
+const STREAM_CHUNK_SIZE = 48;
+
+// --- SEEDING ---
+
+const hashString = (text) => {
+    let h = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 16777619);
+    }
+    return h >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed) => () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const pick = (random, list) => list[Math.floor(random() * list.length)];
+
+// --- PROMPT INSPECTION ---
+
+const promptText = (contents) => {
+    if (!contents) return '';
+    if (typeof contents === 'string') return contents;
+    if (Array.isArray(contents)) return contents.map(promptText).join('\n');
+    if (Array.isArray(contents.parts)) return contents.parts.map(p => p.text || '').join('\n');
+    return contents.text || '';
+};
+
+const detectFailure = (text) => {
+    const marker = text.match(/#fake:(429|malformed|empty|invalid)\b/i);
+    return (marker ? marker[1] : process.env.FAKE_AI_FAILURE || '').toLowerCase();
+};
+
+const isArabicRequest = (text, config) =>
+    /Language:\s*(Arabic|ar)\b/i.test(text) || /Arabic/i.test((config && config.systemInstruction) || '');
+
+// The client names the shape it expects in `task` (see ProxyTask in services/geminiService.ts),
+// so a change of prompt wording can't switch fixtures. Requests without one fall back on the config.
+const TASK_KINDS = ['quiz', 'grading', 'guide', 'section', 'notes', 'chat'];
+
+const detectKind = (task, config = {}) => {
+    if (TASK_KINDS.includes(task)) return task;
+    const schemaProps = config.responseSchema && config.responseSchema.properties;
+    if (schemaProps && schemaProps.quiz) return 'quiz';
+    if (config.responseMimeType === 'application/json') return 'json';
+    return 'chat';
+};
+
+// "exactly 10 questions: 5 "multiple_choice", 3 "true_false"" -> [['multiple_choice', 5], ...]
+const requestedMix = (text) => {
+    const mix = [...text.matchAll(/(\d+)\s+"(multiple_choice|true_false|open_ended|flashcard)"/g)]
+        .map(m => [m[2], Math.min(Number(m[1]), 50)]);
+    if (mix.length > 0) return mix;
+    const unbounded = text.match(/as many "(multiple_choice|true_false|open_ended|flashcard)"/);
+    if (unbounded) return [[unbounded[1], 12]];
+    const repair = text.match(/exactly (\d+) item/);
+    return [['multiple_choice', repair ? Number(repair[1]) : 5]];
+};
+
+// --- FIXTURES ---
+
+const TOPICS_EN = ['photosynthesis', 'the water cycle', 'Newton\'s laws', 'cell division', 'the French Revolution', 'plate tectonics', 'supply and demand', 'the immune system'];
+const TOPICS_AR = ['البناء الضوئي', 'دورة الماء', 'قوانين نيوتن', 'انقسام الخلية', 'الثورة الفرنسية', 'الصفائح التكتونية', 'العرض والطلب', 'الجهاز المناعي'];
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'];
+
+const makeQuizItem = (type, index, random, arabic) => {
+    const topic = pick(random, arabic ? TOPICS_AR : TOPICS_EN);
+    const difficulty = pick(random, DIFFICULTIES);
+    const n = index + 1;
+    if (type === 'multiple_choice') {
+        const options = arabic
+            ? [`الخيار أ للسؤال ${n}`, `الخيار ب للسؤال ${n}`, `الخيار ج للسؤال ${n}`, `الخيار د للسؤال ${n}`]
+            : [`Option A for question ${n}`, `Option B for question ${n}`, `Option C for question ${n}`, `Option D for question ${n}`];
+        return {
+            type, difficulty,
+            question: arabic ? `سؤال تجريبي ${n} عن ${topic}: أي العبارات التالية صحيحة؟` : `Sample question ${n} about ${topic}: which statement is correct?`,
+            options,
+            correct_answer: pick(random, options),
+            explanation: arabic ? `هذا شرح تجريبي للسؤال ${n}.` : `This is a sample explanation for question ${n}.`
+        };
+    }
+    if (type === 'true_false') {
+        const options = arabic ? ['صح', 'خطأ'] : ['True', 'False'];
+        return {
+            type, difficulty,
+            question: arabic ? `عبارة تجريبية ${n} عن ${topic}.` : `Sample statement ${n} about ${topic}.`,
+            options,
+            correct_answer: options[random() < 0.5 ? 0 : 1],
+            explanation: arabic ? `شرح العبارة ${n}.` : `Explanation for statement ${n}.`
+        };
+    }
+    return {
+        type, difficulty,
+        question: arabic ? `اشرح باختصار ${topic} (سؤال ${n}).` : `Briefly explain ${topic} (question ${n}).`,
+        options: [],
+        correct_answer: arabic ? `إجابة نموذجية عن ${topic}.` : `A model answer about ${topic}.`,
+        key_points: arabic
+            ? [`تعريف ${topic}`, `مثال على ${topic}`]
+            : [`Defines ${topic}`, `Gives an example of ${topic}`],
+        explanation: arabic ? `النقاط الأساسية عن ${topic}.` : `The key points about ${topic}.`
+    };
+};
+
+const buildQuiz = (text, random, arabic, failure) => {
+    const items = [];
+    requestedMix(text).forEach(([type, count]) => {
+        for (let i = 0; i < count; i++) items.push(makeQuizItem(type, items.length, random, arabic));
+    });
+    if (failure === 'invalid' && items.length > 0) {
+        items[0] = { ...items[0], type: 'multiple_choice', options: ['Only one option'], correct_answer: 'Not an option' };
+    }
+    return { quiz: items };
+};
+
+const buildGuide = (random, arabic) => {
+    const topics = [0, 1, 2].map(() => pick(random, arabic ? TOPICS_AR : TOPICS_EN));
+    return arabic
+        ? {
+            title: `دليل دراسي تجريبي: ${topics[0]}`,
+            content: `## ملخص\n\nهذا دليل تجريبي.\n\n## المفاهيم الأساسية\n\n- ${topics.join('\n- ')}\n\n## أمثلة\n\nمثال توضيحي عن ${topics[1]}.`,
+            topics
+        }
+        : {
+            title: `Sample study guide: ${topics[0]}`,
+            content: `## Summary\n\nThis is a sample guide.\n\n## Key Concepts\n\n- ${topics.join('\n- ')}\n\n## Examples\n\nAn illustrative example about ${topics[1]}.`,
+            topics
+        };
+};
+
+// One entry per numbered key point; an exact copy of the model answer gets full credit.
+const buildGrading = (text, random) => {
+    const correct = (text.match(/Correct:\s*"([^"]*)"/) || [])[1] || '';
+    const student = (text.match(/Student:\s*"([^"]*)"/) || [])[1] || '';
+    const exact = correct && correct.trim().toLowerCase() === student.trim().toLowerCase();
+    const pointsBlock = (text.match(/Key points:\n([\s\S]*?)\nStudent:/) || [])[1] || '';
+    const points = pointsBlock.split('\n').map(l => l.replace(/^\d+\.\s*/, '').trim()).filter(Boolean);
+    const rubric = (points.length > 0 ? points : [correct]).map(point => {
+        const awarded = exact ? 1 : pick(random, [0, 0.5, 1]);
+        return { point, awarded, feedback: awarded === 1 ? 'Covered.' : awarded > 0 ? 'Partly covered.' : 'Missing.' };
+    });
+    return {
+        rubric,
+        feedback: rubric.every(r => r.awarded === 1) ? 'Good answer (sample grading).' : 'Some key points are missing (sample grading).'
+    };
+};
+
+// One note per "Review N:" line of the prompt.
+const buildNotes = (text, arabic) => {
+    const topic = ((text.match(/^Topic:\s*(.+)$/m) || [])[1] || 'Topic').trim();
+    const steps = [...text.matchAll(/^Review (\d+):/gm)].map(m => m[1]);
+    return {
+        notes: steps.map(step => arabic
+            ? `جلسة تجريبية ${step}: راجع ${topic}.`
+            : `Sample session ${step}: review ${topic}.`)
+    };
+};
+
+// Section edits return Markdown: the original heading plus a note naming the task.
+const buildSection = (text, arabic) => {
+    const section = (text.match(/^SECTION:\n([\s\S]*)$/m) || [])[1] || '';
+    const heading = section.split('\n').find(line => /^#{1,6}\s/.test(line)) || '## Section';
+    const task = ((text.match(/^TASK:\s*(.+)$/m) || [])[1] || '').trim();
+    return arabic || /[؀-ۿ]/.test(section)
+        ? `${heading}\n\nنسخة تجريبية معدلة من هذا القسم.\n\n- ${task}`
+        : `${heading}\n\nA sample revised version of this section.\n\n- ${task}`;
+};
+
+const buildChatReply = (text, random, arabic) => {
+    const lastUser = (text.match(/\[user\]:\s*([\s\S]*?)\n\[model\]:\s*$/) || [])[1] || text;
+    const snippet = lastUser.trim().substring(0, 80);
+    return arabic || /[؀-ۿ]/.test(snippet)
+        ? `هذا رد تجريبي على: "${snippet}".\n\n- نقطة أولى\n- نقطة ثانية`
+        : `This is a sample reply to: "${snippet}".\n\n- First point\n- Second point ${Math.floor(random() * 100)}`;
+};
+
+// --- ADAPTER ---
+
+const respond = ({ contents, config = {}, task }) => {
+    const text = promptText(contents);
+    const failure = detectFailure(text);
+    if (failure === '429') throw new ProviderError('Resource exhausted (429): fake provider rate limit fixture.', 429);
+    if (failure === 'empty') return '';
+
+    const random = createRandom(hashString(text));
+    const arabic = isArabicRequest(text, config);
+    const kind = detectKind(task, config);
+
+    let body;
+    if (kind === 'quiz') body = JSON.stringify(buildQuiz(text, random, arabic, failure));
+    else if (kind === 'guide') body = JSON.stringify(buildGuide(random, arabic));
+    else if (kind === 'grading') body = JSON.stringify(buildGrading(text, random));
+    else if (kind === 'notes') body = JSON.stringify(buildNotes(text, arabic));
+    else if (kind === 'section') body = buildSection(text, arabic);
+    else if (kind === 'json') body = JSON.stringify({});
+    else body = buildChatReply(text, random, arabic);
+
+    // Cut mid-object so neither JSON.parse nor the streaming item parser can recover it whole.
+    if (failure === 'malformed') return body.substring(0, Math.max(1, Math.floor(body.length * 0.6)));
+    return body;
+};
+
+const fakeAdapter = {
+    name: 'fake',
+    defaultModel: 'fake-model',
+    generate: async (request) => respond(request),
+    stream: async (request) => {
+        const text = respond(request);
+        return (async function* () {
+            for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+                if (request.signal && request.signal.aborted) return;
+                yield text.substring(i, i + STREAM_CHUNK_SIZE);
+                await new Promise(resolve => setImmediate(resolve));
+            }
+        })();
+    }
+};
+
+module.exports = { fakeAdapter, TASK_KINDS };
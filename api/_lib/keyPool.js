@@ -0,0 +1,139 @@
+// Gemini API key pool for /api/generate.
+// Tracks per-key health so retries move away from keys that are rate limited or rejected,
+// instead of picking at random and possibly hitting the same exhausted key again.
+// State lives in memory, so each server instance (or serverless container) learns on its own.
+
+const BASE_COOLDOWN_MS = 15 * 1000;
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+const AUTH_COOLDOWN_MS = 60 * 60 * 1000;
+const SERVER_ERROR_COOLDOWN_MS = 5 * 1000;
+
+// GEMINI_KEY_1..N (any number, gaps allowed), a comma-separated GEMINI_API_KEYS, then API_KEY.
+const readKeysFromEnv = (env = process.env) => {
+    const numbered = Object.keys(env)
+        .map(name => ({ name, match: name.match(/^GEMINI_KEY_(\d+)$/) }))
+        .filter(({ match }) => match)
+        .sort((a, b) => Number(a.match[1]) - Number(b.match[1]))
+        .map(({ name }) => ({ label: name, key: env[name] }));
+    const listed = (env.GEMINI_API_KEYS || '')
+        .split(',')
+        .map(k => k.trim())
+        .map((key, i) => ({ label: `GEMINI_API_KEYS[${i}]`, key }));
+    const single = env.API_KEY ? [{ label: 'API_KEY', key: env.API_KEY }] : [];
+
+    const seen = new Set();
+    return [...numbered, ...listed, ...single].filter(({ key }) => {
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+// --- ERROR CLASSIFICATION ---
+
+const classifyError = (error) => {
+    const status = error.status || error.code;
+    const message = String(error.message || '');
+    if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'quota';
+    if (status === 401 || status === 403 || /API_KEY_INVALID|API key not valid|PERMISSION_DENIED|\b40[13]\b/i.test(message)) return 'auth';
+    if ((status >= 500 && status < 600) || /\b50[0-4]\b|UNAVAILABLE|overloaded/i.test(message)) return 'server';
+    return 'other';
+};
+
+// Full jitter: a random delay in [0, base * 2^attempt], capped.
+const backoffDelay = (attempt, baseMs = 500, capMs = 8000) =>
+    Math.floor(Math.random() * Math.min(capMs, baseMs * 2 ** attempt));
+
+const maskKey = (key) => key.length <= 8 ? '****' : `${key.slice(0, 4)}…${key.slice(-4)}`;
+
+// --- POOL ---
+
+const createKeyPool = (entries) => {
+    const keys = entries.map(({ label, key }) => ({
+        label,
+        key,
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        cooldownUntil: 0,
+        lastUsedAt: 0,
+        lastError: null,
+        lastErrorKind: null,
+        lastErrorAt: 0
+    }));
+
+    const findState = (key) => keys.find(k => k.key === key);
+
+    // Prefer keys that are not cooling down, then the fewest recent failures, then least recently used.
+    const acquire = (exclude = []) => {
+        if (keys.length === 0) return null;
+        const now = Date.now();
+        const candidates = keys.filter(k => !exclude.includes(k.key));
+        const pool = candidates.length > 0 ? candidates : keys;
+        const ready = pool.filter(k => k.cooldownUntil <= now);
+        if (ready.length === 0) return null;
+        ready.sort((a, b) => a.consecutiveFailures - b.consecutiveFailures || a.lastUsedAt - b.lastUsedAt);
+        ready[0].lastUsedAt = now;
+        return ready[0].key;
+    };
+
+    // Milliseconds until some key leaves its cooldown (0 if one is ready now).
+    const nextAvailableIn = () => {
+        if (keys.length === 0) return Infinity;
+        const now = Date.now();
+        return Math.max(0, Math.min(...keys.map(k => k.cooldownUntil)) - now);
+    };
+
+    const reportSuccess = (key) => {
+        const state = findState(key);
+        if (!state) return;
+        state.successes++;
+        state.consecutiveFailures = 0;
+        state.cooldownUntil = 0;
+    };
+
+    const reportFailure = (key, error) => {
+        const state = findState(key);
+        const kind = classifyError(error);
+        if (!state) return kind;
+        state.failures++;
+        state.consecutiveFailures++;
+        state.lastError = String(error.message || error).substring(0, 200);
+        state.lastErrorKind = kind;
+        state.lastErrorAt = Date.now();
+
+        let cooldown = 0;
+        if (kind === 'quota') cooldown = Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** (state.consecutiveFailures - 1));
+        else if (kind === 'auth') cooldown = AUTH_COOLDOWN_MS;
+        else if (kind === 'server') cooldown = SERVER_ERROR_COOLDOWN_MS;
+        if (cooldown > 0) state.cooldownUntil = Date.now() + cooldown + backoffDelay(0, cooldown / 10, cooldown / 10);
+        return kind;
+    };
+
+    // Admin view: never exposes the full key.
+    const snapshot = () => {
+        const now = Date.now();
+        return keys.map(k => ({
+            label: k.label,
+            key: maskKey(k.key),
+            status: k.cooldownUntil > now ? (k.lastErrorKind === 'auth' ? 'disabled' : 'cooling') : 'healthy',
+            successes: k.successes,
+            failures: k.failures,
+            consecutiveFailures: k.consecutiveFailures,
+            cooldownRemainingMs: Math.max(0, k.cooldownUntil - now),
+            lastUsedAt: k.lastUsedAt || null,
+            lastError: k.lastError,
+            lastErrorKind: k.lastErrorKind,
+            lastErrorAt: k.lastErrorAt || null
+        }));
+    };
+
+    return { size: keys.length, acquire, nextAvailableIn, reportSuccess, reportFailure, snapshot };
+};
+
+module.exports = {
+    readKeysFromEnv,
+    createKeyPool,
+    classifyError,
+    backoffDelay
+};
@@ -0,0 +1,9 @@
+// Error raised by provider adapters; `status` is forwarded to the client when it is a 4xx.
+class ProviderError extends Error {
+    constructor(message, status = 500) {
+        super(message);
+        this.status = status;
+    }
+}
+
+module.exports = { ProviderError };
@@ -0,0 +1,228 @@
+// AI provider adapters used by /api/generate.
+// The client always speaks Gemini's request shape ({ parts } contents + generation config);
+// each adapter translates that into its own wire format and returns plain text (or a stream of it).
+
+const { ProviderError } = require('./providerError');
+const { fakeAdapter } = require('./fakeProvider');
+
+const GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
+
+const DEFAULT_MODELS = {
+    gemini: 'gemini-2.5-flash',
+    groq: 'llama-3.3-70b-versatile',
+    custom: 'local-model'
+};
+
+// --- REQUEST NORMALIZATION ---
+
+// Gemini accepts a string, a single { parts } object or an array of contents.
+const toParts = (contents) => {
+    if (!contents) return [];
+    if (typeof contents === 'string') return [{ text: contents }];
+    if (Array.isArray(contents)) return contents.flatMap(toParts);
+    if (Array.isArray(contents.parts)) return contents.parts;
+    if (contents.text || contents.inlineData) return [contents];
+    return [];
+};
+
+// Gemini's Type enum is upper-case ("OBJECT", "STRING"); JSON Schema wants lower-case.
+const toJsonSchema = (schema) => {
+    if (!schema || typeof schema !== 'object') return schema;
+    if (Array.isArray(schema)) return schema.map(toJsonSchema);
+    const out = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === 'type' && typeof value === 'string') out.type = value.toLowerCase();
+        else if (key === 'nullable') continue;
+        else out[key] = typeof value === 'object' ? toJsonSchema(value) : value;
+    }
+    return out;
+};
+
+const partToOpenAIContent = (part, providerName) => {
+    if (part.text !== undefined) return { type: 'text', text: String(part.text) };
+    if (part.inlineData) {
+        const { mimeType = '', data = '' } = part.inlineData;
+        if (mimeType.startsWith('image/')) {
+            return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+        }
+        if (mimeType.startsWith('text/') || mimeType === 'application/json') {
+            return { type: 'text', text: Buffer.from(data, 'base64').toString('utf8') };
+        }
+        throw new ProviderError(`The ${providerName} provider cannot read "${mimeType}" files. Use Gemini or paste the text instead.`, 400);
+    }
+    return null;
+};
+
+const buildOpenAIRequest = ({ model, contents, config = {} }, { providerName, supportsJsonSchema }) => {
+    const messages = [];
+    const content = toParts(contents)
+        .map(part => partToOpenAIContent(part, providerName))
+        .filter(Boolean);
+
+    let systemPrompt = config.systemInstruction || '';
+    const body = { model };
+
+    if (config.responseMimeType === 'application/json') {
+        if (config.responseSchema && supportsJsonSchema) {
+            body.response_format = {
+                type: 'json_schema',
+                json_schema: { name: 'response', schema: toJsonSchema(config.responseSchema) }
+            };
+        } else {
+            body.response_format = { type: 'json_object' };
+            // json_object mode only guarantees valid JSON, so spell the shape out for the model.
+            const shape = config.responseSchema ? `\nThe JSON must follow this JSON Schema:\n${JSON.stringify(toJsonSchema(config.responseSchema))}` : '';
+            systemPrompt += `\nRespond ONLY with a valid JSON object.${shape}`;
+        }
+    }
+
+    if (systemPrompt.trim()) messages.push({ role: 'system', content: systemPrompt.trim() });
+
+    // Plain text-only prompts are sent as a string for servers without multi-part support (llama.cpp, older Ollama).
+    const textOnly = content.every(c => c.type === 'text');
+    messages.push({
+        role: 'user',
+        content: textOnly ? content.map(c => c.text).join('\n') : content
+    });
+
+    body.messages = messages;
+    if (typeof config.temperature === 'number') body.temperature = config.temperature;
+    if (typeof config.maxOutputTokens === 'number') body.max_tokens = config.maxOutputTokens;
+    return body;
+};
+
+// --- ADAPTERS ---
+
+// Each adapter exposes generate() -> full text, and stream() -> async iterable of text deltas.
+// stream() resolves only once the upstream call is accepted, so connection/quota errors
+// surface before anything is written to the client and can still be retried.
+// request.signal aborts the upstream call (the client went away).
+
+const geminiAdapter = {
+    name: 'gemini',
+    defaultModel: DEFAULT_MODELS.gemini,
+    generate: async ({ model, contents, config, apiKey, signal }) => {
+        const { GoogleGenAI } = await import("@google/genai");
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent({
+            model: model || DEFAULT_MODELS.gemini,
+            contents,
+            config: { ...config, abortSignal: signal }
+        });
+        return response.text;
+    },
+    stream: async ({ model, contents, config, apiKey, signal }) => {
+        const { GoogleGenAI } = await import("@google/genai");
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContentStream({
+            model: model || DEFAULT_MODELS.gemini,
+            contents,
+            config: { ...config, abortSignal: signal }
+        });
+        return (async function* () {
+            for await (const chunk of response) {
+                if (chunk.text) yield chunk.text;
+            }
+        })();
+    }
+};
+
+// Server-sent events from /chat/completions with stream: true.
+async function* readChatCompletionStream(body) {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of body) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let newline;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+            const line = buffer.slice(0, newline).trim();
+            buffer = buffer.slice(newline + 1);
+            if (!line.startsWith('data:')) continue;
+            const payload = line.slice(5).trim();
+            if (payload === '[DONE]') return;
+            try {
+                const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+                if (delta) yield delta;
+            } catch (e) { /* keep-alive or partial frame */ }
+        }
+    }
+}
+
+const createOpenAICompatibleAdapter = ({ name, defaultModel, defaultBaseUrl, supportsJsonSchema }) => {
+    const postChatCompletion = async ({ model, contents, config, apiKey, baseUrl, signal }, stream) => {
+        const root = (baseUrl || defaultBaseUrl || '').replace(/\/+$/, '');
+        if (!root) throw new ProviderError(`No base URL configured for the ${name} provider.`, 400);
+
+        const body = buildOpenAIRequest(
+            { model: model || defaultModel, contents, config },
+            { providerName: name, supportsJsonSchema }
+        );
+        if (stream) body.stream = true;
+
+        const headers = { 'Content-Type': 'application/json' };
+        if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+        let response;
+        try {
+            response = await fetch(`${root}/chat/completions`, { method: 'POST', headers, body: JSON.stringify(body), signal });
+        } catch (err) {
+            if (err.name === 'AbortError') throw err;
+            throw new ProviderError(`Could not reach the ${name} provider at ${root}: ${err.message}`, 502);
+        }
+
+        if (!response.ok) {
+            const text = await response.text();
+            let message = text.substring(0, 300);
+            try { message = JSON.parse(text).error?.message || message; } catch (e) { /* raw body */ }
+            throw new ProviderError(`${name} error (${response.status}): ${message}`, response.status);
+        }
+        return response;
+    };
+
+    return {
+        name,
+        defaultModel,
+        generate: async (request) => {
+            const response = await postChatCompletion(request, false);
+            const data = await response.json();
+            return data.choices?.[0]?.message?.content || '';
+        },
+        stream: async (request) => {
+            const response = await postChatCompletion(request, true);
+            return readChatCompletionStream(response.body);
+        }
+    };
+};
+
+const adapters = {
+    gemini: geminiAdapter,
+    groq: createOpenAICompatibleAdapter({
+        name: 'groq',
+        defaultModel: DEFAULT_MODELS.groq,
+        defaultBaseUrl: GROQ_BASE_URL,
+        supportsJsonSchema: false
+    }),
+    // Any OpenAI-compatible server: llama.cpp, Ollama, vLLM, LM Studio, OpenAI itself...
+    custom: createOpenAICompatibleAdapter({
+        name: 'custom',
+        defaultModel: DEFAULT_MODELS.custom,
+        supportsJsonSchema: true
+    }),
+    // Offline, deterministic responses for development and tests (see fakeProvider.js).
+    fake: fakeAdapter
+};
+
+// AI_PROVIDER=fake overrides whatever the browser asks for, so a dev server never reaches a real API.
+// In production a client can't pick "fake" itself: canned quizzes would still count as usage.
+const getProviderAdapter = (name) => {
+    if (process.env.AI_PROVIDER === 'fake') return adapters.fake;
+    const selected = name || process.env.AI_PROVIDER || 'gemini';
+    const adapter = selected === 'fake' && process.env.NODE_ENV === 'production' ? undefined : adapters[selected];
+    if (!adapter) throw new ProviderError(`Unknown AI provider "${name}".`, 400);
+    return adapter;
+};
+
+module.exports = {
+    ProviderError,
+    getProviderAdapter
+};
@@ -4,10 +4,18 @@ const express = require('express');
 const mongoose = require('mongoose');
 const cors = require('cors');
 const cookieParser = require('cookie-parser');
+const crypto = require('crypto');
+const { getProviderAdapter } = require('./_lib/providers');
+const { ExtractError, fetchPage, extractReadableText } = require('./_lib/extract');
+const { ProviderError } = require('./_lib/providerError');
+const { readKeysFromEnv, createKeyPool, classifyError, backoffDelay } = require('./_lib/keyPool');
 
 const app = express();
 
 const isProduction = process.env.NODE_ENV === 'production';
+// Fake AI provider without a database: activation, plan limits and the quiz cache are skipped
+// so the whole app runs locally with no keys and no network.
+const isLocalDemo = process.env.AI_PROVIDER === 'fake' && !process.env.MONGO_URI;
 
 // --- CONFIGURATION ---
 const allowedOrigins = [
@@ -69,6 +77,14 @@ const QuizCacheSchema = new mongoose.Schema({
   createdAt: { type: Date, default: Date.now }
 });
 
+const GuideCacheSchema = new mongoose.Schema({
+  hash: { type: String, required: true, unique: true, index: true },
+  title: { type: String, default: 'Untitled Guide' },
+  content: { type: String, required: true },
+  topics: { type: [String], default: [] },
+  createdAt: { type: Date, default: Date.now }
+});
+
 const AppConfigSchema = new mongoose.Schema({
   planLimits: {
     Free: { type: Number, default: 3 },
@@ -86,49 +102,151 @@ const ActivationCodeSchema = new mongoose.Schema({
   usedByDeviceId: { type: String, default: null },
   dailyUsage: { type: Number, default: 0 },
   lastUsageDate: { type: Date, default: Date.now },
+  // Recent charged generations, each with the follow-up requests (extra sections, repairs,
+  // top-ups) it may still make without being charged again.
+  chargedGenerations: {
+    type: [{ id: String, task: String, chargedAt: Date, sections: Number, repairs: Number, topUps: Number }],
+    default: []
+  },
   generatedBy: { type: String, default: 'Admin' },
   createdAt: { type: Date, default: Date.now }
 });
 
 const QuizCache = mongoose.models.QuizCache || mongoose.model('QuizCache', QuizCacheSchema);
+const GuideCache = mongoose.models.GuideCache || mongoose.model('GuideCache', GuideCacheSchema);
 const ActivationCode = mongoose.models.ActivationCode || mongoose.model('ActivationCode', ActivationCodeSchema);
 const AppConfig = mongoose.models.AppConfig || mongoose.model('AppConfig', AppConfigSchema);
 
-// --- API KEY ROTATION ---
-const getGeminiKeys = () => {
-    const keys = [];
-    if (process.env.GEMINI_KEY_1) keys.push(process.env.GEMINI_KEY_1);
-    if (process.env.GEMINI_KEY_2) keys.push(process.env.GEMINI_KEY_2);
-    if (process.env.GEMINI_KEY_3) keys.push(process.env.GEMINI_KEY_3);
-    if (process.env.API_KEY) keys.push(process.env.API_KEY);
-    return [...new Set(keys)];
+// --- API KEY POOL ---
+const keyPool = createKeyPool(readKeysFromEnv());
+const MAX_POOL_WAIT_MS = 5000;
+
+// Groq / custom providers: a team-wide key from env, or the user's own key sent from Settings.
+// Gemini keys come from the pool inside executeWithRetry. The team key never goes to an
+// endpoint the browser picked (serverKeyAllowed is false then).
+const getProviderKey = (providerName, clientKey, serverKeyAllowed = true) => {
+    if (providerName === 'groq') return process.env.GROQ_API_KEY || clientKey;
+    if (providerName === 'fake' || providerName === 'gemini') return undefined;
+    return (serverKeyAllowed && process.env.CUSTOM_AI_API_KEY) || clientKey;
 };
 
-const apiKeys = getGeminiKeys();
+const normalizeBaseUrl = (url) => String(url || '').trim().replace(/\/+$/, '');
+
+// Custom provider endpoint: CUSTOM_AI_BASE_URL when set. Otherwise a URL from Settings is only
+// used when it is listed in CUSTOM_AI_ALLOWED_BASE_URLS, so users can't point the server at
+// internal hosts.
+const resolveCustomEndpoint = (clientBaseUrl) => {
+    if (process.env.CUSTOM_AI_BASE_URL) return { baseUrl: process.env.CUSTOM_AI_BASE_URL, fromClient: false };
+    const requested = normalizeBaseUrl(clientBaseUrl);
+    const allowed = (process.env.CUSTOM_AI_ALLOWED_BASE_URLS || '').split(',').map(normalizeBaseUrl).filter(Boolean);
+    if (!requested || !allowed.includes(requested)) {
+        throw new ProviderError("This server does not allow that custom AI endpoint. Ask the admin to add it to CUSTOM_AI_ALLOWED_BASE_URLS.", 400);
+    }
+    return { baseUrl: requested, fromClient: true };
+};
 
-const getRandomKey = () => {
-    if (apiKeys.length === 0 && process.env.API_KEY) return process.env.API_KEY;
-    if (apiKeys.length === 0) throw new Error("No Gemini API Keys configured.");
-    return apiKeys[Math.floor(Math.random() * apiKeys.length)];
+const abortError = () => {
+    const error = new Error('Request aborted');
+    error.name = 'AbortError';
+    return error;
 };
 
-const executeWithRetry = async (operation, attempt = 1) => {
-    const maxRetries = 2;
-    try {
-        return await operation();
-    } catch (error) {
-        const isRateLimit = error.message?.includes('429') || error.status === 429;
-        if (isRateLimit && attempt <= maxRetries) {
-            return executeWithRetry(operation, attempt + 1);
+// The abort listener is removed once the delay is over, so long-lived signals don't collect them.
+const sleep = (ms, signal) => new Promise((resolve, reject) => {
+    if (signal && signal.aborted) return reject(abortError());
+    const onAbort = () => { clearTimeout(timer); reject(abortError()); };
+    const timer = setTimeout(() => {
+        if (signal) signal.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    if (signal) signal.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs operation(apiKey), retrying quota / server errors with exponential backoff and jitter.
+// Gemini rotates through the key pool, skipping keys that already failed this request and
+// keys cooling down after quota or auth errors; other providers retry on their single key.
+const executeWithRetry = async (providerName, clientKey, operation, signal, serverKeyAllowed = true) => {
+    const pooled = providerName === 'gemini';
+    if (pooled && keyPool.size === 0) throw new Error("No Gemini API Keys configured.");
+    const maxAttempts = pooled ? Math.min(Math.max(3, keyPool.size + 1), 6) : 3;
+    const tried = [];
+    let lastError = null;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        let apiKey = getProviderKey(providerName, clientKey, serverKeyAllowed);
+        if (pooled) {
+            apiKey = keyPool.acquire(tried);
+            if (!apiKey) {
+                // Every key is cooling down: wait briefly for the first one, otherwise give up.
+                const wait = keyPool.nextAvailableIn();
+                if (wait > MAX_POOL_WAIT_MS) break;
+                await sleep(wait, signal);
+                apiKey = keyPool.acquire(tried);
+                if (!apiKey) break;
+            }
+        }
+
+        try {
+            const result = await operation(apiKey);
+            if (pooled) keyPool.reportSuccess(apiKey);
+            return result;
+        } catch (error) {
+            if (error.name === 'AbortError') throw error;
+            lastError = error;
+            const kind = pooled ? keyPool.reportFailure(apiKey, error) : classifyError(error);
+            // Bad requests will fail on every key; a rejected user key will not fix itself.
+            if (kind === 'other' || (kind === 'auth' && !pooled)) throw error;
+            if (pooled) tried.push(apiKey);
+            if (attempt < maxAttempts - 1) await sleep(backoffDelay(attempt), signal);
         }
-        throw error;
     }
+
+    if (lastError && classifyError(lastError) !== 'quota') throw lastError;
+    throw new ProviderError("The AI service is busy right now (429). Please wait a minute and try again.", 429);
 };
 
 // --- MIDDLEWARE ---
+
+// A generation is one quiz / guide / grading the user asked for. Its first request is charged and
+// gets a server-issued id, kept on the user's activation record. Later requests send the id back
+// with their step and are free while the generation's allowance for that step lasts: one request
+// per extra section, and per section one repair and (quizzes only) the client's top-up rounds.
+const GENERATION_WINDOW_MS = 60 * 60 * 1000;
+const MAX_GENERATION_SECTIONS = 12;  // MAX_SECTIONS in utils/sourceSections.ts
+const MAX_TOP_UPS_PER_SECTION = 2;   // MAX_TOP_UP_ROUNDS in services/geminiService.ts
+const REPAIRABLE_TASKS = ['quiz', 'grading', 'guide', 'notes'];
+const MAX_TRACKED_GENERATIONS = 20;
+const FOLLOW_UP_ALLOWANCE = { section: 'sections', repair: 'repairs', top_up: 'topUps' };
+
+// The generation a follow-up request belongs to, if it still has an allowance for that step.
+const findFollowUp = (user, { generationId, task, step }) => {
+    const allowance = FOLLOW_UP_ALLOWANCE[step];
+    if (!user || !allowance || typeof generationId !== 'string' || !user.chargedGenerations) return null;
+    const entry = user.chargedGenerations.find(g => g.id === generationId);
+    if (!entry || entry.task !== task || Date.now() - new Date(entry.chargedAt).getTime() > GENERATION_WINDOW_MS) return null;
+    return entry[allowance] > 0 ? { entry, allowance } : null;
+};
+
+const newGenerationEntry = ({ task, sections }) => {
+    // Only quizzes are generated section by section.
+    const count = task === 'quiz' ? Math.min(Math.max(Math.floor(Number(sections)) || 1, 1), MAX_GENERATION_SECTIONS) : 1;
+    return {
+        id: crypto.randomUUID(),
+        task: String(task || ''),
+        chargedAt: new Date(),
+        sections: count - 1,
+        repairs: REPAIRABLE_TASKS.includes(task) ? count : 0,
+        topUps: task === 'quiz' ? count * MAX_TOP_UPS_PER_SECTION : 0
+    };
+};
+
 const checkPlanLimits = async (req, res, next) => {
     // Ensure DB is connected for middleware logic
     await connectDB();
+    if (isLocalDemo) {
+        req.user = null;
+        return next();
+    }
     
     const code = req.cookies.session_code || req.body.activationCode;
     
@@ -153,7 +271,9 @@ const checkPlanLimits = async (req, res, next) => {
         const limits = config.planLimits || { Free: 3, Pro: 20, Gold: 100, Unlimited: 99999 };
         const limit = limits[user.planType] || 3;
 
-        if (user.dailyUsage >= limit) {
+        // Follow-ups of a generation that was already charged may finish past the limit.
+        req.followUp = findFollowUp(user, req.body);
+        if (user.dailyUsage >= limit && !req.followUp) {
             return res.status(403).json({ error: "Daily Limit Reached." });
         }
 
@@ -165,6 +285,26 @@ const checkPlanLimits = async (req, res, next) => {
     }
 };
 
+// An activated session, without the daily limit: for writes that follow a generation the
+// user was already charged for.
+const requireActivation = async (req, res, next) => {
+    await connectDB();
+    if (isLocalDemo) {
+        req.user = null;
+        return next();
+    }
+    const code = req.cookies.session_code || req.body.activationCode;
+    if (!code) return res.status(401).json({ error: "Session expired." });
+    try {
+        const user = await ActivationCode.findOne({ code });
+        if (!user) return res.status(403).json({ error: "Invalid Session" });
+        req.user = user;
+        next();
+    } catch (err) {
+        res.status(500).json({ error: "Auth Check Failed" });
+    }
+};
+
 const requireAdmin = async (req, res, next) => {
     const adminToken = req.cookies.admin_session;
     if (adminToken === 'authenticated') {
@@ -273,6 +413,11 @@ app.get('/api/admin/config', async (req, res) => {
     } catch (err) { res.status(500).json({ error: err.message }); }
 });
 
+// Per-key health of the Gemini key pool (this server instance only; keys are masked).
+app.get('/api/admin/keys', (req, res) => {
+    res.json({ keys: keyPool.snapshot(), checkedAt: Date.now() });
+});
+
 app.post('/api/admin/config', async (req, res) => {
     await connectDB();
     try {
@@ -292,6 +437,7 @@ app.post('/api/activate', async (req, res) => {
     try {
         const { code, deviceId } = req.body;
         if (!code) return res.status(400).json({ error: 'Code required' });
+        if (isLocalDemo) return res.json({ valid: true, plan: 'Unlimited' });
 
         const user = await ActivationCode.findOne({ code });
         if (!user) return res.status(401).json({ valid: false, message: 'Invalid Code' });
@@ -318,39 +464,109 @@ app.post('/api/activate', async (req, res) => {
     }
 });
 
+// Counts one generation against the user's daily plan, or one follow-up against its generation's
+// allowance. Returns what is left of the plan and the generation's id for the follow-ups.
+const recordUsage = async (req) => {
+    const user = req.user;
+    if (!user) return { remaining: null, generationId: null };
+    let generationId;
+    if (req.followUp) {
+        req.followUp.entry[req.followUp.allowance] -= 1;
+        generationId = req.followUp.entry.id;
+    } else {
+        const entry = newGenerationEntry(req.body);
+        user.dailyUsage += 1;
+        user.lastUsageDate = new Date();
+        user.chargedGenerations = [...user.chargedGenerations, entry].slice(-MAX_TRACKED_GENERATIONS);
+        generationId = entry.id;
+    }
+    await user.save();
+
+    const appConfig = await AppConfig.findOne();
+    const limits = appConfig ? appConfig.planLimits : { Free: 3, Pro: 20, Gold: 100, Unlimited: 99999 };
+    const currentLimit = limits[user.planType];
+    return { remaining: Math.max(0, currentLimit - user.dailyUsage), generationId };
+};
+
+// With { stream: true } the response is NDJSON: { delta } lines, then { done, remaining } or { error }.
 app.post('/api/generate', checkPlanLimits, async (req, res) => {
     await connectDB();
     try {
-        const { model, contents, config } = req.body;
-        
-        // Dynamically import GoogleGenAI
-        const { GoogleGenAI } = await import("@google/genai");
-        
-        const result = await executeWithRetry(async () => {
-            const currentKey = getRandomKey();
-            const ai = new GoogleGenAI({ apiKey: currentKey });
-            
-            const targetModel = model || 'gemini-2.5-flash';
-            const response = await ai.models.generateContent({
-                model: targetModel,
-                contents: contents,
-                config: config
-            });
-            return response.text;
+        const { model, contents, config, provider, providerOptions = {}, stream } = req.body;
+        const adapter = getProviderAdapter(provider);
+
+        // A closed connection before we finished means the user cancelled: stop the upstream call.
+        const upstream = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) upstream.abort();
         });
 
-        req.user.dailyUsage += 1;
-        req.user.lastUsageDate = new Date();
-        await req.user.save();
+        const endpoint = adapter.name === 'custom' ? resolveCustomEndpoint(providerOptions.baseUrl) : { baseUrl: undefined, fromClient: false };
+        const request = {
+            model: model || adapter.defaultModel,
+            contents,
+            config,
+            signal: upstream.signal,
+            baseUrl: endpoint.baseUrl,
+            task: req.body.task
+        };
+
+        if (stream) {
+            const deltas = await executeWithRetry(adapter.name, providerOptions.apiKey, (apiKey) => {
+                return adapter.stream({ ...request, apiKey });
+            }, upstream.signal, !endpoint.fromClient);
+
+            res.status(200);
+            res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+            res.setHeader('Cache-Control', 'no-cache');
+            res.setHeader('X-Accel-Buffering', 'no');
+            res.flushHeaders();
+
+            for await (const delta of deltas) {
+                if (upstream.signal.aborted) break;
+                res.write(JSON.stringify({ delta }) + '\n');
+            }
+
+            // Cancelled requests are not charged against the daily plan.
+            if (upstream.signal.aborted) return res.end();
+            const { remaining, generationId } = await recordUsage(req);
+            return res.end(JSON.stringify({ done: true, remaining, generationId }) + '\n');
+        }
         
-        const appConfig = await AppConfig.findOne();
-        const limits = appConfig ? appConfig.planLimits : { Free: 3, Pro: 20, Gold: 100, Unlimited: 99999 };
-        const currentLimit = limits[req.user.planType];
+        const result = await executeWithRetry(adapter.name, providerOptions.apiKey, (apiKey) => {
+            return adapter.generate({ ...request, apiKey });
+        }, upstream.signal, !endpoint.fromClient);
+        if (upstream.signal.aborted) return res.end();
 
-        res.json({ text: result, remaining: Math.max(0, currentLimit - req.user.dailyUsage) }); 
+        const { remaining, generationId } = await recordUsage(req);
+        res.json({ text: result, remaining, generationId });
 
     } catch (err) {
+        if (err.name === 'AbortError' || res.destroyed) return res.end();
         console.error("Generation Error:", err);
+        // Mid-stream failures can only be reported in-band.
+        if (res.headersSent) return res.end(JSON.stringify({ error: err.message || "Server Error" }) + '\n');
+        const status = err.status >= 400 && err.status < 500 ? err.status : 500;
+        res.status(status).json({ error: err.message || "Server Error" });
+    }
+});
+
+// URL mode: fetch a page and return its readable text (title, headings, body).
+// Outside production an inline { html } fixture can be posted instead of fetching. Needs an
+// activated session, but not plan quota: the daily limit is checked by /api/generate.
+app.post('/api/extract', requireActivation, async (req, res) => {
+    try {
+        const { url, html } = req.body;
+        if (html && !isProduction) {
+            return res.json(extractReadableText(html, url || ''));
+        }
+        if (!url) return res.status(400).json({ error: "Missing url", code: 'INVALID_URL' });
+
+        const page = await fetchPage(url);
+        res.json(extractReadableText(page.html, page.finalUrl));
+    } catch (err) {
+        if (err instanceof ExtractError) return res.status(err.status).json({ error: err.message, code: err.code });
+        console.error("Extract Error:", err);
         res.status(500).json({ error: err.message || "Server Error" });
     }
 });
@@ -359,6 +575,7 @@ app.post('/api/quiz/check', async (req, res) => {
   await connectDB();
   try {
     const { hash } = req.body;
+    if (isLocalDemo) return res.json({ found: false });
     const cachedEntry = await QuizCache.findOne({ hash });
     if (cachedEntry) return res.json({ found: true, quiz: cachedEntry.quiz });
     return res.json({ found: false });
@@ -371,6 +588,7 @@ app.post('/api/quiz/save', async (req, res) => {
   await connectDB();
   try {
     const { hash, quiz, title } = req.body;
+    if (isLocalDemo) return res.json({ success: true });
     await QuizCache.findOneAndUpdate(
       { hash },
       { hash, quiz, title: title || 'Untitled Quiz', createdAt: new Date() },
@@ -382,4 +600,37 @@ app.post('/api/quiz/save', async (req, res) => {
   }
 });
 
+app.post('/api/guide/check', async (req, res) => {
+  await connectDB();
+  try {
+    const { hash } = req.body;
+    if (isLocalDemo) return res.json({ found: false });
+    const cachedEntry = await GuideCache.findOne({ hash });
+    if (cachedEntry) {
+      return res.json({ found: true, guide: { title: cachedEntry.title, content: cachedEntry.content, topics: cachedEntry.topics } });
+    }
+    return res.json({ found: false });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// First write wins: an entry other users are already served is never replaced.
+app.post('/api/guide/save', requireActivation, async (req, res) => {
+  await connectDB();
+  try {
+    const { hash, guide } = req.body;
+    if (!hash || !guide || typeof guide.content !== 'string') return res.status(400).json({ error: "Missing guide" });
+    if (isLocalDemo) return res.json({ success: true });
+    await GuideCache.updateOne(
+      { hash },
+      { $setOnInsert: { hash, title: guide.title || 'Untitled Guide', content: guide.content, topics: Array.isArray(guide.topics) ? guide.topics : [], createdAt: new Date() } },
+      { upsert: true }
+    );
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
 module.exports = app;
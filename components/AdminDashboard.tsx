@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
-import { Shield, Lock, Trash2, LogOut, Database, Calendar, FileText, WifiOff, AlertTriangle, Key, Plus, CreditCard, BarChart, Settings, Save, CheckCircle2, Loader2 } from 'lucide-react';
-import { getAdminQuizzes, deleteAdminQuiz, getAdminCodes, generateAdminCodes, deleteAdminCode, getAdminConfig, updateAdminConfig, loginAdmin } from '../services/geminiService';
+import { Shield, Lock, Trash2, LogOut, Database, Calendar, FileText, WifiOff, AlertTriangle, Key, Plus, CreditCard, BarChart, Settings, Save, CheckCircle2, Loader2, Activity, RefreshCw } from 'lucide-react';
+import { getAdminQuizzes, deleteAdminQuiz, getAdminCodes, generateAdminCodes, deleteAdminCode, getAdminConfig, updateAdminConfig, loginAdmin, getAdminKeyHealth, AdminKeyHealth } from '../services/geminiService';
 
 interface AdminDashboardProps {
   onExit: () => void;
@@ -10,7 +10,7 @@ interface AdminDashboardProps {
 export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onExit }) => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [password, setPassword] = useState('');
-  const [view, setView] = useState<'quizzes' | 'codes' | 'settings'>('codes');
+  const [view, setView] = useState<'quizzes' | 'codes' | 'keys' | 'settings'>('codes');
   
   // Generation State
   const [genCount, setGenCount] = useState(5);
@@ -23,6 +23,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onExit }) => {
   // Data State
   const [quizzes, setQuizzes] = useState<any[]>([]);
   const [codes, setCodes] = useState<any[]>([]);
+  const [keyHealth, setKeyHealth] = useState<AdminKeyHealth[]>([]);
   
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
@@ -42,6 +43,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onExit }) => {
       await fetchCodes();
       await fetchQuizzes();
       await fetchConfig();
+      await fetchKeyHealth();
     } else {
         if (result.error && (result.error.includes('Failed to fetch') || result.error.includes('Server Error'))) {
             setError('Connection failed. Please ensure the backend is active.');
@@ -70,6 +72,16 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onExit }) => {
       if (data) setConfig(data);
   };
 
+  const fetchKeyHealth = async () => {
+      const data = await getAdminKeyHealth();
+      if (data) setKeyHealth(data);
+  };
+
+  const formatRemaining = (ms: number) => {
+      const seconds = Math.ceil(ms / 1000);
+      return seconds >= 60 ? `${Math.ceil(seconds / 60)} min` : `${seconds}s`;
+  };
+
   const handleSaveConfig = async () => {
       setLoading(true);
       await updateAdminConfig(config.planLimits);
@@ -181,6 +193,12 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onExit }) => {
             >
                 Cached Quizzes ({quizzes.length})
             </button>
+            <button 
+                onClick={() => { setView('keys'); fetchKeyHealth(); }} 
+                className={`flex-1 p-4 rounded-2xl font-bold text-lg transition-all flex items-center justify-center gap-2 ${view === 'keys' ? 'bg-primary-600 text-white shadow-lg' : 'bg-white text-slate-600'}`}
+            >
+                <Key size={20} /> API Keys ({keyHealth.filter(k => k.status === 'healthy').length}/{keyHealth.length})
+            </button>
             <button 
                 onClick={() => setView('settings')} 
                 className={`flex-1 p-4 rounded-2xl font-bold text-lg transition-all flex items-center justify-center gap-2 ${view === 'settings' ? 'bg-primary-600 text-white shadow-lg' : 'bg-white text-slate-600'}`}
@@ -347,6 +365,64 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onExit }) => {
             </div>
         )}
 
+        {/* API KEYS VIEW */}
+        {view === 'keys' && (
+            <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+                 <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+                    <div>
+                        <h2 className="text-lg font-bold flex items-center gap-2"><Activity size={20} /> Gemini Key Pool</h2>
+                        <p className="text-xs text-slate-400 mt-1">Health as seen by the server instance that answered. Counters reset when it restarts.</p>
+                    </div>
+                    <button onClick={fetchKeyHealth} className="text-primary-600 hover:underline flex items-center gap-1"><RefreshCw size={14} /> Refresh</button>
+                 </div>
+                 {keyHealth.length === 0 ? (
+                     <div className="p-8 text-center text-slate-500 flex flex-col items-center gap-2">
+                         <AlertTriangle className="text-amber-500" />
+                         No Gemini keys are configured on the server.
+                     </div>
+                 ) : (
+                 <div className="overflow-x-auto">
+                     <table className="w-full text-left">
+                         <thead className="bg-slate-50 text-slate-500 text-xs uppercase">
+                             <tr>
+                                 <th className="px-6 py-4">Key</th>
+                                 <th className="px-6 py-4">Status</th>
+                                 <th className="px-6 py-4">OK / Failed</th>
+                                 <th className="px-6 py-4">Last Used</th>
+                                 <th className="px-6 py-4">Last Error</th>
+                             </tr>
+                         </thead>
+                         <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                             {keyHealth.map(k => (
+                                 <tr key={k.label}>
+                                     <td className="px-6 py-4">
+                                         <div className="font-bold">{k.label}</div>
+                                         <div className="font-mono text-xs text-slate-400">{k.key}</div>
+                                     </td>
+                                     <td className="px-6 py-4">
+                                         <span className={`px-3 py-1 rounded-full text-xs font-bold ${k.status === 'healthy' ? 'bg-green-100 text-green-600' : k.status === 'cooling' ? 'bg-amber-100 text-amber-600' : 'bg-red-100 text-red-600'}`}>
+                                             {k.status === 'healthy' ? 'Healthy' : k.status === 'cooling' ? `Cooling (${formatRemaining(k.cooldownRemainingMs)})` : `Disabled (${formatRemaining(k.cooldownRemainingMs)})`}
+                                         </span>
+                                     </td>
+                                     <td className="px-6 py-4 text-sm">
+                                         <span className="text-green-600 font-bold">{k.successes}</span>
+                                         {' / '}
+                                         <span className="text-red-500 font-bold">{k.failures}</span>
+                                         {k.consecutiveFailures > 0 && <span className="text-xs text-slate-400"> ({k.consecutiveFailures} in a row)</span>}
+                                     </td>
+                                     <td className="px-6 py-4 text-sm text-slate-500">{k.lastUsedAt ? new Date(k.lastUsedAt).toLocaleTimeString() : '—'}</td>
+                                     <td className="px-6 py-4 text-xs text-slate-500 max-w-xs truncate" title={k.lastError || ''}>
+                                         {k.lastError ? `${k.lastErrorKind ? `[${k.lastErrorKind}] ` : ''}${k.lastError}` : '—'}
+                                     </td>
+                                 </tr>
+                             ))}
+                         </tbody>
+                     </table>
+                 </div>
+                 )}
+            </div>
+        )}
+
         {/* QUIZZES VIEW */}
         {view === 'quizzes' && (
             <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
@@ -1,70 +1,245 @@
-
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2, Sparkles, Trash2 } from 'lucide-react';
-import { sendChatMessage } from '../services/geminiService';
-import { ChatMessage, AppLanguage } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Send, Bot, User, Loader2, Sparkles, Trash2, Paperclip, X, FileText, BookOpen, HelpCircle, Upload, Plus, Search, Pencil, Download, PanelLeft, Check, Square, Copy, RefreshCw } from 'lucide-react';
+import { sendChatMessage, compactChatHistory, isAbortError, ChatGrounding } from '../services/geminiService';
+import { ChatMessage, AppLanguage, ChatContext, ChatThread, Quiz, StudyGuide, FileData } from '../types';
+import { resolveModel } from '../services/aiProviders';
 import { translations } from '../utils/translations';
+import { quizPassages, studyGuidePassages, filePassages, SourcePassage } from '../utils/retrieval';
 
 interface ChatBotProps {
   language: AppLanguage;
+  quizzes: Quiz[];
+  studyGuides: StudyGuide[];
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  onSelectThread: (id: string | null) => void;
+  onCreateThread: (thread: ChatThread) => void;
+  onUpdateThread: (id: string, update: (thread: ChatThread) => ChatThread) => void;
+  onDeleteThread: (id: string) => void;
 }
 
+const ATTACH_MENU_QUIZZES = 8;
+const THREAD_TITLE_CHARS = 40;
+
 // Safe ID Generator
 const generateId = () => {
   return Date.now().toString(36) + Math.random().toString(36).substring(2);
 };
 
-export const ChatBot: React.FC<ChatBotProps> = ({ language }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+const titleFromMessage = (text: string) => {
+  const line = text.trim().split('\n')[0];
+  return line.length > THREAD_TITLE_CHARS ? `${line.substring(0, THREAD_TITLE_CHARS).trim()}…` : line;
+};
+
+// Model replies are Markdown (lists, code, GFM tables); wide tables scroll inside the bubble.
+const MarkdownMessage: React.FC<{ text: string }> = ({ text }) => (
+  <div className="prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-headings:my-2 prose-ul:my-2 prose-ol:my-2 prose-pre:my-2 prose-table:my-2 prose-th:px-2 prose-td:px-2 [&_table]:block [&_table]:overflow-x-auto">
+    <ReactMarkdown remarkPlugins={[remarkGfm]}>{text}</ReactMarkdown>
+  </div>
+);
+
+export const ChatBot: React.FC<ChatBotProps> = ({ language, quizzes, studyGuides, threads, activeThreadId, onSelectThread, onCreateThread, onUpdateThread, onDeleteThread }) => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [showAttachMenu, setShowAttachMenu] = useState(false);
+  const [showSidebar, setShowSidebar] = useState(false);
+  const [search, setSearch] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [streaming, setStreaming] = useState<{ threadId: string; text: string } | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const t = translations[language];
 
+  const activeThread = threads.find(thread => thread.id === activeThreadId) || null;
+  const messages = activeThread?.messages || [];
+  const context = activeThread?.context || null;
+
+  const visibleThreads = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return [...threads]
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .filter(thread => !query
+        || thread.title.toLowerCase().includes(query)
+        || thread.messages.some(m => m.text.toLowerCase().includes(query)));
+  }, [threads, search]);
+
+  const grounding = useMemo<ChatGrounding | null>(() => {
+    if (!context) return null;
+    let passages: SourcePassage[] = [];
+    if (context.kind === 'quiz') {
+      const quiz = quizzes.find(q => q.id === context.quizId);
+      if (quiz) passages = quizPassages(quiz);
+    } else if (context.kind === 'study_guide') {
+      const guide = studyGuides.find(g => g.id === context.guideId);
+      if (guide) passages = studyGuidePassages(guide);
+    } else if (context.files) {
+      passages = filePassages(context.files);
+    }
+    return { title: context.title, passages, focus: context.focus };
+  }, [context, quizzes, studyGuides]);
+
+  // "Ask about this question" opens a fresh thread with a focus: start it with a ready prompt.
+  useEffect(() => {
+    if (activeThread?.context?.focus && activeThread.messages.length === 0) setInput(t.askAboutQuestionPrompt);
+  }, [activeThreadId]);
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streaming?.text]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
+  // Leaving the chat stops the request; whatever was already streamed is kept.
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-    const userMsg: ChatMessage = {
-      id: generateId(),
-      role: 'user',
-      text: input,
-      timestamp: Date.now()
-    };
+  const newThread = (title: string, threadContext: ChatContext | null = null): ChatThread => ({
+    id: generateId(), title, messages: [], context: threadContext, createdAt: Date.now(), updatedAt: Date.now()
+  });
 
-    setMessages(prev => [...prev, userMsg]);
+  const handleNewChat = () => {
+    onSelectThread(null);
     setInput('');
+    setShowSidebar(false);
+  };
+
+  // Streams the answer to `text` into `thread`, given the messages that came before it.
+  const requestReply = async (thread: ChatThread, history: ChatMessage[], text: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
+    setStreaming({ threadId: thread.id, text: '' });
+    let streamed = '';
+
+    const appendReply = (reply: ChatMessage) =>
+      onUpdateThread(thread.id, current => ({ ...current, messages: [...current.messages, reply], updatedAt: Date.now() }));
 
     try {
-      const responseText = await sendChatMessage(messages, input);
-      const botMsg: ChatMessage = {
+      let summary = thread.summary;
+      let summarizedCount = thread.summarizedCount || 0;
+      try {
+        ({ summary, summarizedCount } = await compactChatHistory(history, summary, summarizedCount, controller.signal));
+        if (summarizedCount !== (thread.summarizedCount || 0)) {
+          onUpdateThread(thread.id, current => ({ ...current, summary, summarizedCount }));
+        }
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        console.warn("Chat summarization failed, sending the full history", e);
+      }
+
+      const reply = await sendChatMessage(history.slice(summarizedCount), text, {
+        grounding,
+        summary,
+        onDelta: delta => {
+          streamed += delta;
+          setStreaming({ threadId: thread.id, text: streamed });
+        }
+      }, controller.signal);
+      appendReply({
         id: generateId(),
         role: 'model',
-        text: responseText,
-        timestamp: Date.now()
-      };
-      setMessages(prev => [...prev, botMsg]);
+        text: reply.text,
+        timestamp: Date.now(),
+        references: reply.references.length > 0 ? reply.references : undefined
+      });
     } catch (error) {
-      const errorMsg: ChatMessage = {
+      if (isAbortError(error)) {
+        if (streamed.trim()) appendReply({ id: generateId(), role: 'model', text: streamed, timestamp: Date.now() });
+        return;
+      }
+      appendReply({
         id: generateId(),
         role: 'model',
         text: language === 'ar' ? "عذراً، حدث خطأ في الاتصال بالذكاء الاصطناعي. يرجى المحاولة مرة أخرى." : "Sorry, an error occurred connecting to AI. Please try again.",
         timestamp: Date.now()
-      };
-      setMessages(prev => [...prev, errorMsg]);
+      });
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setStreaming(null);
       setIsLoading(false);
     }
   };
 
+  const handleSend = () => {
+    if (!input.trim() || isLoading) return;
+    const text = input;
+
+    const userMsg: ChatMessage = {
+      id: generateId(),
+      role: 'user',
+      text,
+      timestamp: Date.now()
+    };
+
+    // Work from a local copy: the thread prop only catches up on the next render.
+    const thread = activeThread || newThread(titleFromMessage(text));
+    if (activeThread) {
+      onUpdateThread(thread.id, current => ({ ...current, messages: [...current.messages, userMsg], updatedAt: Date.now() }));
+    } else {
+      onCreateThread({ ...thread, messages: [userMsg] });
+    }
+    setInput('');
+    requestReply(thread, thread.messages, text);
+  };
+
+  const handleStop = () => abortRef.current?.abort();
+
+  // Drops the last answer and asks again with the same question and history.
+  const handleRegenerate = () => {
+    if (!activeThread || isLoading) return;
+    const lastUserIndex = activeThread.messages.map(m => m.role).lastIndexOf('user');
+    if (lastUserIndex === -1) return;
+    const history = activeThread.messages.slice(0, lastUserIndex);
+    onUpdateThread(activeThread.id, current => ({ ...current, messages: current.messages.slice(0, lastUserIndex + 1), updatedAt: Date.now() }));
+    requestReply(activeThread, history, activeThread.messages[lastUserIndex].text);
+  };
+
+  const handleCopy = (msg: ChatMessage) => {
+    navigator.clipboard?.writeText(msg.text).then(() => {
+      setCopiedId(msg.id);
+      setTimeout(() => setCopiedId(current => current === msg.id ? null : current), 2000);
+    }).catch(e => console.warn("Copy failed", e));
+  };
+
+  const setContext = (next: ChatContext | null) => {
+    if (activeThread) {
+      onUpdateThread(activeThread.id, current => ({ ...current, context: next, updatedAt: Date.now() }));
+    } else if (next) {
+      onCreateThread(newThread(next.title, next));
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList: File[] = e.target.files ? Array.from(e.target.files) : [];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (fileList.length === 0) return;
+    Promise.all(fileList.map(file => new Promise<FileData | null>(resolve => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        const base64String = reader.result as string;
+        resolve(base64String ? { id: generateId(), name: file.name, mimeType: file.type, data: base64String.split(',')[1] } : null);
+      };
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(file);
+    }))).then(results => {
+      const files = results.filter((f): f is FileData => !!f);
+      if (files.length === 0) return;
+      const title = files.length > 1 ? `${files[0].name} + ${files.length - 1}` : files[0].name;
+      setContext({ kind: 'files', title, files });
+    });
+    setShowAttachMenu(false);
+  };
+
+  const attach = (next: ChatContext) => {
+    setContext(next);
+    setShowAttachMenu(false);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -72,31 +247,191 @@ export const ChatBot: React.FC<ChatBotProps> = ({ language }) => {
     }
   };
 
+  // --- Thread management ---
+
+  const startRename = (thread: ChatThread) => {
+    setRenamingId(thread.id);
+    setRenameValue(thread.title);
+  };
+
+  const commitRename = () => {
+    const title = renameValue.trim();
+    if (renamingId && title) onUpdateThread(renamingId, current => ({ ...current, title }));
+    setRenamingId(null);
+  };
+
+  const handleDelete = (thread: ChatThread) => {
+    if (confirm(t.confirmDeleteChat)) onDeleteThread(thread.id);
+  };
+
+  const exportThread = (thread: ChatThread) => {
+    const lines = [`# ${thread.title}`, '', `_${new Date(thread.createdAt).toLocaleString()}_`];
+    if (thread.context) lines.push('', `> ${t.groundedIn}: ${thread.context.title}`);
+    thread.messages.forEach(msg => {
+      lines.push('', `### ${msg.role === 'user' ? t.chatYou : t.chatAssistant}`, '', msg.text);
+      if (msg.references) lines.push('', `${t.chatSources}: ${msg.references.map(ref => `[${ref.id}] ${ref.label}`).join(', ')}`);
+    });
+
+    const blob = new Blob([lines.join('\n') + '\n'], { type: 'text/markdown;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', `${thread.title.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'chat'}.md`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
   return (
-    <div className="max-w-4xl mx-auto h-[calc(100dvh-120px)] md:h-[calc(100vh-140px)] flex flex-col bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-slate-200 dark:border-slate-700 overflow-hidden animate-in fade-in slide-in-from-bottom-4 transition-colors">
+    <div className="max-w-6xl mx-auto h-[calc(100dvh-120px)] md:h-[calc(100vh-140px)] flex bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-slate-200 dark:border-slate-700 overflow-hidden animate-in fade-in slide-in-from-bottom-4 transition-colors relative">
+      {/* Thread Sidebar */}
+      <aside className={`${showSidebar ? 'flex' : 'hidden'} md:flex absolute md:static inset-y-0 start-0 z-30 w-72 md:w-64 flex-col flex-shrink-0 bg-slate-50 dark:bg-slate-900 border-e border-slate-200 dark:border-slate-700`}>
+        <div className="p-3 space-y-2 border-b border-slate-200 dark:border-slate-700">
+          <button onClick={handleNewChat} className="w-full flex items-center justify-center gap-2 bg-primary-600 hover:bg-primary-700 text-white text-sm font-bold py-2 rounded-lg transition-colors">
+            <Plus size={16} /> {t.newChat}
+          </button>
+          <div className="relative">
+            <Search size={14} className="absolute top-1/2 -translate-y-1/2 start-3 text-slate-400" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t.searchChats}
+              className="w-full ps-8 pe-3 py-2 text-sm bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:text-white placeholder:text-slate-400 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+        <div className="flex-grow overflow-y-auto p-2 space-y-1">
+          {visibleThreads.length === 0 && (
+            <p className="text-center text-xs text-slate-400 py-6">{t.noChats}</p>
+          )}
+          {visibleThreads.map(thread => (
+            <div
+              key={thread.id}
+              onClick={() => { if (renamingId !== thread.id) { onSelectThread(thread.id); setShowSidebar(false); } }}
+              className={`group flex items-center gap-1 px-3 py-2 rounded-lg cursor-pointer text-sm transition-colors
+                ${thread.id === activeThreadId
+                  ? 'bg-primary-100 dark:bg-primary-900/40 text-primary-800 dark:text-primary-200'
+                  : 'text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+            >
+              {renamingId === thread.id ? (
+                <>
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setRenamingId(null); }}
+                    onBlur={commitRename}
+                    className="flex-grow min-w-0 px-2 py-1 text-sm bg-white dark:bg-slate-800 border border-primary-300 dark:border-primary-700 rounded text-slate-900 dark:text-white"
+                  />
+                  <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} className="p-1 text-primary-600"><Check size={14} /></button>
+                </>
+              ) : (
+                <>
+                  <div className="flex-grow min-w-0">
+                    <p className="truncate font-medium">{thread.title}</p>
+                    <p className="text-[10px] text-slate-400">{new Date(thread.updatedAt).toLocaleDateString(language === 'ar' ? 'ar-EG' : 'en-US')}</p>
+                  </div>
+                  <div className="flex md:hidden md:group-hover:flex items-center flex-shrink-0">
+                    <button onClick={(e) => { e.stopPropagation(); startRename(thread); }} className="p-1 text-slate-400 hover:text-primary-600 rounded" title={t.renameChat}><Pencil size={13} /></button>
+                    <button onClick={(e) => { e.stopPropagation(); exportThread(thread); }} className="p-1 text-slate-400 hover:text-primary-600 rounded" title={t.exportChat}><Download size={13} /></button>
+                    <button onClick={(e) => { e.stopPropagation(); handleDelete(thread); }} className="p-1 text-slate-400 hover:text-red-500 rounded" title={t.deleteChat}><Trash2 size={13} /></button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </aside>
+
+      <div className="flex-grow min-w-0 flex flex-col">
       {/* Header */}
       <div className="bg-primary-600 dark:bg-primary-700 p-3 md:p-4 flex items-center justify-between text-white flex-shrink-0">
-        <div className="flex items-center space-x-3 space-x-reverse">
+        <div className="flex items-center space-x-3 space-x-reverse min-w-0">
+          <button onClick={() => setShowSidebar(v => !v)} className="md:hidden p-2 hover:bg-white/10 rounded-lg" title={t.chatHistory}>
+            <PanelLeft size={20} />
+          </button>
           <div className="bg-white/20 p-2 rounded-lg">
             <Bot size={20} className="md:w-6 md:h-6 text-white" />
           </div>
-          <div>
-            <h2 className="font-bold text-base md:text-lg">{t.chatAssistant}</h2>
-            <p className="text-primary-100 text-[10px] md:text-xs">Gemini 3 Pro</p>
+          <div className="min-w-0">
+            <h2 className="font-bold text-base md:text-lg truncate">{activeThread?.title || t.chatAssistant}</h2>
+            <p className="text-primary-100 text-[10px] md:text-xs truncate">{resolveModel()}</p>
           </div>
         </div>
-        <button 
-          onClick={() => setMessages([])} 
-          className="p-2 hover:bg-white/10 rounded-lg transition-colors text-white/80 hover:text-white"
-          title={t.clearChat}
-        >
-          <Trash2 size={20} />
-        </button>
+        <div className="flex items-center gap-1 relative">
+          <button
+            onClick={() => setShowAttachMenu(v => !v)}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors text-white/80 hover:text-white"
+            title={t.attachMaterial}
+          >
+            <Paperclip size={20} />
+          </button>
+          {activeThread && (
+            <>
+              <button
+                onClick={() => exportThread(activeThread)}
+                className="p-2 hover:bg-white/10 rounded-lg transition-colors text-white/80 hover:text-white"
+                title={t.exportChat}
+              >
+                <Download size={20} />
+              </button>
+              <button
+                onClick={() => handleDelete(activeThread)}
+                className="p-2 hover:bg-white/10 rounded-lg transition-colors text-white/80 hover:text-white"
+                title={t.deleteChat}
+              >
+                <Trash2 size={20} />
+              </button>
+            </>
+          )}
+
+          {showAttachMenu && (
+            <div className="absolute top-full mt-2 end-0 w-72 max-h-96 overflow-y-auto bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 z-20 py-2 text-sm">
+              <p className="px-4 py-2 text-xs font-bold text-slate-400 uppercase">{t.attachMaterial}</p>
+              {studyGuides.map(guide => (
+                <button key={guide.id} onClick={() => attach({ kind: 'study_guide', guideId: guide.id, title: guide.title })} className="w-full text-start px-4 py-2 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2">
+                  <BookOpen size={16} className="text-primary-500 flex-shrink-0" /> <span className="truncate">{guide.title}</span>
+                </button>
+              ))}
+              {quizzes.slice(0, ATTACH_MENU_QUIZZES).map(quiz => (
+                <button key={quiz.id} onClick={() => attach({ kind: 'quiz', quizId: quiz.id, title: quiz.title })} className="w-full text-start px-4 py-2 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2">
+                  <FileText size={16} className="text-secondary-500 flex-shrink-0" /> <span className="truncate">{quiz.title}</span>
+                </button>
+              ))}
+              <button onClick={() => fileInputRef.current?.click()} className="w-full text-start px-4 py-2 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2 border-t border-slate-100 dark:border-slate-700 mt-1">
+                <Upload size={16} className="text-emerald-500 flex-shrink-0" /> {t.uploadFiles}
+              </button>
+            </div>
+          )}
+          <input type="file" multiple ref={fileInputRef} onChange={handleFileChange} className="hidden" accept=".pdf,.txt,.md,.csv,image/*" />
+        </div>
       </div>
 
+      {context && (
+        <div className="px-3 md:px-4 py-2 bg-primary-50 dark:bg-primary-900/20 border-b border-primary-100 dark:border-primary-800/50 flex items-center justify-between gap-2 text-xs md:text-sm flex-shrink-0">
+          <span className="flex items-center gap-2 text-primary-700 dark:text-primary-300 min-w-0">
+            <Paperclip size={14} className="flex-shrink-0" />
+            <span className="truncate">{t.groundedIn}: <strong>{context.title}</strong></span>
+          </span>
+          <button onClick={() => setContext(null)} className="p-1 text-primary-400 hover:text-primary-700 rounded" title={t.detachMaterial}>
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
       {/* Messages Area */}
       <div className="flex-grow overflow-y-auto p-3 md:p-4 space-y-4 md:space-y-6 bg-slate-50 dark:bg-slate-900 transition-colors">
-        {messages.length === 0 && (
+        {context?.focus && (
+          <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl p-4 text-sm space-y-2">
+            <p className="flex items-center gap-2 font-bold text-slate-800 dark:text-slate-100"><HelpCircle size={16} className="text-primary-500" /> {context.focus.question}</p>
+            {context.focus.userAnswer && <p className="text-red-600 dark:text-red-400"><span className="font-bold">{t.yourAnswer}:</span> {context.focus.userAnswer}</p>}
+            <p className="text-green-700 dark:text-green-400"><span className="font-bold">{t.correctAnswer}:</span> {context.focus.correctAnswer}</p>
+            <p className="text-slate-600 dark:text-slate-300">{context.focus.explanation}</p>
+          </div>
+        )}
+
+        {messages.length === 0 && !context?.focus && (
           <div className="flex flex-col items-center justify-center h-full text-slate-400 dark:text-slate-500 space-y-4">
             <Sparkles size={40} className="md:w-12 md:h-12 text-primary-300 dark:text-primary-700" />
             <p className="text-base md:text-lg font-medium">{t.howToHelp}</p>
@@ -106,18 +441,46 @@ export const ChatBot: React.FC<ChatBotProps> = ({ language }) => {
             </div>
           </div>
         )}
-        
-        {messages.map((msg) => (
+
+        {activeThread?.summary && (
+          <p className="text-center text-[11px] text-slate-400 dark:text-slate-500">{t.earlierSummarized}</p>
+        )}
+
+        {messages.map((msg, index) => (
           <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div className={`flex max-w-[85%] md:max-w-[80%] ${msg.role === 'user' ? 'flex-row' : 'flex-row-reverse'} items-end gap-2`}>
-              <div 
-                className={`p-3 md:p-4 rounded-2xl shadow-sm text-sm leading-relaxed whitespace-pre-wrap
-                  ${msg.role === 'user' 
-                    ? 'bg-primary-600 dark:bg-primary-700 text-white rounded-bl-2xl rounded-br-none' 
+              <div className="min-w-0">
+              <div
+                className={`p-3 md:p-4 rounded-2xl shadow-sm text-sm leading-relaxed
+                  ${msg.role === 'user'
+                    ? 'bg-primary-600 dark:bg-primary-700 text-white rounded-bl-2xl rounded-br-none whitespace-pre-wrap'
                     : 'bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-br-2xl rounded-bl-none'
                   }`}
               >
-                {msg.text}
+                {msg.role === 'user' ? msg.text : <MarkdownMessage text={msg.text} />}
+                {msg.references && (
+                  <div className="mt-3 pt-2 border-t border-slate-100 dark:border-slate-700 flex flex-wrap gap-1.5 whitespace-normal">
+                    <span className="text-[10px] font-bold text-slate-400 uppercase self-center">{t.chatSources}</span>
+                    {msg.references.map(ref => (
+                      <span key={ref.id} title={ref.excerpt} className="text-[11px] bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 px-2 py-0.5 rounded-full cursor-help">
+                        [{ref.id}] {ref.label}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {msg.role === 'model' && (
+                <div className="flex items-center gap-1 mt-1 text-slate-400">
+                  <button onClick={() => handleCopy(msg)} className="p-1 hover:text-primary-600 rounded flex items-center gap-1 text-[11px]" title={t.copyMessage}>
+                    {copiedId === msg.id ? <><Check size={13} /> {t.copied}</> : <Copy size={13} />}
+                  </button>
+                  {index === messages.length - 1 && !isLoading && (
+                    <button onClick={handleRegenerate} className="p-1 hover:text-primary-600 rounded" title={t.regenerateAnswer}>
+                      <RefreshCw size={13} />
+                    </button>
+                  )}
+                </div>
+              )}
               </div>
               <div className={`w-6 h-6 md:w-8 md:h-8 rounded-full flex items-center justify-center flex-shrink-0 ${msg.role === 'user' ? 'bg-primary-100 dark:bg-primary-900' : 'bg-green-100 dark:bg-green-900'}`}>
                 {msg.role === 'user' ? <User size={14} className="md:w-4 md:h-4 text-primary-600 dark:text-primary-400" /> : <Bot size={14} className="md:w-4 md:h-4 text-green-600 dark:text-green-400" />}
@@ -125,11 +488,13 @@ export const ChatBot: React.FC<ChatBotProps> = ({ language }) => {
             </div>
           </div>
         ))}
-        {isLoading && (
+        {isLoading && (!streaming || streaming.threadId === activeThreadId) && (
           <div className="flex justify-start">
-             <div className="flex flex-row-reverse items-end gap-2">
-               <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 p-3 md:p-4 rounded-2xl rounded-bl-none shadow-sm">
-                 <Loader2 size={18} className="md:w-5 md:h-5 animate-spin text-primary-600 dark:text-primary-400" />
+             <div className="flex flex-row-reverse items-end gap-2 max-w-[85%] md:max-w-[80%]">
+               <div className="bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 border border-slate-200 dark:border-slate-700 p-3 md:p-4 rounded-2xl rounded-bl-none shadow-sm text-sm leading-relaxed min-w-0">
+                 {streaming?.text
+                   ? <MarkdownMessage text={streaming.text} />
+                   : <Loader2 size={18} className="md:w-5 md:h-5 animate-spin text-primary-600 dark:text-primary-400" />}
                </div>
                <div className="w-6 h-6 md:w-8 md:h-8 rounded-full bg-green-100 dark:bg-green-900 flex items-center justify-center flex-shrink-0">
                  <Bot size={14} className="md:w-4 md:h-4 text-green-600 dark:text-green-400" />
@@ -152,19 +517,30 @@ export const ChatBot: React.FC<ChatBotProps> = ({ language }) => {
             rows={1}
             style={{ minHeight: '50px' }}
           />
+          {isLoading ? (
+          <button
+            onClick={handleStop}
+            className="absolute left-2 p-1.5 md:p-2 rounded-lg transition-colors bg-slate-700 dark:bg-slate-600 text-white hover:bg-slate-800 shadow-sm"
+            title={t.stopGenerating}
+          >
+            <Square size={18} className="md:w-5 md:h-5" fill="currentColor" />
+          </button>
+          ) : (
           <button
             onClick={handleSend}
-            disabled={!input.trim() || isLoading}
+            disabled={!input.trim()}
             className={`absolute left-2 p-1.5 md:p-2 rounded-lg transition-colors
-              ${!input.trim() || isLoading 
-                ? 'text-slate-300 dark:text-slate-600 cursor-not-allowed' 
+              ${!input.trim()
+                ? 'text-slate-300 dark:text-slate-600 cursor-not-allowed'
                 : 'bg-primary-600 text-white hover:bg-primary-700 shadow-sm'
               }`}
           >
-            {isLoading ? <Loader2 size={18} className="md:w-5 md:h-5 animate-spin" /> : <Send size={18} className={`md:w-5 md:h-5 ${document.dir === 'rtl' ? 'rotate-180' : ''}`} />}
+            <Send size={18} className={`md:w-5 md:h-5 ${document.dir === 'rtl' ? 'rotate-180' : ''}`} />
           </button>
+          )}
         </div>
       </div>
+      </div>
     </div>
   );
 };
@@ -1,18 +1,28 @@
 
-import React from 'react';
-import { Clock, Trophy, Play, BookOpen, Trash2, Download, RotateCw, FileText, Layers, Printer, Share2, BarChart3 } from 'lucide-react';
-import { Quiz, AppLanguage } from '../types';
+import React, { useState } from 'react';
+import { Clock, Trophy, Play, BookOpen, Trash2, Download, RotateCw, FileText, Layers, Printer, Share2, BarChart3, Search, ScrollText } from 'lucide-react';
+import { Quiz, StudyGuide, AppLanguage } from '../types';
 import { translations } from '../utils/translations';
 
 interface DashboardProps {
   quizzes: Quiz[];
+  studyGuides: StudyGuide[];
   onSelectQuiz: (quiz: Quiz, mode: 'quiz' | 'flashcard') => void;
   onDeleteQuiz: (id: string) => void;
+  onOpenGuide: (guide: StudyGuide) => void;
+  onDeleteGuide: (id: string) => void;
   language: AppLanguage;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ quizzes, onSelectQuiz, onDeleteQuiz, language }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ quizzes, studyGuides, onSelectQuiz, onDeleteQuiz, onOpenGuide, onDeleteGuide, language }) => {
   const t = translations[language];
+  const [search, setSearch] = useState('');
+  const query = search.trim().toLowerCase();
+  const visibleQuizzes = query ? quizzes.filter(q => q.title.toLowerCase().includes(query)) : quizzes;
+  const visibleGuides = query
+    ? studyGuides.filter(g => [g.title, g.source?.label || '', ...g.topics].some(text => text.toLowerCase().includes(query)))
+    : studyGuides;
+  const guidesById = new Map(studyGuides.map(g => [g.id, g]));
   const totalQuestionsAnswered = quizzes.reduce((acc, q) => acc + (q.completed ? q.questions.length : 0), 0);
   const averageScore = quizzes.filter(q => q.completed).length > 0
     ? Math.round(quizzes.filter(q => q.completed).reduce((acc, q) => acc + (q.score || 0) / q.questions.length, 0) / quizzes.filter(q => q.completed).length * 100)
@@ -50,11 +60,76 @@ export const Dashboard: React.FC<DashboardProps> = ({ quizzes, onSelectQuiz, onD
         <StatCard icon={BarChart3} label={t.questionsAnswered} value={totalQuestionsAnswered} colorClass="bg-purple-500" delay="200ms" />
       </div>
 
-      <div className="flex justify-between items-center px-2 animate-fade-in-up" style={{ animationDelay: '300ms' }}>
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 px-2 animate-fade-in-up" style={{ animationDelay: '300ms' }}>
         <h2 className="text-3xl font-black text-slate-900 dark:text-white tracking-tight">{t.library}</h2>
+        {(quizzes.length > 0 || studyGuides.length > 0) && (
+          <div className="relative md:w-72">
+            <Search size={16} className="absolute top-1/2 -translate-y-1/2 start-4 text-slate-400" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t.searchLibrary}
+              className="w-full ps-10 pe-4 py-2.5 rounded-2xl glass-panel border border-white/40 dark:border-white/5 text-sm text-slate-900 dark:text-white placeholder:text-slate-400 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+        )}
       </div>
 
-      {quizzes.length === 0 ? (
+      {visibleGuides.length > 0 && (
+        <section className="space-y-4">
+          <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300 px-2">{t.studyGuides}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {visibleGuides.map((guide, idx) => (
+              <div
+                  key={guide.id}
+                  className="glass-panel rounded-[2rem] shadow-sm hover:shadow-2xl hover:-translate-y-2 transition-all duration-500 border border-white/40 dark:border-white/5 flex flex-col overflow-hidden group animate-fade-in-up"
+                  style={{ animationDelay: `${idx * 100}ms` }}
+              >
+                <div className="p-7 flex-grow relative">
+                  <div className="absolute top-0 right-0 w-full h-1 bg-gradient-to-r from-emerald-400 to-primary-400"></div>
+
+                  <div className="flex justify-between items-start mb-4">
+                    <span className="px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest border bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 border-emerald-200 dark:border-emerald-800 flex items-center gap-1">
+                      <ScrollText size={12} /> {new Date(guide.createdAt).toLocaleDateString(language === 'ar' ? 'ar-EG' : 'en-US')}
+                    </span>
+
+                    <button onClick={() => onDeleteGuide(guide.id)} className="p-2 -mr-2 -mt-2 text-slate-300 hover:text-red-500 rounded-full hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors opacity-0 group-hover:opacity-100">
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+
+                  <h3 className="text-xl font-bold text-slate-900 dark:text-white mb-3 line-clamp-2 leading-tight group-hover:text-primary-600 transition-colors">
+                    {guide.title}
+                  </h3>
+
+                  {guide.source && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-3 truncate">{t.guideSource}: {guide.source.label}</p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2 text-xs font-semibold text-slate-500 dark:text-slate-400">
+                    {guide.topics.slice(0, 3).map(topic => (
+                      <span key={topic} className="bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded-md truncate max-w-[10rem]">{topic}</span>
+                    ))}
+                  </div>
+                </div>
+
+                <button
+                  onClick={() => onOpenGuide(guide)}
+                  className="py-4 text-sm font-bold text-slate-600 dark:text-slate-300 border-t border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-900/50 hover:bg-white dark:hover:bg-slate-800 hover:text-emerald-600 transition-colors flex items-center justify-center gap-2"
+                >
+                  <BookOpen size={16} /> {t.openGuide}
+                </button>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {visibleGuides.length > 0 && visibleQuizzes.length > 0 && (
+        <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300 px-2">{t.quizzesHeading}</h3>
+      )}
+
+      {quizzes.length === 0 && studyGuides.length === 0 ? (
         <div className="text-center py-24 glass-panel rounded-[2.5rem] border border-dashed border-slate-300 dark:border-slate-700 animate-fade-in-up" style={{ animationDelay: '400ms' }}>
           <div className="bg-slate-100 dark:bg-slate-800 w-24 h-24 rounded-full flex items-center justify-center mx-auto mb-6 shadow-inner">
              <BookOpen className="h-10 w-10 text-slate-400" />
@@ -62,9 +137,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ quizzes, onSelectQuiz, onD
           <h3 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">{t.noQuizzes}</h3>
           <p className="text-slate-500 dark:text-slate-400 max-w-sm mx-auto">{t.startJourney}</p>
         </div>
-      ) : (
+      ) : visibleQuizzes.length === 0 && visibleGuides.length === 0 ? (
+        <p className="text-center py-16 text-slate-500 dark:text-slate-400">{t.noResults}</p>
+      ) : visibleQuizzes.length > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {quizzes.map((quiz, idx) => (
+          {visibleQuizzes.map((quiz, idx) => (
             <div 
                 key={quiz.id} 
                 className="glass-panel rounded-[2rem] shadow-sm hover:shadow-2xl hover:-translate-y-2 transition-all duration-500 border border-white/40 dark:border-white/5 flex flex-col overflow-hidden group animate-fade-in-up"
@@ -95,6 +172,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ quizzes, onSelectQuiz, onD
                   <span className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded-md"><Layers size={12}/> {quiz.questions.length} {t.questions}</span>
                   <span className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded-md"><BarChart3 size={12}/> {difficultyLabel[quiz.settings.difficulty] || quiz.settings.difficulty}</span>
                 </div>
+
+                {quiz.guideId && guidesById.has(quiz.guideId) && (
+                  <button onClick={() => onOpenGuide(guidesById.get(quiz.guideId!)!)} className="-mt-3 mb-3 flex items-center gap-1.5 text-xs font-semibold text-emerald-600 dark:text-emerald-400 hover:underline max-w-full">
+                    <ScrollText size={12} className="flex-shrink-0" /> <span className="truncate">{t.fromGuide}: {guidesById.get(quiz.guideId)!.title}</span>
+                  </button>
+                )}
               </div>
               
               {/* Dual Actions */}
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { Layers, Play, CheckCircle2, BarChart3, BookX } from 'lucide-react';
+import { AppLanguage } from '../types';
+import { translations } from '../utils/translations';
+import { ReviewCard, countBySubject, reviewForecast } from '../utils/reviewQueue';
+
+interface DueReviewProps {
+  cards: ReviewCard[]; // Everything scheduled, for the forecast
+  due: ReviewCard[];
+  onStartSession: (subject: string | null) => void;
+  language: AppLanguage;
+}
+
+export const DueReview: React.FC<DueReviewProps> = ({ cards, due, onStartSession, language }) => {
+  const [forecastDays, setForecastDays] = useState<7 | 30>(7);
+  const t = translations[language];
+  const locale = language === 'ar' ? 'ar-EG' : 'en-US';
+
+  const subjects = useMemo(() => countBySubject(due), [due]);
+  const forecast = useMemo(() => reviewForecast(cards, Date.now(), forecastDays), [cards, forecastDays]);
+  const peak = Math.max(1, ...forecast);
+  const mistakeCount = due.filter(c => c.source.kind === 'mistake').length;
+
+  const dayLabel = (offset: number) => {
+    if (offset === 0) return t.today;
+    const date = new Date();
+    date.setDate(date.getDate() + offset);
+    return forecastDays === 7
+      ? date.toLocaleDateString(locale, { weekday: 'short' })
+      : date.toLocaleDateString(locale, { day: 'numeric', month: 'numeric' });
+  };
+
+  return (
+    <div className="space-y-8 pb-20 animate-fade-in-up">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 px-2">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900 dark:text-white tracking-tight">{t.dueToday}</h2>
+          <p className="text-slate-500 dark:text-slate-400 mt-1">{t.dueTodayDesc}</p>
+        </div>
+        {due.length > 0 && (
+          <button
+            onClick={() => onStartSession(null)}
+            className="flex items-center justify-center gap-2 px-6 py-3 rounded-2xl bg-gradient-to-r from-primary-600 to-secondary-600 text-white font-bold shadow-lg shadow-primary-500/30 hover:scale-105 transition-transform"
+          >
+            <Play size={18} /> {t.reviewAllDue} ({due.length})
+          </button>
+        )}
+      </div>
+
+      {due.length === 0 ? (
+        <div className="text-center py-16 glass-panel rounded-[2rem] border border-dashed border-slate-300 dark:border-slate-700">
+          <CheckCircle2 className="mx-auto h-14 w-14 text-green-500 mb-4" />
+          <h3 className="text-xl font-bold text-slate-900 dark:text-white mb-2">{t.nothingDueToday}</h3>
+          <p className="text-slate-500 dark:text-slate-400">{t.nothingDueTodayDesc}</p>
+        </div>
+      ) : (
+        <section className="glass-panel rounded-[2rem] border border-white/40 dark:border-white/5 overflow-hidden">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-slate-800">
+            <h3 className="font-bold text-slate-700 dark:text-slate-300 flex items-center gap-2"><Layers size={18} /> {t.dueBySubject}</h3>
+            {mistakeCount > 0 && (
+              <span className="text-xs font-bold text-red-600 dark:text-red-300 bg-red-50 dark:bg-red-900/20 px-3 py-1 rounded-full flex items-center gap-1">
+                <BookX size={12} /> {mistakeCount} {t.fromMistakes}
+              </span>
+            )}
+          </div>
+          <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+            {subjects.map(({ subject, count }) => (
+              <li key={subject} className="flex items-center justify-between gap-4 px-6 py-3">
+                <span className="font-medium text-slate-800 dark:text-slate-200 truncate">{subject}</span>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <span className="text-sm font-bold text-primary-600 dark:text-primary-300 bg-primary-50 dark:bg-primary-900/30 px-3 py-1 rounded-full">{count}</span>
+                  <button
+                    onClick={() => onStartSession(subject)}
+                    className="text-sm font-bold text-slate-600 dark:text-slate-300 hover:text-primary-600 dark:hover:text-primary-300 flex items-center gap-1"
+                  >
+                    <Play size={14} /> {t.startReview}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section className="glass-panel rounded-[2rem] border border-white/40 dark:border-white/5 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="font-bold text-slate-700 dark:text-slate-300 flex items-center gap-2"><BarChart3 size={18} /> {t.workloadForecast}</h3>
+          <div className="flex bg-slate-100 dark:bg-slate-800 rounded-full p-1 text-xs font-bold">
+            {([7, 30] as const).map(days => (
+              <button
+                key={days}
+                onClick={() => setForecastDays(days)}
+                className={`px-3 py-1 rounded-full transition-colors ${forecastDays === days ? 'bg-white dark:bg-slate-700 text-primary-600 dark:text-primary-300 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+              >
+                {days === 7 ? t.next7Days : t.next30Days}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-end gap-1 h-40">
+          {forecast.map((count, day) => (
+            <div key={day} className="flex-1 flex flex-col items-center justify-end h-full min-w-0" title={`${dayLabel(day)}: ${count}`}>
+              {forecastDays === 7 && <span className="text-xs font-bold text-slate-600 dark:text-slate-300 mb-1">{count}</span>}
+              <div
+                className={`w-full rounded-t-md ${day === 0 ? 'bg-primary-500' : 'bg-primary-300 dark:bg-primary-700'}`}
+                style={{ height: `${(count / peak) * 100}%`, minHeight: count > 0 ? 4 : 0 }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1 mt-2">
+          {forecast.map((_, day) => (
+            <span key={day} className="flex-1 text-center text-[10px] text-slate-400 dark:text-slate-500 truncate min-w-0">
+              {forecastDays === 7 || day % 5 === 0 ? dayLabel(day) : ''}
+            </span>
+          ))}
+        </div>
+        <p className="text-xs text-slate-400 dark:text-slate-500 mt-4">
+          {t.forecastTotal}: {forecast.reduce((sum, n) => sum + n, 0)}
+        </p>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,319 @@
+import React, { useMemo, useState } from 'react';
+import { GraduationCap, Plus, X, Pencil, Trash2, CheckCircle2, Circle, BookOpen, Repeat, FileText, Clock, Play } from 'lucide-react';
+import { AppLanguage, ExamPlan, ExamTopic, Mistake, Quiz, StudyGuide } from '../types';
+import { translations } from '../utils/translations';
+import { addDays, daysBetween, todayIso } from '../utils/reviewSchedule';
+import { ExamSession, TopicStanding, buildExamSchedule, topicStanding } from '../utils/examPlan';
+
+interface ExamPlannerProps {
+  exams: ExamPlan[];
+  quizzes: Quiz[];
+  studyGuides: StudyGuide[];
+  mistakes: Mistake[];
+  onSaveExam: (exam: ExamPlan) => void;
+  onDeleteExam: (id: string) => void;
+  onToggleSession: (examId: string, session: ExamSession) => void;
+  onOpenQuiz: (quiz: Quiz) => void;
+  onOpenGuide: (guide: StudyGuide) => void;
+  onStartMock: (exam: ExamPlan) => void;
+  language: AppLanguage;
+}
+
+const generateId = () => {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2);
+};
+
+const DAYS_SHOWN = 14;
+
+const KIND_STYLES = {
+  learn: { icon: BookOpen, className: 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300' },
+  review: { icon: Repeat, className: 'bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300' },
+  mock: { icon: FileText, className: 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300' },
+};
+
+const LEVEL_STYLES = {
+  weak: 'border-red-300 dark:border-red-700 text-red-700 dark:text-red-300',
+  normal: 'border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300',
+  strong: 'border-green-300 dark:border-green-700 text-green-700 dark:text-green-300',
+};
+
+const newDraft = (): ExamPlan => ({
+  id: generateId(),
+  title: '',
+  examDate: addDays(todayIso(), 14),
+  minutesPerDay: 90,
+  topics: [{ id: generateId(), name: '' }],
+  completed: [],
+  createdAt: Date.now(),
+});
+
+export const ExamPlanner: React.FC<ExamPlannerProps> = ({
+  exams, quizzes, studyGuides, mistakes, onSaveExam, onDeleteExam, onToggleSession, onOpenQuiz, onOpenGuide, onStartMock, language
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(exams[0]?.id || null);
+  const [draft, setDraft] = useState<ExamPlan | null>(exams.length === 0 ? newDraft() : null);
+  const [showAllDays, setShowAllDays] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const t = translations[language];
+  const locale = language === 'ar' ? 'ar-EG' : 'en-US';
+  const today = todayIso();
+  const formatDate = (isoDate: string) =>
+    new Date(`${isoDate}T00:00:00Z`).toLocaleDateString(locale, { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+  const exam = exams.find(e => e.id === selectedId) || null;
+
+  const standings = useMemo(() => {
+    const result: Record<string, TopicStanding> = {};
+    exam?.topics.forEach(topic => { result[topic.id] = topicStanding(topic, quizzes, mistakes, exam.id); });
+    return result;
+  }, [exam, quizzes, mistakes]);
+
+  const days = useMemo(() => exam ? buildExamSchedule(exam, standings, today) : [], [exam, standings, today]);
+  const visibleDays = showAllDays ? days : days.slice(0, DAYS_SHOWN);
+  const daysLeft = exam ? daysBetween(today, exam.examDate) : 0;
+
+  // --- Form ---
+
+  const updateDraftTopic = (id: string, changes: Partial<ExamTopic>) =>
+    setDraft(prev => prev && { ...prev, topics: prev.topics.map(topic => topic.id === id ? { ...topic, ...changes } : topic) });
+
+  const handleSave = () => {
+    if (!draft) return;
+    const topics = draft.topics
+      .map(topic => ({ ...topic, name: topic.name.trim() }))
+      .filter(topic => topic.name);
+    if (!draft.title.trim() || topics.length === 0) {
+      setError(t.examPlanIncomplete);
+      return;
+    }
+    if (draft.examDate <= today) {
+      setError(t.examDateInPast);
+      return;
+    }
+    setError(null);
+    onSaveExam({ ...draft, title: draft.title.trim(), topics });
+    setSelectedId(draft.id);
+    setDraft(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm(t.deleteExamConfirm)) return;
+    onDeleteExam(id);
+    const next = exams.find(e => e.id !== id);
+    setSelectedId(next?.id || null);
+    if (!next) setDraft(newDraft());
+  };
+
+  const sessionLabel = (session: ExamSession) => {
+    if (session.kind === 'mock') return t.mockExam;
+    const names = session.topicIds.map(id => exam?.topics.find(topic => topic.id === id)?.name).filter(Boolean).join(', ');
+    return `${session.kind === 'learn' ? t.learnSession : t.reviewSession}: ${names}`;
+  };
+
+  // Learning starts from the guide where there is one; reviews go straight to the quiz.
+  const sessionAction = (session: ExamSession) => {
+    if (!exam) return null;
+    if (session.kind === 'mock') return { label: t.startMockExam, run: () => onStartMock(exam) };
+    const topic = exam.topics.find(item => item.id === session.topicIds[0]);
+    const quiz = quizzes.find(q => q.id === topic?.quizId);
+    const guide = studyGuides.find(g => g.id === topic?.guideId);
+    const openGuide = guide && { label: t.openLinkedGuide, run: () => onOpenGuide(guide) };
+    const openQuiz = quiz && { label: t.openLinkedQuiz, run: () => onOpenQuiz(quiz) };
+    return (session.kind === 'learn' ? openGuide || openQuiz : openQuiz || openGuide) || null;
+  };
+
+  const inputClass = "w-full p-3 rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white/50 dark:bg-slate-900/50 text-slate-900 dark:text-white focus:border-primary-500 focus:ring-0 transition-all";
+
+  return (
+    <div className="space-y-6">
+      {exams.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2 px-2">
+          {exams.map(item => (
+            <button
+              key={item.id}
+              onClick={() => { setSelectedId(item.id); setDraft(null); setShowAllDays(false); }}
+              className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold border transition-colors ${item.id === selectedId && !draft ? 'bg-primary-600 border-primary-600 text-white' : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:border-primary-400'}`}
+            >
+              <GraduationCap size={16} /> {item.title}
+            </button>
+          ))}
+          {!draft && (
+            <button
+              onClick={() => { setDraft(newDraft()); setError(null); }}
+              className="flex items-center gap-1 px-4 py-2 rounded-full text-sm font-bold border border-dashed border-slate-300 dark:border-slate-600 text-slate-500 dark:text-slate-400 hover:text-primary-600 hover:border-primary-400"
+            >
+              <Plus size={16} /> {t.newExam}
+            </button>
+          )}
+        </div>
+      )}
+
+      {draft && (
+        <div className="glass-panel rounded-3xl p-6 md:p-8 shadow-2xl mx-2 space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2 md:col-span-3">
+              <label htmlFor="examTitle" className="font-bold text-slate-700 dark:text-slate-200">{t.examTitle}</label>
+              <input id="examTitle" value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} placeholder={t.examTitlePlaceholder} className={inputClass} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <label htmlFor="examDate" className="font-bold text-slate-700 dark:text-slate-200">{t.examDate}</label>
+              <input id="examDate" type="date" min={addDays(today, 1)} value={draft.examDate} onChange={(e) => setDraft({ ...draft, examDate: e.target.value })} className={`${inputClass} font-bold`} />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="minutesPerDay" className="font-bold text-slate-700 dark:text-slate-200">{t.minutesPerDay}</label>
+              <input
+                id="minutesPerDay"
+                type="number"
+                min={15}
+                max={600}
+                step={15}
+                value={draft.minutesPerDay}
+                onChange={(e) => setDraft({ ...draft, minutesPerDay: Math.min(600, Math.max(15, Number(e.target.value) || 15)) })}
+                className={`${inputClass} text-center font-bold`}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <p className="font-bold text-slate-700 dark:text-slate-200">{t.examTopics}</p>
+            {draft.topics.map(topic => (
+              <div key={topic.id} className="flex flex-col md:flex-row gap-2 md:items-center">
+                <input value={topic.name} onChange={(e) => updateDraftTopic(topic.id, { name: e.target.value })} placeholder={t.topicPlaceholder} className={`${inputClass} md:flex-1`} />
+                <select value={topic.quizId || ''} onChange={(e) => updateDraftTopic(topic.id, { quizId: e.target.value || undefined })} className={`${inputClass} md:w-44 text-sm`}>
+                  <option value="">{t.noLinkedQuiz}</option>
+                  {quizzes.map(q => <option key={q.id} value={q.id}>{q.title}</option>)}
+                </select>
+                <select value={topic.guideId || ''} onChange={(e) => updateDraftTopic(topic.id, { guideId: e.target.value || undefined })} className={`${inputClass} md:w-44 text-sm`}>
+                  <option value="">{t.noLinkedGuide}</option>
+                  {studyGuides.map(g => <option key={g.id} value={g.id}>{g.title}</option>)}
+                </select>
+                <button
+                  onClick={() => setDraft({ ...draft, topics: draft.topics.filter(item => item.id !== topic.id) })}
+                  disabled={draft.topics.length === 1}
+                  title={t.removeTopic}
+                  className="self-end md:self-auto p-2 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-30"
+                >
+                  <X size={18} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setDraft({ ...draft, topics: [...draft.topics, { id: generateId(), name: '' }] })}
+              className="flex items-center gap-1 text-sm font-bold text-primary-600 dark:text-primary-400 hover:underline"
+            >
+              <Plus size={14} /> {t.addExamTopic}
+            </button>
+          </div>
+
+          {error && <p className="text-sm font-medium text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleSave}
+              className="flex-1 py-3 px-6 rounded-xl text-white font-bold bg-gradient-to-r from-primary-600 to-secondary-600 shadow-lg hover:scale-[1.01] active:scale-[0.98] transition-all"
+            >
+              {t.saveExamPlan}
+            </button>
+            {exams.length > 0 && (
+              <button onClick={() => { setDraft(null); setError(null); }} className="px-6 py-3 rounded-xl font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800">
+                {t.cancelEdit}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {exam && !draft && (
+        <div className="space-y-4 animate-in fade-in duration-500">
+          <div className="glass-panel rounded-3xl p-6 shadow-xl mx-2 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-2xl font-black text-slate-900 dark:text-white">{exam.title}</h3>
+                <p className="text-slate-500 dark:text-slate-400 mt-1">
+                  {formatDate(exam.examDate)} · {exam.minutesPerDay} {t.minutesShort} / {t.perDay}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button onClick={() => { setDraft(exam); setError(null); }} title={t.editExamPlan} className="p-2 rounded-full text-slate-500 hover:text-primary-600 hover:bg-slate-100 dark:hover:bg-slate-800">
+                  <Pencil size={18} />
+                </button>
+                <button onClick={() => handleDelete(exam.id)} title={t.deleteExamPlan} className="p-2 rounded-full text-slate-500 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20">
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            </div>
+
+            <div className="rounded-2xl bg-gradient-to-r from-primary-600 to-secondary-600 text-white px-5 py-4 flex items-center justify-between">
+              <span className="font-bold">{daysLeft > 0 ? t.daysUntilExam : daysLeft === 0 ? t.examIsToday : t.examIsOver}</span>
+              {daysLeft > 0 && <span className="text-3xl font-black">{daysLeft}</span>}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {exam.topics.map(topic => {
+                const standing = standings[topic.id];
+                return (
+                  <span key={topic.id} className={`px-3 py-1 rounded-full text-xs font-bold border ${LEVEL_STYLES[standing.level]}`}>
+                    {topic.name}
+                    {standing.percent !== null && ` · ${standing.percent}%`}
+                    {standing.mistakes > 0 && ` · ${standing.mistakes} ${t.mistakesShort}`}
+                  </span>
+                );
+              })}
+            </div>
+            <p className="text-xs text-slate-400 dark:text-slate-500">{t.examPlanAdapts}</p>
+          </div>
+
+          {visibleDays.map(day => (
+            <div key={day.date} className="glass-panel rounded-2xl mx-2 overflow-hidden">
+              <div className={`flex items-center justify-between px-5 py-3 border-b border-slate-100 dark:border-slate-800 ${day.date === today ? 'bg-primary-50 dark:bg-primary-900/20' : ''}`}>
+                <span className="font-bold text-slate-800 dark:text-white">{day.date === today ? t.today : formatDate(day.date)}</span>
+                <span className={`text-xs font-bold flex items-center gap-1 ${day.minutes > exam.minutesPerDay ? 'text-red-500' : 'text-slate-400 dark:text-slate-500'}`}>
+                  <Clock size={12} /> {day.minutes} / {exam.minutesPerDay} {t.minutesShort}
+                </span>
+              </div>
+              {day.sessions.length === 0 ? (
+                <p className="px-5 py-3 text-sm text-slate-400 dark:text-slate-500">{t.restDay}</p>
+              ) : (
+                <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {day.sessions.map(session => {
+                    const { icon: Icon, className } = KIND_STYLES[session.kind];
+                    const action = sessionAction(session);
+                    return (
+                      <li key={session.key} className="flex items-center gap-3 px-5 py-3">
+                        <button
+                          onClick={() => onToggleSession(exam.id, session)}
+                          title={session.done ? t.markNotDone : t.markDone}
+                          className={`flex-shrink-0 ${session.done ? 'text-green-500' : 'text-slate-300 dark:text-slate-600 hover:text-green-500'}`}
+                        >
+                          {session.done ? <CheckCircle2 size={20} /> : <Circle size={20} />}
+                        </button>
+                        <span className={`p-1.5 rounded-lg flex-shrink-0 ${className}`}><Icon size={14} /></span>
+                        <span className={`flex-1 min-w-0 truncate text-sm font-medium ${session.done ? 'line-through text-slate-400' : 'text-slate-800 dark:text-slate-200'}`}>
+                          {sessionLabel(session)}
+                        </span>
+                        <span className="text-xs text-slate-400 dark:text-slate-500 flex-shrink-0">{session.minutes} {t.minutesShort}</span>
+                        {action && !session.done && (
+                          <button onClick={action.run} className="text-xs font-bold text-primary-600 dark:text-primary-400 hover:underline flex items-center gap-1 flex-shrink-0">
+                            <Play size={12} /> {action.label}
+                          </button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          ))}
+
+          {days.length > DAYS_SHOWN && (
+            <div className="flex justify-center">
+              <button onClick={() => setShowAllDays(!showAllDays)} className="text-sm font-bold text-primary-600 dark:text-primary-400 hover:underline">
+                {showAllDays ? t.showFewerDays : `${t.showAllDays} (${days.length})`}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,62 +1,146 @@
 
-import React, { useState } from 'react';
-import { ChevronLeft, ChevronRight, RotateCw, X, Clock, ThumbsUp, ThumbsDown, Zap } from 'lucide-react';
-import { Quiz, Question, AppLanguage } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, RotateCw, X, CheckCircle, Repeat, Loader2 } from 'lucide-react';
+import { Quiz, AppLanguage } from '../types';
 import { translations } from '../utils/translations';
+import {
+  ReviewRating, CardSchedule, scheduleCard, previewIntervals, repeatsInSession,
+  buildStudyQueue, isNewCard, nextDueDate
+} from '../utils/srs';
 
 interface FlashcardPlayerProps {
   quiz: Quiz;
   onExit: () => void;
-  onUpdateProgress?: (questionId: string, srsStatus: 'learning' | 'review' | 'mastered') => void;
+  onReview?: (questionId: string, schedule: CardSchedule) => void;
+  isLoadingMore?: boolean; // More cards are still streaming in
+  onStopLoading?: () => void; // Stops the rest of the generation; the cards so far are kept
   language: AppLanguage;
 }
 
-export const FlashcardPlayer: React.FC<FlashcardPlayerProps> = ({ quiz, onExit, onUpdateProgress, language }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
+const RATING_STYLES: Record<ReviewRating, string> = {
+  again: 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 hover:bg-red-200 dark:hover:bg-red-900/60',
+  hard: 'bg-orange-100 dark:bg-orange-900/40 text-orange-700 dark:text-orange-300 hover:bg-orange-200 dark:hover:bg-orange-900/60',
+  good: 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/60',
+  easy: 'bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300 hover:bg-green-200 dark:hover:bg-green-900/60',
+};
+
+export const FlashcardPlayer: React.FC<FlashcardPlayerProps> = ({ quiz, onExit, onReview, isLoadingMore = false, onStopLoading, language }) => {
+  // The session is a queue of question ids: due cards first, then today's new cards. Cards rated
+  // "again" (or still in a short learning step) go to the back and come round once more.
+  const [queue, setQueue] = useState<string[]>(() => buildStudyQueue(quiz.questions, Date.now()));
   const [isFlipped, setIsFlipped] = useState(false);
+  const [practiceMode, setPracticeMode] = useState(false);
+  const finishedRef = useRef<Set<string>>(new Set());
   const t = translations[language];
 
-  const currentCard = quiz.questions[currentIndex];
+  // Cards that arrive while the quiz is still generating join the session if they're eligible.
+  useEffect(() => {
+    if (practiceMode) return;
+    const eligible = buildStudyQueue(quiz.questions, Date.now());
+    setQueue(prev => {
+      const added = eligible.filter(id => !prev.includes(id) && !finishedRef.current.has(id));
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  }, [quiz.questions.length, practiceMode]);
 
-  const handleNext = () => {
+  const currentCard = quiz.questions.find(q => q.id === queue[0]);
+  const intervals = currentCard && !practiceMode ? previewIntervals(currentCard, Date.now()) : null;
+  const newLeft = queue.filter(id => {
+    const card = quiz.questions.find(q => q.id === id);
+    return card ? isNewCard(card) : false;
+  }).length;
+
+  const rotate = (direction: 1 | -1) => {
     setIsFlipped(false);
     setTimeout(() => {
-      setCurrentIndex((prev) => (prev + 1) % quiz.questions.length);
+      setQueue(prev => prev.length < 2 ? prev : direction === 1 ? [...prev.slice(1), prev[0]] : [prev[prev.length - 1], ...prev.slice(0, -1)]);
     }, 200);
   };
 
-  const handlePrev = () => {
+  const handleRate = (rating: ReviewRating) => {
+    if (!currentCard) return;
+    const now = Date.now();
+    let again = rating === 'again';
+    if (!practiceMode) {
+      const schedule = scheduleCard(currentCard, rating, now);
+      onReview?.(currentCard.id, schedule);
+      again = repeatsInSession(schedule, now);
+    }
+    if (!again) finishedRef.current.add(currentCard.id);
     setIsFlipped(false);
     setTimeout(() => {
-      setCurrentIndex((prev) => (prev - 1 + quiz.questions.length) % quiz.questions.length);
+      setQueue(prev => again ? [...prev.slice(1), prev[0]] : prev.slice(1));
     }, 200);
   };
 
-  const handleSRS = (difficulty: 'hard' | 'good' | 'easy') => {
-      if (onUpdateProgress) {
-          const status = difficulty === 'easy' ? 'mastered' : difficulty === 'good' ? 'review' : 'learning';
-          onUpdateProgress(currentCard.id, status);
-      }
-      handleNext();
+  const startPractice = () => {
+    finishedRef.current = new Set();
+    setPracticeMode(true);
+    setIsFlipped(false);
+    setQueue(quiz.questions.map(q => q.id));
   };
 
+  if (!currentCard) {
+    const nextDue = nextDueDate(quiz.questions);
+    const unseen = quiz.questions.filter(isNewCard).length;
+    return (
+      <div className="max-w-md mx-auto min-h-[60vh] flex flex-col items-center justify-center text-center p-6">
+        <CheckCircle size={56} className="text-green-500 mb-4" />
+        <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-2">{practiceMode || finishedRef.current.size > 0 ? t.sessionComplete : t.nothingDue}</h2>
+        {!practiceMode && unseen > 0 && <p className="text-sm text-slate-500 dark:text-slate-400 mb-1">{t.newLimitReached}</p>}
+        {!practiceMode && nextDue !== null && (
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-1">
+            {t.nextReviewOn}: {new Date(nextDue).toLocaleString(language === 'ar' ? 'ar-EG' : 'en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+          </p>
+        )}
+        <div className="flex flex-col sm:flex-row gap-3 mt-6 w-full">
+          {quiz.questions.length > 0 && (
+            <button onClick={startPractice} className="flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-primary-600 text-white font-bold hover:bg-primary-700 transition-colors">
+              <Repeat size={18} /> {t.practiceAll}
+            </button>
+          )}
+          <button onClick={onExit} className="flex-1 px-4 py-3 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 font-bold hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+            {t.home}
+          </button>
+        </div>
+        <p className="text-xs text-slate-400 dark:text-slate-500 mt-4">{t.practiceModeNote}</p>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-2xl mx-auto h-[calc(100dvh-120px)] md:h-[calc(100vh-140px)] flex flex-col items-center justify-center p-2">
       <div className="w-full flex justify-between items-center mb-4 md:mb-6">
         <button onClick={onExit} className="text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-white flex items-center p-2 -ml-2">
             <X size={24} className="ml-1" />
         </button>
-        <span className="text-sm font-medium text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-800 px-3 py-1 rounded-full">
-          {t.card} {currentIndex + 1} / {quiz.questions.length}
-        </span>
+        <div className="flex items-center gap-2 text-sm font-medium">
+          {practiceMode ? (
+            <span className="text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-800 px-3 py-1 rounded-full">{t.practiceAll}</span>
+          ) : (
+            <>
+              <span className="text-blue-600 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 px-3 py-1 rounded-full">{newLeft} {t.newCards}</span>
+              <span className="text-green-600 dark:text-green-300 bg-green-50 dark:bg-green-900/30 px-3 py-1 rounded-full">{queue.length - newLeft} {t.dueCards}</span>
+            </>
+          )}
+          <span className="text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-800 px-3 py-1 rounded-full">
+            {queue.length} {t.cardsLeft}
+          </span>
+          {isLoadingMore && onStopLoading && (
+            <button onClick={onStopLoading} className="flex items-center gap-1.5 px-3 py-1 rounded-full text-slate-400 hover:text-red-500 transition-colors">
+              <Loader2 size={14} className="animate-spin" />
+              <span>{t.stopLoadingMore}</span>
+            </button>
+          )}
+        </div>
       </div>
 
-      <div 
+      <div
         className="relative w-full aspect-[3/4] md:aspect-[4/3] max-h-[60vh] cursor-pointer perspective-1000 group"
         onClick={() => setIsFlipped(!isFlipped)}
       >
         <div className={`relative w-full h-full duration-500 transform-style-3d transition-all ${isFlipped ? 'rotate-y-180' : ''}`}>
-          
+
           {/* Front */}
           <div className="absolute w-full h-full backface-hidden bg-white dark:bg-slate-800 rounded-3xl shadow-xl border border-slate-200 dark:border-slate-700 flex flex-col items-center justify-center p-6 md:p-8 text-center hover:shadow-2xl transition-shadow">
             <span className="absolute top-6 right-6 text-xs font-bold text-slate-400 dark:text-slate-500 uppercase tracking-wider">{t.question}</span>
@@ -85,34 +169,25 @@ export const FlashcardPlayer: React.FC<FlashcardPlayerProps> = ({ quiz, onExit,
       {/* SRS Controls */}
       {isFlipped ? (
           <div className="grid grid-cols-4 gap-2 md:gap-3 mt-6 md:mt-8 w-full">
-            <button onClick={(e) => { e.stopPropagation(); handleSRS('hard'); }} className="flex flex-col items-center justify-center p-2 md:p-3 rounded-xl bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 hover:bg-red-200 dark:hover:bg-red-900/60 transition-colors">
-               <span className="text-xs md:text-sm font-bold">{t.hard}</span>
-               <span className="text-[10px] md:text-xs opacity-70">1m</span>
-            </button>
-            <button onClick={(e) => { e.stopPropagation(); handleSRS('hard'); }} className="flex flex-col items-center justify-center p-2 md:p-3 rounded-xl bg-orange-100 dark:bg-orange-900/40 text-orange-700 dark:text-orange-300 hover:bg-orange-200 dark:hover:bg-orange-900/60 transition-colors">
-               <span className="text-xs md:text-sm font-bold">{t.medium}</span>
-               <span className="text-[10px] md:text-xs opacity-70">10m</span>
-            </button>
-            <button onClick={(e) => { e.stopPropagation(); handleSRS('good'); }} className="flex flex-col items-center justify-center p-2 md:p-3 rounded-xl bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/60 transition-colors">
-               <span className="text-xs md:text-sm font-bold">{t.good}</span>
-               <span className="text-[10px] md:text-xs opacity-70">1d</span>
-            </button>
-            <button onClick={(e) => { e.stopPropagation(); handleSRS('easy'); }} className="flex flex-col items-center justify-center p-2 md:p-3 rounded-xl bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300 hover:bg-green-200 dark:hover:bg-green-900/60 transition-colors">
-               <span className="text-xs md:text-sm font-bold">{t.easy}</span>
-               <span className="text-[10px] md:text-xs opacity-70">4d</span>
-            </button>
+            {(['again', 'hard', 'good', 'easy'] as ReviewRating[]).map(rating => (
+              <button key={rating} onClick={(e) => { e.stopPropagation(); handleRate(rating); }} className={`flex flex-col items-center justify-center p-2 md:p-3 rounded-xl transition-colors ${RATING_STYLES[rating]}`}>
+                 <span className="text-xs md:text-sm font-bold">{t[rating]}</span>
+                 {intervals && <span className="text-[10px] md:text-xs opacity-70" dir="ltr">{intervals[rating]}</span>}
+              </button>
+            ))}
           </div>
       ) : (
           <div className="flex items-center space-x-4 space-x-reverse mt-6 md:mt-8 w-full justify-between px-4">
-            <button 
-            onClick={(e) => { e.stopPropagation(); handlePrev(); }}
+            <button
+            onClick={(e) => { e.stopPropagation(); rotate(-1); }}
             className="p-3 md:p-4 rounded-full bg-white dark:bg-slate-800 shadow-md border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-primary-600 dark:hover:text-primary-400 transition-all active:scale-95"
             >
             <ChevronRight size={20} className="md:w-6 md:h-6" />
             </button>
             <span className="text-slate-400 dark:text-slate-500 text-xs md:text-sm text-center">{language === 'ar' ? 'اضغط على البطاقة' : 'Tap card to flip'}</span>
-            <button 
-            onClick={(e) => { e.stopPropagation(); handleNext(); }}
+            <button
+            onClick={(e) => { e.stopPropagation(); rotate(1); }}
+            title={t.skipCard}
             className="p-3 md:p-4 rounded-full bg-white dark:bg-slate-800 shadow-md border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-primary-600 dark:hover:text-primary-400 transition-all active:scale-95"
             >
             <ChevronLeft size={20} className="md:w-6 md:h-6" />
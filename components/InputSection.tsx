@@ -1,6 +1,6 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { FileText, Link, Type, Upload, Loader2, Sparkles, File as FileIcon, X, BrainCircuit, Book, Music, Video, Zap, Infinity, ArrowRight, Wand2, Calculator, BarChart3, PieChart } from 'lucide-react';
+import { FileText, Link, Type, Upload, Loader2, Sparkles, File as FileIcon, X, BrainCircuit, Book, Music, Video, Zap, Infinity, ArrowRight, Wand2, Calculator, BarChart3, PieChart, Filter } from 'lucide-react';
 import { InputMode, QuizSettings, QuestionType, Difficulty, FileData, AppLanguage } from '../types';
 import { translations } from '../utils/translations';
 
@@ -341,6 +341,27 @@ export const InputSection: React.FC<InputSectionProps> = ({ onGenerate, onGenera
                     <div className="w-11 h-6 bg-slate-300 dark:bg-slate-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:right-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
                   </label>
                </div>
+
+               <div className="flex items-center justify-between bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 rounded-2xl p-3 md:p-4 hover:shadow-md transition-shadow">
+                  <div className="flex items-center gap-3">
+                     <div className="bg-white dark:bg-slate-700 p-2 md:p-2.5 rounded-xl shadow-sm text-emerald-600 dark:text-emerald-300">
+                        <Filter size={20} className="md:w-[22px] md:h-[22px]" />
+                     </div>
+                     <div>
+                        <h3 className="font-bold text-slate-800 dark:text-slate-200 text-sm">{t.onlyNewQuestions}</h3>
+                        <p className="text-slate-500 dark:text-slate-400 text-[10px] font-bold">{t.onlyNewQuestionsDesc}</p>
+                     </div>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input 
+                      type="checkbox" 
+                      className="sr-only peer"
+                      checked={settings.onlyNewQuestions || false}
+                      onChange={(e) => setSettings({...settings, onlyNewQuestions: e.target.checked})} 
+                    />
+                    <div className="w-11 h-6 bg-slate-300 dark:bg-slate-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:right-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-600"></div>
+                  </label>
+               </div>
            </div>
 
            <div className="mt-4 md:mt-6 space-y-4 md:space-y-6 animate-fade-in-up">
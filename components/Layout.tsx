@@ -1,9 +1,12 @@
 
 import React, { useEffect, useState } from 'react';
-import { BookOpen, GraduationCap, LayoutDashboard, Menu, X, BrainCircuit, MessageCircle, Star, Award, Moon, Sun, Settings, CalendarClock } from 'lucide-react';
+import { BookOpen, GraduationCap, LayoutDashboard, Menu, X, BrainCircuit, MessageCircle, Star, Award, Moon, Sun, Settings, CalendarClock, WifiOff, Layers, Flame } from 'lucide-react';
 import { UserProfile, AppLanguage } from '../types';
 import { PomodoroTimer } from './PomodoroTimer';
 import { translations } from '../utils/translations';
+import { ServerStatus } from '../services/geminiService';
+import { SubjectCount } from '../utils/reviewQueue';
+import { startOfDay } from '../utils/srs';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -14,9 +17,12 @@ interface LayoutProps {
   toggleDarkMode: () => void;
   onOpenSettings: () => void;
   language: AppLanguage;
+  serverStatus?: ServerStatus;
+  dueSubjects?: SubjectCount[]; // Cards due today per subject, for the "Due today" badge and menu
+  onReviewSubject?: (subject: string | null) => void;
 }
 
-export const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveView, userProfile, darkMode, toggleDarkMode, onOpenSettings, language }) => {
+export const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveView, userProfile, darkMode, toggleDarkMode, onOpenSettings, language, serverStatus, dueSubjects = [], onReviewSubject }) => {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [scrolled, setScrolled] = useState(false);
   const t = translations[language];
@@ -30,8 +36,11 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveV
   const xpPerLevel = 1000;
   const currentLevelXP = userProfile ? userProfile.xp % xpPerLevel : 0;
   const progressPercent = (currentLevelXP / xpPerLevel) * 100;
+  const dueTotal = dueSubjects.reduce((sum, s) => sum + s.count, 0);
+  // A streak last extended before yesterday is already broken, even if the profile still holds it.
+  const streak = userProfile && Math.round((startOfDay(Date.now()) - startOfDay(userProfile.lastStudyDate)) / (24 * 60 * 60 * 1000)) <= 1 ? userProfile.streak : 0;
 
-  const NavItem = ({ view, icon: Icon, label }: { view: string; icon: any; label: string }) => (
+  const NavItem = ({ view, icon: Icon, label, badge }: { view: string; icon: any; label: string; badge?: number }) => (
     <button
       onClick={() => {
         setActiveView(view);
@@ -45,12 +54,30 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveV
     >
       <Icon size={18} className={`transition-transform duration-300 ${activeView === view ? 'animate-bounce' : 'group-hover:scale-110'}`} />
       <span>{label}</span>
+      {badge ? (
+        <span className={`min-w-[1.25rem] h-5 px-1.5 rounded-full text-[10px] leading-5 text-center ${activeView === view ? 'bg-white/25 text-white' : 'bg-red-500 text-white'}`}>{badge}</span>
+      ) : null}
       {activeView === view && (
         <span className="absolute -bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 bg-white rounded-full opacity-70"></span>
       )}
     </button>
   );
 
+  const SubjectLinks = () => (
+    <>
+      {dueSubjects.map(({ subject, count }) => (
+        <button
+          key={subject}
+          onClick={() => { onReviewSubject?.(subject); setMobileMenuOpen(false); }}
+          className="w-full flex items-center justify-between gap-3 px-3 py-2 rounded-xl text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10 hover:text-primary-600 dark:hover:text-primary-300"
+        >
+          <span className="truncate">{subject}</span>
+          <span className="text-xs font-bold text-primary-600 dark:text-primary-300">{count}</span>
+        </button>
+      ))}
+    </>
+  );
+
   return (
     <div className={`min-h-screen flex flex-col transition-colors duration-500`}>
       <div 
@@ -76,6 +103,16 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveV
               <NavItem view="home" icon={BookOpen} label={t.new} />
               <NavItem view="dashboard" icon={LayoutDashboard} label={t.library} />
               <NavItem view="mistakes" icon={BrainCircuit} label={t.mistakes} />
+              <div className="relative group/due">
+                <NavItem view="due" icon={Layers} label={t.dueToday} badge={dueTotal} />
+                {dueSubjects.length > 0 && (
+                  <div className="absolute top-full start-0 pt-2 hidden group-hover/due:block z-50">
+                    <div className="glass-panel rounded-2xl shadow-xl p-2 w-64 max-h-80 overflow-y-auto custom-scrollbar">
+                      <SubjectLinks />
+                    </div>
+                  </div>
+                )}
+              </div>
               <NavItem view="review_plan" icon={CalendarClock} label={t.review} />
               <NavItem view="chat" icon={MessageCircle} label={t.assistant} />
             </div>
@@ -87,6 +124,12 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveV
                       <Award className="text-yellow-500 w-3 h-3 md:w-4 md:h-4" />
                       <span className="text-[10px] md:text-xs font-bold text-slate-700 dark:text-slate-300">Lvl {userProfile.level}</span>
                     </div>
+                    {streak > 0 && (
+                      <div className="flex items-center gap-0.5" title={t.studyStreak}>
+                        <Flame className="text-orange-500 w-3 h-3 md:w-4 md:h-4" />
+                        <span className="text-[10px] md:text-xs font-bold text-slate-700 dark:text-slate-300">{streak}</span>
+                      </div>
+                    )}
                     <div className="w-10 md:w-16 h-1 md:h-1.5 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
                       <div className="h-full bg-gradient-to-r from-yellow-400 to-orange-500 rounded-full" style={{ width: `${progressPercent}%` }}></div>
                     </div>
@@ -124,6 +167,12 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveV
             <NavItem view="home" icon={BookOpen} label={t.new} />
             <NavItem view="dashboard" icon={LayoutDashboard} label={t.library} />
             <NavItem view="mistakes" icon={BrainCircuit} label={t.mistakes} />
+            <NavItem view="due" icon={Layers} label={t.dueToday} badge={dueTotal} />
+            {dueSubjects.length > 0 && (
+              <div className="ps-8 -mt-1 max-h-40 overflow-y-auto custom-scrollbar">
+                <SubjectLinks />
+              </div>
+            )}
             <NavItem view="review_plan" icon={CalendarClock} label={t.review} />
             <NavItem view="chat" icon={MessageCircle} label={t.assistant} />
         </div>
@@ -131,6 +180,20 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveV
 
       <div className="h-24 md:h-28"></div>
 
+      {serverStatus && !serverStatus.online && (
+        <div className="max-w-7xl w-full mx-auto px-3 sm:px-6 lg:px-8 mb-2 relative z-10 print:hidden">
+          <div className="flex items-center gap-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200 rounded-2xl px-4 py-3 text-xs md:text-sm font-medium">
+            <WifiOff size={18} className="flex-shrink-0" />
+            <span className="flex-1">{t.offlineBanner}</span>
+            {serverStatus.pendingSaves > 0 && (
+              <span className="bg-amber-100 dark:bg-amber-800/50 px-2 py-0.5 rounded-full text-[10px] md:text-xs font-bold whitespace-nowrap">
+                {serverStatus.pendingSaves} {t.offlinePending}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
       <main className="flex-grow max-w-7xl w-full mx-auto px-3 sm:px-6 lg:px-8 py-2 md:py-4 relative z-10">
          <div key={activeView} className="animate-fade-in-up">
             {children}
@@ -1,10 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import { Brain, Sparkles, Rocket, Atom, Zap, Search, Star, Layers, Cpu, Coffee } from 'lucide-react';
+import { Brain, Sparkles, Rocket, Atom, Zap, Search, Star, Layers, Cpu, Coffee, X } from 'lucide-react';
 import { AppLanguage } from '../types';
+import { translations } from '../utils/translations';
 
 interface LoadingOverlayProps {
   language: AppLanguage;
+  progress?: { received: number; total: number; notice?: string } | null; // Streamed quiz generation; total 0 = unknown
+  onCancel?: () => void;
 }
 
 const ICONS = [Atom, Brain, Rocket, Zap, Search, Sparkles, Layers, Cpu, Star];
@@ -70,7 +73,7 @@ const shuffleArray = (array: string[]) => {
   return newArray;
 };
 
-export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ language }) => {
+export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ language, progress, onCancel }) => {
   const [messages, setMessages] = useState<string[]>([]);
   const [messageIndex, setMessageIndex] = useState(0);
   const [iconIndex, setIconIndex] = useState(0);
@@ -99,6 +102,11 @@ export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ language }) => {
 
   const CurrentIcon = ICONS[iconIndex];
   const currentMessage = messages.length > 0 ? messages[messageIndex] : "";
+  const progressPercent = progress && progress.total > 0 ? Math.min(100, Math.round((progress.received / progress.total) * 100)) : 0;
+  const t = translations[language];
+  const progressLabel = progress
+    ? `${progress.received}${progress.total > 0 ? ` ${t.questionsOf} ${progress.total}` : ''} ${t.questionsReady}`
+    : '';
 
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/90 backdrop-blur-xl transition-all duration-500">
@@ -134,14 +142,26 @@ export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ language }) => {
 
         {/* Content Box */}
         <div className="text-center space-y-4 px-4 relative z-10 w-full">
-          {/* Animated Text */}
+          {/* Animated Text (or live question count while a quiz streams in) */}
           <div className="min-h-[80px] flex items-center justify-center">
-            <h3 
-                key={messageIndex} // Key change triggers animation
-                className={`text-lg md:text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-white via-slate-200 to-slate-400 animate-in fade-in slide-in-from-bottom-2 duration-700 leading-relaxed ${messageIndex === 0 ? 'text-primary-300 drop-shadow-md' : ''}`}
-            >
-                {currentMessage}
-            </h3>
+            {progress ? (
+              <div className="w-full space-y-3">
+                <h3 className="text-lg md:text-2xl font-bold text-white leading-relaxed">{progressLabel}</h3>
+                {progress.total > 0 && (
+                  <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                    <div className="h-full bg-gradient-to-r from-primary-500 to-secondary-500 transition-all duration-500" style={{ width: `${progressPercent}%` }}></div>
+                  </div>
+                )}
+                {progress.notice && <p className="text-xs text-amber-300 leading-relaxed">{progress.notice}</p>}
+              </div>
+            ) : (
+              <h3 
+                  key={messageIndex} // Key change triggers animation
+                  className={`text-lg md:text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-white via-slate-200 to-slate-400 animate-in fade-in slide-in-from-bottom-2 duration-700 leading-relaxed ${messageIndex === 0 ? 'text-primary-300 drop-shadow-md' : ''}`}
+              >
+                  {currentMessage}
+              </h3>
+            )}
           </div>
 
           <div className="flex items-center justify-center gap-2 text-slate-400 text-sm">
@@ -149,9 +169,19 @@ export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ language }) => {
              <div className="w-2 h-2 bg-primary-500 rounded-full animate-bounce delay-75"></div>
              <div className="w-2 h-2 bg-primary-500 rounded-full animate-bounce delay-150"></div>
              <span className="tracking-widest uppercase text-xs font-semibold ml-2">
-                {language === 'ar' ? 'جاري المعالجة' : 'Processing'}
+                {t.processing}
              </span>
           </div>
+
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="mx-auto mt-2 flex items-center gap-2 px-5 py-2 rounded-full border border-white/10 bg-white/5 text-slate-300 text-sm font-semibold hover:bg-white/10 hover:text-white transition-colors"
+            >
+              <X size={16} />
+              {t.cancelGeneration}
+            </button>
+          )}
         </div>
 
       </div>
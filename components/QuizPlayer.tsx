@@ -1,9 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
-import { CheckCircle2, XCircle, ArrowRight, ArrowLeft, RefreshCw, HelpCircle, Save, BrainCircuit, BarChart3, Volume2, SkipForward, Loader2, AlertTriangle, Share2, Home, Pause, Play } from 'lucide-react';
+import { CheckCircle2, XCircle, ArrowRight, ArrowLeft, RefreshCw, HelpCircle, Save, BrainCircuit, BarChart3, Volume2, SkipForward, Loader2, AlertTriangle, Share2, Home, Pause, Play, BookOpen, MinusCircle, Zap, MessageCircleQuestion } from 'lucide-react';
 import { Quiz, Question, QuestionType, GradingResult, AppLanguage } from '../types';
 import { gradeOpenEndedAnswer } from '../services/geminiService';
 import { translations } from '../utils/translations';
+import { getQuestionCredit, formatScore, preGradeOpenEndedAnswer } from '../utils/grading';
 
 const useInterval = (callback: () => void, delay: number | null) => {
   const savedCallback = React.useRef<(() => void) | null>(null);
@@ -19,9 +20,12 @@ interface QuizPlayerProps {
   onComplete: (quiz: Quiz) => void;
   onExit: () => void;
   language: AppLanguage;
+  isLoadingMore?: boolean; // More questions are still streaming in
+  onStopLoading?: () => void; // Stops the rest of the generation; the questions so far are kept
+  onAskAboutQuestion?: (question: Question, userAnswer?: string) => void;
 }
 
-export const QuizPlayer: React.FC<QuizPlayerProps> = ({ quiz, onComplete, onExit, language }) => {
+export const QuizPlayer: React.FC<QuizPlayerProps> = ({ quiz, onComplete, onExit, language, isLoadingMore = false, onStopLoading, onAskAboutQuestion }) => {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<string, string>>({});
   const [showExplanation, setShowExplanation] = useState(false);
@@ -30,6 +34,7 @@ export const QuizPlayer: React.FC<QuizPlayerProps> = ({ quiz, onComplete, onExit
   const [openEndedAnswer, setOpenEndedAnswer] = useState('');
   const [isGrading, setIsGrading] = useState(false);
   const [gradingResults, setGradingResults] = useState<Record<string, GradingResult>>({});
+  const [gradingFailedId, setGradingFailedId] = useState<string | null>(null); // AI grading failed; the answer waits for a retry
   const [animatingOut, setAnimatingOut] = useState(false); // For transition
   const [isPaused, setIsPaused] = useState(false);
   const t = translations[language];
@@ -55,22 +60,45 @@ export const QuizPlayer: React.FC<QuizPlayerProps> = ({ quiz, onComplete, onExit
 
   const handleOpenEndedSubmit = async () => {
     if (!openEndedAnswer.trim() || answers[currentQuestion.id] || isPaused) return;
+
+    // Obvious answers are settled locally and don't count against the daily AI limit.
+    const local = preGradeOpenEndedAnswer(openEndedAnswer, currentQuestion, {
+        exact: t.localGradeExact, covered: t.localGradeCovered, notCovered: t.localGradeNotCovered, noAnswer: t.localGradeNoAnswer,
+        pointCovered: t.pointCovered, pointMissing: t.pointMissing,
+    });
+    if (local) {
+        setGradingResults(prev => ({ ...prev, [currentQuestion.id]: local }));
+        setAnswers({ ...answers, [currentQuestion.id]: openEndedAnswer });
+        setShowExplanation(true);
+        return;
+    }
+
     setIsGrading(true);
+    setGradingFailedId(null);
     try {
-        const result = await gradeOpenEndedAnswer(openEndedAnswer, currentQuestion.correctAnswer);
+        const result = await gradeOpenEndedAnswer(openEndedAnswer, currentQuestion);
         setGradingResults(prev => ({ ...prev, [currentQuestion.id]: result }));
-    } catch (e) { console.error(e); }
+    } catch (e) {
+        console.error(e);
+        // Offline or AI failure: the normalized local check above couldn't settle this answer, so it
+        // stays ungraded (not scored 0 and recorded as a mistake) until the student retries.
+        setGradingFailedId(currentQuestion.id);
+        setIsGrading(false);
+        return;
+    }
     setIsGrading(false);
     setAnswers({ ...answers, [currentQuestion.id]: openEndedAnswer });
     setShowExplanation(true);
   };
 
   const nextQuestion = () => {
+    if (isLastQuestion && isLoadingMore) return;
     setAnimatingOut(true);
     setTimeout(() => {
         setAnimatingOut(false);
         setShowExplanation(false);
         setOpenEndedAnswer('');
+        setGradingFailedId(null);
         try { if (window.speechSynthesis) window.speechSynthesis.cancel(); } catch(e) {}
         
         if (isLastQuestion) {
@@ -86,17 +114,14 @@ export const QuizPlayer: React.FC<QuizPlayerProps> = ({ quiz, onComplete, onExit
       let score = 0;
       const finalQuestions = quiz.questions.map(q => {
           const userAnswer = answers[q.id];
-          let isCorrect = false;
-          if (q.type === QuestionType.OPEN_ENDED) {
-              const grading = gradingResults[q.id];
-              isCorrect = grading?.verdict === 'Correct';
-          } else {
-              isCorrect = userAnswer === q.correctAnswer;
-          }
-          if (isCorrect) score++;
-          return { ...q, userAnswer: userAnswer, isCorrect: isCorrect, gradingResult: gradingResults[q.id] };
+          const grading = gradingResults[q.id];
+          // Open-ended answers earn partial credit from the rubric; anything short of "Correct" is reviewed as a mistake.
+          const credit = getQuestionCredit(q, userAnswer, grading);
+          const isCorrect = q.type === QuestionType.OPEN_ENDED ? grading?.verdict === 'Correct' : credit === 1;
+          score += credit;
+          return { ...q, userAnswer: userAnswer, isCorrect: isCorrect, credit, gradingResult: grading };
       });
-      const updatedQuiz: Quiz = { ...quiz, questions: finalQuestions, completed: true, score, timeSpentSeconds: elapsedTime };
+      const updatedQuiz: Quiz = { ...quiz, questions: finalQuestions, completed: true, score: Math.round(score * 100) / 100, timeSpentSeconds: elapsedTime };
       onComplete(updatedQuiz);
   };
 
@@ -112,8 +137,9 @@ export const QuizPlayer: React.FC<QuizPlayerProps> = ({ quiz, onComplete, onExit
   };
 
   if (isFinished) {
-    const score = quiz.questions.filter(q => q.isCorrect).length;
+    const score = quiz.score ?? quiz.questions.filter(q => q.isCorrect).length;
     const percentage = Math.round((score / quiz.questions.length) * 100);
+    const gradedOpenEnded = quiz.questions.filter(q => q.type === QuestionType.OPEN_ENDED && q.gradingResult);
 
     return (
       <div className="max-w-2xl mx-auto py-10 animate-scale-in">
@@ -136,7 +162,7 @@ export const QuizPlayer: React.FC<QuizPlayerProps> = ({ quiz, onComplete, onExit
                    <div className="text-[9px] md:text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">{t.score}</div>
                 </div>
                 <div className="bg-slate-50 dark:bg-slate-800/50 p-3 md:p-4 rounded-3xl border border-slate-200 dark:border-slate-700">
-                   <div className="text-2xl md:text-3xl font-black text-green-600">{score}/{quiz.questions.length}</div>
+                   <div className="text-2xl md:text-3xl font-black text-green-600">{formatScore(score)}/{quiz.questions.length}</div>
                    <div className="text-[9px] md:text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">{t.correct}</div>
                 </div>
                 <div className="bg-slate-50 dark:bg-slate-800/50 p-3 md:p-4 rounded-3xl border border-slate-200 dark:border-slate-700">
@@ -145,6 +171,21 @@ export const QuizPlayer: React.FC<QuizPlayerProps> = ({ quiz, onComplete, onExit
                 </div>
              </div>
 
+             {gradedOpenEnded.length > 0 && (
+                <div className="mb-8 md:mb-10 text-start space-y-3">
+                   <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest">{t.rubricBreakdown}</h3>
+                   {gradedOpenEnded.map(q => (
+                      <div key={q.id} className="bg-slate-50 dark:bg-slate-800/50 p-4 rounded-2xl border border-slate-200 dark:border-slate-700">
+                         <div className="flex justify-between items-start gap-3 mb-2">
+                            <p className="font-bold text-slate-800 dark:text-slate-100 text-sm">{q.question}</p>
+                            <span className="text-xs font-black text-primary-600 dark:text-primary-400 whitespace-nowrap">{q.gradingResult!.similarity_score}%</span>
+                         </div>
+                         <RubricBreakdown result={q.gradingResult!} />
+                      </div>
+                   ))}
+                </div>
+             )}
+
              <div className="flex flex-col sm:flex-row gap-3 md:gap-4 justify-center">
                 <button onClick={onExit} className="bg-slate-900 dark:bg-white text-white dark:text-slate-900 px-6 py-3.5 md:px-8 md:py-4 rounded-2xl font-bold hover:scale-105 transition-all shadow-xl flex items-center justify-center gap-2">
                   <Home size={20} /> {t.home}
@@ -170,10 +211,16 @@ export const QuizPlayer: React.FC<QuizPlayerProps> = ({ quiz, onComplete, onExit
          </button>
          
          <div className="flex flex-col items-center flex-1 mx-4">
-             <div className="text-[10px] md:text-xs font-black text-slate-400 uppercase tracking-widest mb-1">{t.question} {currentQuestionIndex + 1} / {quiz.questions.length}</div>
+             <div className="text-[10px] md:text-xs font-black text-slate-400 uppercase tracking-widest mb-1">{t.question} {currentQuestionIndex + 1} / {quiz.questions.length}{isLoadingMore ? '+' : ''}</div>
              <div className="w-full max-w-xs h-2 bg-slate-200 dark:bg-slate-800 rounded-full overflow-hidden">
                 <div className="h-full bg-gradient-to-r from-primary-500 to-secondary-500 transition-all duration-500 ease-out" style={{ width: `${progressPercentage}%` }}></div>
              </div>
+             {isLoadingMore && onStopLoading && (
+                <button onClick={onStopLoading} className="mt-2 flex items-center gap-1.5 text-xs font-bold text-slate-400 hover:text-red-500 transition-colors">
+                   <Loader2 size={12} className="animate-spin" />
+                   <span>{t.stopLoadingMore}</span>
+                </button>
+             )}
          </div>
 
          <div className="flex items-center gap-2">
@@ -249,7 +296,40 @@ export const QuizPlayer: React.FC<QuizPlayerProps> = ({ quiz, onComplete, onExit
                         <span>{t.explanation}</span>
                      </div>
                      <p className="text-slate-700 dark:text-slate-300 leading-relaxed text-sm">{currentQuestion.explanation}</p>
+                     {currentQuestion.sourceSection && (
+                        <p className="mt-3 flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+                           <BookOpen size={14} />
+                           <span>{t.sourceSection}: {currentQuestion.sourceSection}</span>
+                        </p>
+                     )}
+                     {onAskAboutQuestion && (
+                        <button
+                           onClick={() => onAskAboutQuestion(currentQuestion, answers[currentQuestion.id] === 'SKIPPED' ? undefined : answers[currentQuestion.id])}
+                           className="mt-3 flex items-center gap-1.5 text-xs font-bold text-primary-600 dark:text-primary-400 hover:underline"
+                        >
+                           <MessageCircleQuestion size={14} />
+                           <span>{t.askAboutQuestion}</span>
+                        </button>
+                     )}
                   </div>
+
+                  {currentGradingResult && (
+                     <div className="mt-4 bg-white/70 dark:bg-slate-800/70 p-4 md:p-6 rounded-2xl border border-slate-200 dark:border-slate-700">
+                        <div className="flex justify-between items-center mb-2">
+                           <span className={`font-bold text-sm ${currentGradingResult.verdict === 'Correct' ? 'text-green-600' : currentGradingResult.verdict === 'Partial' ? 'text-amber-600' : 'text-red-500'}`}>
+                              {currentGradingResult.verdict === 'Correct' ? t.verdictCorrect : currentGradingResult.verdict === 'Partial' ? t.verdictPartial : t.verdictIncorrect}
+                           </span>
+                           <span className="flex items-center gap-2 text-xs font-black text-slate-500">
+                              {currentGradingResult.gradedLocally && (
+                                 <span className="flex items-center gap-1 font-bold text-emerald-600 dark:text-emerald-400"><Zap size={12} /> {t.gradedLocally}</span>
+                              )}
+                              {currentGradingResult.similarity_score}%
+                           </span>
+                        </div>
+                        <p className="text-slate-700 dark:text-slate-300 leading-relaxed text-sm mb-3">{currentGradingResult.feedback}</p>
+                        <RubricBreakdown result={currentGradingResult} />
+                     </div>
+                  )}
                </div>
             )}
          </div>
@@ -295,22 +375,42 @@ export const QuizPlayer: React.FC<QuizPlayerProps> = ({ quiz, onComplete, onExit
                   className="w-full h-40 md:h-48 p-4 md:p-5 rounded-3xl border-2 border-slate-200 dark:border-slate-700 bg-white/80 dark:bg-slate-800/80 focus:border-primary-500 focus:ring-4 focus:ring-primary-500/10 resize-none shadow-sm transition-all"
                   disabled={isGrading || isPaused}
                 />
+                {gradingFailedId === currentQuestion.id && !isGrading && (
+                  <div className="flex gap-2 p-3 rounded-2xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-xs md:text-sm text-amber-800 dark:text-amber-200">
+                    <AlertTriangle size={18} className="flex-shrink-0" />
+                    <span>{t.gradingUnavailable}</span>
+                  </div>
+                )}
                 <button onClick={handleOpenEndedSubmit} disabled={!openEndedAnswer.trim() || isGrading || isPaused}
                   className="w-full py-3.5 md:py-4 bg-gradient-to-r from-primary-600 to-secondary-600 text-white rounded-2xl font-bold hover:shadow-lg disabled:opacity-50 flex items-center justify-center gap-2 transition-transform active:scale-95"
                 >
-                  {isGrading ? <Loader2 className="animate-spin" /> : <BrainCircuit />}
-                  {isGrading ? t.grading : t.confirm}
+                  {isGrading ? <Loader2 className="animate-spin" /> : gradingFailedId === currentQuestion.id ? <RefreshCw /> : <BrainCircuit />}
+                  {isGrading ? t.grading : gradingFailedId === currentQuestion.id ? t.retryGrading : t.confirm}
                 </button>
+                {gradingFailedId === currentQuestion.id && !isGrading && (
+                  <button onClick={handleSkip} className="w-full text-center py-2 text-slate-400 hover:text-slate-600 text-sm font-bold transition-colors">
+                    {t.skip}
+                  </button>
+                )}
               </div>
             )}
             
             {showExplanation && (
                 <div className="pt-2 md:pt-4 animate-fade-in-up">
-                    <button onClick={nextQuestion}
-                        className="w-full py-3.5 md:py-4 rounded-2xl font-bold text-lg flex items-center justify-center space-x-2 space-x-reverse transition-all duration-300 bg-slate-900 dark:bg-white text-white dark:text-slate-900 shadow-xl hover:shadow-2xl hover:scale-[1.02]"
+                    <button onClick={nextQuestion} disabled={isLastQuestion && isLoadingMore}
+                        className="w-full py-3.5 md:py-4 rounded-2xl font-bold text-lg flex items-center justify-center space-x-2 space-x-reverse transition-all duration-300 bg-slate-900 dark:bg-white text-white dark:text-slate-900 shadow-xl hover:shadow-2xl hover:scale-[1.02] disabled:opacity-60 disabled:hover:scale-100"
                     >
-                        <span>{isLastQuestion ? t.results : t.next}</span>
-                        <ArrowLeft size={20} />
+                        {isLastQuestion && isLoadingMore ? (
+                            <>
+                                <Loader2 size={20} className="animate-spin" />
+                                <span>{t.loadingMoreQuestions}</span>
+                            </>
+                        ) : (
+                            <>
+                                <span>{isLastQuestion ? t.results : t.next}</span>
+                                <ArrowLeft size={20} />
+                            </>
+                        )}
                     </button>
                 </div>
             )}
@@ -326,6 +426,25 @@ export const QuizPlayer: React.FC<QuizPlayerProps> = ({ quiz, onComplete, onExit
   );
 };
 
+const RubricBreakdown = ({ result }: { result: GradingResult }) => {
+  if (!result.rubric || result.rubric.length === 0) return null;
+  return (
+    <ul className="space-y-2">
+      {result.rubric.map((r, idx) => (
+        <li key={idx} className="flex items-start gap-2 text-xs md:text-sm">
+          {r.awarded >= 1 ? <CheckCircle2 size={16} className="text-green-500 flex-shrink-0 mt-0.5" />
+            : r.awarded > 0 ? <MinusCircle size={16} className="text-amber-500 flex-shrink-0 mt-0.5" />
+            : <XCircle size={16} className="text-red-500 flex-shrink-0 mt-0.5" />}
+          <div>
+            <span className="font-semibold text-slate-800 dark:text-slate-200">{r.point}</span>
+            {r.feedback && <span className="text-slate-500 dark:text-slate-400"> — {r.feedback}</span>}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
 const TrophyIcon = ({ percentage }: { percentage: number }) => {
   if (percentage >= 80) return <div className="text-5xl md:text-6xl animate-bounce">🏆</div>;
   if (percentage >= 50) return <div className="text-5xl md:text-6xl animate-pulse">⭐</div>;
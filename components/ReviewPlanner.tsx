@@ -1,9 +1,11 @@
 
-import React, { useState } from 'react';
-import { Calendar, Brain, Loader2, AlertTriangle, Zap, BookOpen, CalendarPlus, Download, ExternalLink, RefreshCw } from 'lucide-react';
-import { generateSpacedRepetitionSchedule } from '../services/geminiService';
-import { CalendarEvent, AppLanguage } from '../types';
+import React, { useEffect, useState } from 'react';
+import { Calendar, Loader2, AlertTriangle, Zap, BookOpen, CalendarPlus, Download, RefreshCw, Plus, Settings2, Sparkles, X, RotateCcw, CheckCircle2, Circle } from 'lucide-react';
+import { writeReviewNotes } from '../services/geminiService';
+import { CalendarEvent, AppLanguage, PlannedReview, ReviewPlan, ReviewPlanSettings } from '../types';
 import { translations } from '../utils/translations';
+import { INTERVAL_PRESETS, scheduleTopic, parseIntervals, todayIso, rescheduleMissed } from '../utils/reviewSchedule';
+import { StudyCalendar } from './StudyCalendar';
 
 declare global {
   interface Window {
@@ -12,38 +14,112 @@ declare global {
 }
 
 interface ReviewPlannerProps {
+    plan: ReviewPlan;
+    onUpdatePlan: (update: (plan: ReviewPlan) => ReviewPlan) => void;
+    onToggleReviewDone: (id: string) => void;
     onOpenSettings?: () => void;
+    examPlanner?: React.ReactNode; // Shown in the "Exam countdown" mode
     language: AppLanguage;
 }
 
-export const ReviewPlanner: React.FC<ReviewPlannerProps> = ({ onOpenSettings, language }) => {
-    const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+const generateId = () => {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2);
+};
+
+// 2023-01-01 was a Sunday, so day i of that week is weekday i.
+const weekdayName = (day: number, language: AppLanguage) =>
+    new Date(Date.UTC(2023, 0, 1 + day)).toLocaleDateString(language === 'ar' ? 'ar-EG' : 'en-US', { weekday: 'short', timeZone: 'UTC' });
+
+export const ReviewPlanner: React.FC<ReviewPlannerProps> = ({ plan, onUpdatePlan, onToggleReviewDone, onOpenSettings, examPlanner, language }) => {
+    const [mode, setMode] = useState<'reviews' | 'exam'>('reviews');
+    const [selectedDate, setSelectedDate] = useState(todayIso());
     const [topicInput, setTopicInput] = useState('');
-    const [schedule, setSchedule] = useState<CalendarEvent[]>([]);
+    const [useAiNotes, setUseAiNotes] = useState(false);
+    const [showSettings, setShowSettings] = useState(false);
+    const [calendarView, setCalendarView] = useState<'month' | 'week' | 'list'>('month');
+    const [intervalsInput, setIntervalsInput] = useState(plan.settings.intervals.join(', '));
     const [isLoading, setIsLoading] = useState(false);
     const [isSyncing, setIsSyncing] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const t = translations[language];
+    const schedule = plan.reviews;
+    const topics = [...new Set(plan.reviews.map(r => r.topic))];
+    const presetLabels: Record<keyof typeof INTERVAL_PRESETS, string> = {
+        standard: t.presetStandard, intensive: t.presetIntensive, relaxed: t.presetRelaxed
+    };
+
+    // Sessions missed since the plan was last open move forward before anything is shown.
+    useEffect(() => {
+        onUpdatePlan(prev => rescheduleMissed(prev, todayIso()));
+    }, []);
+
+    const updateSettings = (changes: Partial<ReviewPlanSettings>) =>
+        onUpdatePlan(prev => ({ ...prev, settings: { ...prev.settings, ...changes } }));
+
+    const handleIntervalsChange = (text: string) => {
+        setIntervalsInput(text);
+        const intervals = parseIntervals(text);
+        if (intervals) updateSettings({ intervals });
+    };
+
+    const toggleWeekday = (day: number) => {
+        const blocked = plan.settings.blockedWeekdays;
+        if (blocked.includes(day)) updateSettings({ blockedWeekdays: blocked.filter(d => d !== day) });
+        else if (blocked.length < 6) updateSettings({ blockedWeekdays: [...blocked, day].sort() });
+    };
 
-    const handleCalculate = async () => {
-        if (!topicInput.trim()) {
+    // Dates are placed locally and instantly; the AI, when asked, only rewrites the descriptions.
+    const handleAddTopic = async () => {
+        const topic = topicInput.trim();
+        if (!topic) {
             setError(language === 'ar' ? "يرجى إدخال اسم الموضوع." : "Please enter a topic.");
             return;
         }
+        if (!parseIntervals(intervalsInput)) {
+            setError(t.invalidIntervals);
+            return;
+        }
 
-        setIsLoading(true);
         setError(null);
-        setSchedule([]);
+        // Adding a topic that is already planned replaces its reviews.
+        const others = plan.reviews.filter(r => r.topic !== topic);
+        const reviews = scheduleTopic(topic, selectedDate, plan.settings, others, language, generateId);
+        onUpdatePlan(prev => ({ ...prev, reviews: [...prev.reviews.filter(r => r.topic !== topic), ...reviews] }));
+        setTopicInput('');
+        if (!useAiNotes) return;
+
+        setIsLoading(true);
         try {
-            const result = await generateSpacedRepetitionSchedule(selectedDate, topicInput.trim());
-            setSchedule(result);
+            const notes = await writeReviewNotes(topic, reviews, language);
+            const byId = new Map(reviews.map((r, i) => [r.id, notes[i]]));
+            onUpdatePlan(prev => ({
+                ...prev,
+                reviews: prev.reviews.map(r => byId.has(r.id) ? { ...r, description: byId.get(r.id)! } : r)
+            }));
         } catch (e: any) {
-            setError(e.message || "An unknown error occurred.");
+            setError(`${t.reviewNotesFailed} ${e.message || ''}`.trim());
         } finally {
             setIsLoading(false);
         }
     };
 
+    const handleMoveReview = (id: string, date: string) =>
+        onUpdatePlan(prev => ({ ...prev, reviews: prev.reviews.map(r => r.id === id ? { ...r, start: date, rescheduledFrom: undefined } : r) }));
+
+    const handleRemoveTopic = (topic: string) =>
+        onUpdatePlan(prev => ({ ...prev, reviews: prev.reviews.filter(r => r.topic !== topic) }));
+
+    // Places every topic again with the current settings, in the order they were added.
+    const handleRescheduleAll = () => {
+        onUpdatePlan(prev => {
+            const rescheduled = [...new Set(prev.reviews.map(r => r.topic))].reduce<PlannedReview[]>((placed, topic) => {
+                const studyDate = prev.reviews.find(r => r.topic === topic)!.studyDate;
+                return [...placed, ...scheduleTopic(topic, studyDate, prev.settings, placed, language, generateId)];
+            }, []);
+            return { ...prev, reviews: rescheduled };
+        });
+    };
+
     const downloadICS = (schedule: CalendarEvent[]) => {
         let icsContent = "BEGIN:VCALENDAR\nVERSION:2.0\nPRODID:-//StudyGenius//Review Plan//EN\nCALSCALE:GREGORIAN\n";
         schedule.forEach(event => {
@@ -177,7 +253,7 @@ export const ReviewPlanner: React.FC<ReviewPlannerProps> = ({ onOpenSettings, la
         window.open(gCalUrl.toString(), '_blank');
     };
     
-    const sortedSchedule = schedule.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+    const sortedSchedule = [...schedule].sort((a, b) => a.start.localeCompare(b.start));
     
     return (
         <div className="max-w-4xl mx-auto space-y-8 pb-24 md:pb-20 animate-in fade-in duration-500">
@@ -189,8 +265,22 @@ export const ReviewPlanner: React.FC<ReviewPlannerProps> = ({ onOpenSettings, la
                 <p className="text-lg md:text-xl text-slate-600 dark:text-slate-300 max-w-2xl mx-auto font-light px-4">
                     {t.schedulerDesc}
                 </p>
+                {examPlanner && (
+                    <div className="inline-flex bg-slate-100 dark:bg-slate-800 rounded-full p-1 text-sm font-bold">
+                        {(['reviews', 'exam'] as const).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setMode(option)}
+                                className={`px-4 py-1.5 rounded-full transition-colors ${mode === option ? 'bg-white dark:bg-slate-700 text-primary-600 dark:text-primary-300 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+                            >
+                                {option === 'reviews' ? t.spacedReviewsMode : t.examCountdownMode}
+                            </button>
+                        ))}
+                    </div>
+                )}
             </div>
 
+            {mode === 'exam' ? examPlanner : <>
             {/* Input Card */}
             <div className="glass-panel rounded-3xl p-6 md:p-8 shadow-2xl mx-2 space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-end">
@@ -222,26 +312,96 @@ export const ReviewPlanner: React.FC<ReviewPlannerProps> = ({ onOpenSettings, la
                         />
                     </div>
                 </div>
+
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <label className="flex items-center gap-2 text-sm font-medium text-slate-600 dark:text-slate-300 cursor-pointer select-none">
+                        <input type="checkbox" checked={useAiNotes} onChange={(e) => setUseAiNotes(e.target.checked)} className="rounded text-primary-600 focus:ring-primary-500" />
+                        <Sparkles size={16} className="text-secondary-500" />
+                        {t.aiReviewNotes}
+                    </label>
+                    <button
+                        onClick={() => setShowSettings(!showSettings)}
+                        className="flex items-center gap-2 text-sm font-bold text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400"
+                    >
+                        <Settings2 size={16} /> {t.planSettings}
+                    </button>
+                </div>
+
+                {showSettings && (
+                    <div className="rounded-2xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 p-4 md:p-5 space-y-5">
+                        <div className="space-y-2">
+                            <p className="text-sm font-bold text-slate-700 dark:text-slate-200">{t.intervalSequence}</p>
+                            <div className="flex flex-wrap gap-2">
+                                {(Object.keys(INTERVAL_PRESETS) as (keyof typeof INTERVAL_PRESETS)[]).map(preset => (
+                                    <button
+                                        key={preset}
+                                        onClick={() => handleIntervalsChange(INTERVAL_PRESETS[preset].join(', '))}
+                                        className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${plan.settings.intervals.join() === INTERVAL_PRESETS[preset].join() ? 'bg-primary-600 border-primary-600 text-white' : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:border-primary-400'}`}
+                                    >
+                                        {presetLabels[preset]}
+                                    </button>
+                                ))}
+                            </div>
+                            <input
+                                value={intervalsInput}
+                                onChange={(e) => handleIntervalsChange(e.target.value)}
+                                dir="ltr"
+                                className={`w-full p-2.5 rounded-xl border-2 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm font-mono ${parseIntervals(intervalsInput) ? 'border-slate-200 dark:border-slate-700' : 'border-red-400'}`}
+                            />
+                            <p className="text-xs text-slate-500 dark:text-slate-400">{t.intervalSequenceHint}</p>
+                        </div>
+
+                        <div className="space-y-2">
+                            <p className="text-sm font-bold text-slate-700 dark:text-slate-200">{t.blockedWeekdays}</p>
+                            <div className="flex flex-wrap gap-2">
+                                {[0, 1, 2, 3, 4, 5, 6].map(day => (
+                                    <button
+                                        key={day}
+                                        onClick={() => toggleWeekday(day)}
+                                        className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${plan.settings.blockedWeekdays.includes(day) ? 'bg-red-500 border-red-500 text-white line-through' : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:border-red-300'}`}
+                                    >
+                                        {weekdayName(day, language)}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="flex items-center justify-between gap-4">
+                            <label htmlFor="maxPerDay" className="text-sm font-bold text-slate-700 dark:text-slate-200">{t.maxReviewsPerDay}</label>
+                            <input
+                                id="maxPerDay"
+                                type="number"
+                                min={1}
+                                max={20}
+                                value={plan.settings.maxPerDay}
+                                onChange={(e) => updateSettings({ maxPerDay: Math.min(20, Math.max(1, Number(e.target.value) || 1)) })}
+                                className="w-20 p-2 rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-center font-bold"
+                            />
+                        </div>
+
+                        {topics.length > 0 && (
+                            <button onClick={handleRescheduleAll} className="flex items-center gap-2 text-sm font-bold text-primary-600 dark:text-primary-400 hover:underline">
+                                <RotateCcw size={14} /> {t.rescheduleAll}
+                            </button>
+                        )}
+                    </div>
+                )}
+
                 <button
-                    onClick={handleCalculate}
-                    disabled={isLoading}
-                    className="group relative w-full py-4 px-8 rounded-xl flex items-center justify-center space-x-3 space-x-reverse text-white text-lg font-bold transition-all duration-300 shadow-lg hover:shadow-2xl overflow-hidden active:scale-[0.98] bg-gradient-to-r from-primary-600 to-secondary-600 hover:scale-[1.01] disabled:bg-slate-400 disabled:cursor-not-allowed"
+                    onClick={handleAddTopic}
+                    className="group relative w-full py-4 px-8 rounded-xl flex items-center justify-center space-x-3 space-x-reverse text-white text-lg font-bold transition-all duration-300 shadow-lg hover:shadow-2xl overflow-hidden active:scale-[0.98] bg-gradient-to-r from-primary-600 to-secondary-600 hover:scale-[1.01]"
                 >
                      <div className="absolute inset-0 bg-white/20 translate-y-full group-hover:translate-y-0 transition-transform duration-300"></div>
-                     {isLoading ? (
-                        <Loader2 className="animate-spin" size={24} />
-                     ) : (
-                        <Brain size={24} />
-                     )}
-                     <span className="relative">{isLoading ? t.calculating : t.createPlan}</span>
+                     <Plus size={24} />
+                     <span className="relative">{t.addToPlan}</span>
                 </button>
             </div>
 
             {/* Results Section */}
             {isLoading && (
-                 <div className="text-center py-10 flex flex-col items-center justify-center">
-                    <Loader2 className="w-12 h-12 text-primary-500 animate-spin" />
-                    <p className="mt-4 text-slate-500 dark:text-slate-400">{t.generating}</p>
+                 <div className="flex items-center justify-center gap-3 text-slate-500 dark:text-slate-400">
+                    <Loader2 className="w-5 h-5 text-primary-500 animate-spin" />
+                    <p>{t.writingReviewNotes}</p>
                  </div>
             )}
             {error && (
@@ -255,6 +415,16 @@ export const ReviewPlanner: React.FC<ReviewPlannerProps> = ({ onOpenSettings, la
             )}
             {schedule.length > 0 && (
                 <div className="space-y-4 animate-in fade-in slide-in-from-bottom-5 duration-500">
+                    <div className="flex flex-wrap justify-center gap-2 px-2">
+                        {topics.map(topic => (
+                            <span key={topic} className="flex items-center gap-1 ps-3 pe-1 py-1 rounded-full text-sm font-bold text-white" style={{ backgroundColor: plan.reviews.find(r => r.topic === topic)?.color || '#8b5cf6' }}>
+                                {topic}
+                                <button onClick={() => handleRemoveTopic(topic)} title={t.removeTopic} className="p-1 rounded-full hover:bg-white/20">
+                                    <X size={12} />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
                     <div className="flex flex-col md:flex-row justify-center items-center gap-4 py-4">
                         <button 
                             onClick={handleDirectSync}
@@ -274,17 +444,41 @@ export const ReviewPlanner: React.FC<ReviewPlannerProps> = ({ onOpenSettings, la
                         </button>
                     </div>
                     
-                    {/* Vertical Timeline */}
+                    <div className="flex justify-center">
+                        <div className="flex bg-slate-100 dark:bg-slate-800 rounded-full p-1 text-sm font-bold">
+                            {(['month', 'week', 'list'] as const).map(view => (
+                                <button
+                                    key={view}
+                                    onClick={() => setCalendarView(view)}
+                                    className={`px-4 py-1.5 rounded-full transition-colors ${calendarView === view ? 'bg-white dark:bg-slate-700 text-primary-600 dark:text-primary-300 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+                                >
+                                    {view === 'month' ? t.monthView : view === 'week' ? t.weekView : t.listView}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {calendarView !== 'list' ? (
+                        <StudyCalendar
+                            reviews={schedule}
+                            mode={calendarView}
+                            blockedWeekdays={plan.settings.blockedWeekdays}
+                            onToggleDone={onToggleReviewDone}
+                            onMoveReview={handleMoveReview}
+                            language={language}
+                        />
+                    ) : (
+                    /* Vertical Timeline */
                     <div className="relative border-r-2 border-slate-200 dark:border-slate-700 mr-8 pt-4">
-                        {sortedSchedule.map((event, index) => (
-                            <div key={index} className="mb-8 flex items-start w-full">
+                        {sortedSchedule.map((event) => (
+                            <div key={event.id} className="mb-8 flex items-start w-full">
                                 <div className="absolute -right-5 z-10">
                                     <div 
                                       style={{ backgroundColor: event.color || '#8b5cf6' }}
                                       className="h-10 w-10 rounded-full text-white flex items-center justify-center font-bold ring-4 ring-slate-50 dark:ring-slate-950 flex-col leading-none"
                                     >
-                                        <span className="text-xs">{new Date(event.start).toLocaleString(language, { month: 'short' })}</span>
-                                        <span className="text-lg">{new Date(event.start).getDate()}</span>
+                                        <span className="text-xs">{new Date(`${event.start}T00:00:00Z`).toLocaleString(language, { month: 'short', timeZone: 'UTC' })}</span>
+                                        <span className="text-lg">{Number(event.start.slice(8))}</span>
                                     </div>
                                 </div>
                                 <div className="pr-12 w-full">
@@ -299,7 +493,12 @@ export const ReviewPlanner: React.FC<ReviewPlannerProps> = ({ onOpenSettings, la
                                               <span>{t.manualAdd}</span>
                                            </button>
                                        </div>
-                                       <h4 className="font-bold text-slate-800 dark:text-white text-lg">{event.title}</h4>
+                                       <h4 className={`font-bold text-slate-800 dark:text-white text-lg flex items-center gap-2 ${event.completedAt ? 'line-through opacity-60' : ''}`}>
+                                           <button onClick={() => onToggleReviewDone(event.id)} title={event.completedAt ? t.markNotDone : t.markDone} className="text-green-600 dark:text-green-400 flex-shrink-0">
+                                               {event.completedAt ? <CheckCircle2 size={20} /> : <Circle size={20} />}
+                                           </button>
+                                           {event.title}
+                                       </h4>
                                        <p className="text-sm text-slate-600 dark:text-slate-400">{event.description}</p>
                                     </div>
                                 </div>
@@ -316,8 +515,10 @@ export const ReviewPlanner: React.FC<ReviewPlannerProps> = ({ onOpenSettings, la
                                 </div>
                          </div>
                     </div>
+                    )}
                 </div>
             )}
+            </>}
         </div>
     );
 };
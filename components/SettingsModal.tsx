@@ -1,8 +1,9 @@
 
-import React, { useState } from 'react';
-import { X, Save, CheckCircle2, Cpu, Languages } from 'lucide-react';
-import { AppLanguage } from '../types';
+import React, { useState, useEffect } from 'react';
+import { X, Save, CheckCircle2, Cpu, Languages, Server, KeyRound, Link } from 'lucide-react';
+import { AppLanguage, AIProvider } from '../types';
 import { translations } from '../utils/translations';
+import { PROVIDER_PROFILES, getProviderSettings } from '../services/aiProviders';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -13,13 +14,36 @@ interface SettingsModalProps {
 
 export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, language, setLanguage }) => {
   const [saved, setSaved] = useState(false);
+  const [provider, setProvider] = useState<AIProvider>('gemini');
+  const [model, setModel] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [apiKey, setApiKey] = useState('');
   const t = translations[language];
 
+  useEffect(() => {
+    if (!isOpen) return;
+    const current = getProviderSettings();
+    setProvider(current.provider);
+    setModel(current.model);
+    setBaseUrl(current.baseUrl || '');
+    setApiKey(current.apiKey || '');
+  }, [isOpen]);
+
+  const handleProviderChange = (next: AIProvider) => {
+    setProvider(next);
+    setModel(localStorage.getItem(PROVIDER_PROFILES[next].modelStorageKey) || PROVIDER_PROFILES[next].defaultModel);
+    setApiKey(localStorage.getItem(`${next}_api_key`) || '');
+  };
+
   const handleSave = () => {
     try {
-      // Force provider to gemini and default model
-      localStorage.setItem('ai_provider', 'gemini');
-      localStorage.setItem('gemini_model', 'gemini-2.5-flash');
+      localStorage.setItem('ai_provider', provider);
+      localStorage.setItem(PROVIDER_PROFILES[provider].modelStorageKey, model.trim() || PROVIDER_PROFILES[provider].defaultModel);
+      if (provider === 'custom') localStorage.setItem('custom_base_url', baseUrl.trim());
+      if (provider !== 'gemini') {
+        if (apiKey.trim()) localStorage.setItem(`${provider}_api_key`, apiKey.trim());
+        else localStorage.removeItem(`${provider}_api_key`);
+      }
       
       setSaved(true);
       setTimeout(() => {
@@ -68,6 +92,71 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, l
             </div>
           </div>
 
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1">
+              <Server size={14} /> {t.aiProvider}
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(PROVIDER_PROFILES) as AIProvider[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => handleProviderChange(id)}
+                  className={`p-3 rounded-xl border-2 font-bold text-sm transition-all ${provider === id ? 'bg-primary-50 dark:bg-primary-900/20 border-primary-500 text-primary-700 dark:text-primary-300' : 'border-slate-200 dark:border-slate-700 text-slate-600'}`}
+                >
+                  {id === 'custom' ? 'Custom' : PROVIDER_PROFILES[id].label.replace('Google ', '')}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-slate-400">{PROVIDER_PROFILES[provider].label}</p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1">
+              <Cpu size={14} /> {t.modelName}
+            </label>
+            <input
+              type="text"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              placeholder={PROVIDER_PROFILES[provider].defaultModel}
+              className="w-full p-3 rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white font-mono text-sm focus:border-primary-500 outline-none"
+              dir="ltr"
+            />
+          </div>
+
+          {provider === 'custom' && (
+            <div className="space-y-2">
+              <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1">
+                <Link size={14} /> {t.baseUrl}
+              </label>
+              <input
+                type="url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder="http://localhost:11434/v1"
+                className="w-full p-3 rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white font-mono text-sm focus:border-primary-500 outline-none"
+                dir="ltr"
+              />
+            </div>
+          )}
+
+          {provider !== 'gemini' && (
+            <div className="space-y-2">
+              <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1">
+                <KeyRound size={14} /> {provider === 'groq' ? t.groqKey : t.customKey}
+              </label>
+              <input
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder="sk-..."
+                className="w-full p-3 rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white font-mono text-sm focus:border-primary-500 outline-none"
+                dir="ltr"
+              />
+              <p className="text-[11px] text-slate-400">{t.providerKeyDesc}</p>
+            </div>
+          )}
+
         </div>
 
         <div className="p-6 bg-slate-50 dark:bg-slate-800/50 border-t border-slate-100 dark:border-slate-800">
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { Trash2, AlertCircle, Zap, CheckCircle2, BookX } from 'lucide-react';
+import { Trash2, AlertCircle, Zap, CheckCircle2, BookX, MessageCircleQuestion } from 'lucide-react';
 import { Mistake, AppLanguage } from '../types';
 import { translations } from '../utils/translations';
 
@@ -10,10 +10,11 @@ interface SmartReviewProps {
   onDeleteTopic: (title: string) => void;
   onClearAll: () => void;
   onGenerateRemedial: (topicTitle: string, mistakes: Mistake[]) => void;
+  onAskAboutMistake?: (mistake: Mistake) => void;
   language: AppLanguage;
 }
 
-export const SmartReview: React.FC<SmartReviewProps> = ({ mistakes, onDeleteMistake, onDeleteTopic, onClearAll, onGenerateRemedial, language }) => {
+export const SmartReview: React.FC<SmartReviewProps> = ({ mistakes, onDeleteMistake, onDeleteTopic, onClearAll, onGenerateRemedial, onAskAboutMistake, language }) => {
   const t = translations[language];
   
   // Group mistakes by Quiz Title (Subject)
@@ -114,6 +115,16 @@ export const SmartReview: React.FC<SmartReviewProps> = ({ mistakes, onDeleteMist
                       <AlertCircle size={16} className="text-primary-500 mt-0.5 flex-shrink-0" />
                       <p>{mistake.explanation}</p>
                     </div>
+
+                    {onAskAboutMistake && (
+                      <button
+                        onClick={() => onAskAboutMistake(mistake)}
+                        className="mt-3 flex items-center gap-1.5 text-sm font-bold text-primary-600 dark:text-primary-400 hover:underline"
+                      >
+                        <MessageCircleQuestion size={16} />
+                        {t.askAboutQuestion}
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, CheckCircle2, Circle, History } from 'lucide-react';
+import { AppLanguage, PlannedReview } from '../types';
+import { translations } from '../utils/translations';
+import { addDays, weekdayOf, todayIso } from '../utils/reviewSchedule';
+
+interface StudyCalendarProps {
+  reviews: PlannedReview[];
+  mode: 'month' | 'week';
+  blockedWeekdays: number[];
+  onToggleDone: (id: string) => void;
+  onMoveReview: (id: string, date: string) => void;
+  language: AppLanguage;
+}
+
+const monthStart = (isoDate: string) => `${isoDate.slice(0, 7)}-01`;
+
+const shiftMonth = (isoDate: string, months: number) => {
+  const date = new Date(`${monthStart(isoDate)}T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.toISOString().slice(0, 10);
+};
+
+export const StudyCalendar: React.FC<StudyCalendarProps> = ({ reviews, mode, blockedWeekdays, onToggleDone, onMoveReview, language }) => {
+  const today = todayIso();
+  const [anchor, setAnchor] = useState(today);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const t = translations[language];
+  const locale = language === 'ar' ? 'ar-EG' : 'en-US';
+  const formatDate = (isoDate: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${isoDate}T00:00:00Z`).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+
+  // Weeks start on Sunday, matching weekday numbers in the plan settings.
+  const firstDay = mode === 'month'
+    ? addDays(monthStart(anchor), -weekdayOf(monthStart(anchor)))
+    : addDays(anchor, -weekdayOf(anchor));
+  const lastOfMonth = addDays(shiftMonth(anchor, 1), -1);
+  const weekCount = mode === 'month' ? Math.ceil((weekdayOf(monthStart(anchor)) + Number(lastOfMonth.slice(8))) / 7) : 1;
+  const days = Array.from({ length: weekCount * 7 }, (_, i) => addDays(firstDay, i));
+
+  const byDay = new Map<string, PlannedReview[]>();
+  reviews.forEach(r => byDay.set(r.start, [...(byDay.get(r.start) || []), r]));
+
+  const step = (direction: 1 | -1) =>
+    setAnchor(mode === 'month' ? shiftMonth(anchor, direction) : addDays(anchor, direction * 7));
+
+  const heading = mode === 'month'
+    ? formatDate(anchor, { month: 'long', year: 'numeric' })
+    : `${formatDate(days[0], { day: 'numeric', month: 'short' })} – ${formatDate(days[6], { day: 'numeric', month: 'short', year: 'numeric' })}`;
+
+  // A session can't move into the past or past its topic's previous or next step, which
+  // would undo the spacing (and missed-session catch-up would just move it back).
+  const canDrop = (id: string | null, day: string) => {
+    const review = reviews.find(r => r.id === id);
+    if (!review || day === review.start || day < today || day <= review.studyDate) return false;
+    const siblings = reviews.filter(r => r.topic === review.topic && r.id !== review.id);
+    const previous = siblings.filter(r => r.step < review.step).map(r => r.start).sort().pop();
+    const next = siblings.filter(r => r.step > review.step).map(r => r.start).sort()[0];
+    return (!previous || day > previous) && (!next || day < next);
+  };
+
+  const handleDragOver = (e: React.DragEvent, day: string) => {
+    if (!canDrop(draggingId, day)) return;
+    e.preventDefault();
+    setDropTarget(day);
+  };
+
+  const handleDrop = (e: React.DragEvent, day: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    setDraggingId(null);
+    const id = e.dataTransfer.getData('text/plain');
+    if (canDrop(id, day)) onMoveReview(id, day);
+  };
+
+  const SessionChip = ({ review, detailed }: { review: PlannedReview; detailed: boolean }) => (
+    <div
+      draggable={!review.completedAt}
+      onDragStart={(e) => { e.dataTransfer.setData('text/plain', review.id); setDraggingId(review.id); }}
+      onDragEnd={() => { setDraggingId(null); setDropTarget(null); }}
+      className={`group flex items-start gap-1 rounded-lg px-1.5 py-1 text-[11px] leading-tight text-white ${review.completedAt ? 'opacity-60' : 'cursor-grab active:cursor-grabbing'}`}
+      style={{ backgroundColor: review.color || '#8b5cf6' }}
+      title={`${review.title}\n${review.description}`}
+    >
+      <button
+        onClick={() => onToggleDone(review.id)}
+        title={review.completedAt ? t.markNotDone : t.markDone}
+        className="flex-shrink-0 mt-px hover:scale-110 transition-transform"
+      >
+        {review.completedAt ? <CheckCircle2 size={13} /> : <Circle size={13} />}
+      </button>
+      <div className="min-w-0 flex-1">
+        <p className={`font-bold truncate ${review.completedAt ? 'line-through' : ''}`}>{review.title}</p>
+        {detailed && <p className="opacity-90 mt-1 line-clamp-4">{review.description}</p>}
+        {review.rescheduledFrom && !review.completedAt && (
+          <p className="opacity-80 mt-0.5 flex items-center gap-0.5"><History size={10} /> {formatDate(review.rescheduledFrom, { day: 'numeric', month: 'short' })}</p>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="glass-panel rounded-3xl p-4 md:p-6 shadow-xl mx-2 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <button onClick={() => step(-1)} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-300">
+          {language === 'ar' ? <ChevronRight size={20} /> : <ChevronLeft size={20} />}
+        </button>
+        <div className="flex items-center gap-3">
+          <h3 className="font-bold text-slate-800 dark:text-white text-lg">{heading}</h3>
+          {!days.includes(today) && (
+            <button onClick={() => setAnchor(today)} className="text-xs font-bold text-primary-600 dark:text-primary-400 hover:underline">{t.today}</button>
+          )}
+        </div>
+        <button onClick={() => step(1)} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-300">
+          {language === 'ar' ? <ChevronLeft size={20} /> : <ChevronRight size={20} />}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-[11px] font-bold text-slate-400 dark:text-slate-500 uppercase">
+        {days.slice(0, 7).map(day => <span key={day}>{formatDate(day, { weekday: 'short' })}</span>)}
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {days.map(day => {
+          const sessions = byDay.get(day) || [];
+          const outside = mode === 'month' && day.slice(0, 7) !== anchor.slice(0, 7);
+          const blocked = blockedWeekdays.includes(weekdayOf(day));
+          return (
+            <div
+              key={day}
+              onDragOver={(e) => handleDragOver(e, day)}
+              onDragLeave={() => setDropTarget(prev => prev === day ? null : prev)}
+              onDrop={(e) => handleDrop(e, day)}
+              className={`rounded-xl border p-1 space-y-1 transition-colors ${mode === 'month' ? 'min-h-[5.5rem]' : 'min-h-[14rem]'}
+                ${dropTarget === day ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/30' : 'border-slate-100 dark:border-slate-800'}
+                ${blocked && dropTarget !== day ? 'bg-slate-100/70 dark:bg-slate-800/60' : ''}
+                ${outside ? 'opacity-40' : ''}`}
+            >
+              <div className={`text-xs font-bold text-start px-1 ${day === today ? 'text-white bg-primary-600 rounded-full w-6 h-6 flex items-center justify-center' : 'text-slate-500 dark:text-slate-400'}`}>
+                {Number(day.slice(8))}
+              </div>
+              {sessions.map(review => <SessionChip key={review.id} review={review} detailed={mode === 'week'} />)}
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-slate-400 dark:text-slate-500 text-center">{t.dragToReschedule}</p>
+    </div>
+  );
+};
@@ -1,15 +1,109 @@
-import React from 'react';
-import { ArrowLeft, BookOpen, Download, Printer, Share2, Volume2 } from 'lucide-react';
+import React, { useMemo, useState, useRef, useEffect } from 'react';
+import { ArrowLeft, BookOpen, Download, Printer, Share2, Volume2, MessageCircle, RefreshCw, Link2, Play, Layers, Wand2, History, Pencil, Loader2, Square, Undo2 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { StudyGuide } from '../types';
+import { StudyGuide, Quiz, AppLanguage, GuideSectionAction, GuideSectionVersion } from '../types';
+import { translations } from '../utils/translations';
+import { splitGuideSections, keyConceptsHeading, topicProgress, TopicProgress, replaceGuideSection, pushSectionVersion } from '../utils/studyGuide';
+import { reviseGuideSection, isAbortError } from '../services/geminiService';
 
 interface StudyGuideProps {
   guide: StudyGuide;
   onExit: () => void;
+  onAskAssistant?: () => void;
+  onRegenerate?: () => void;
+  quizzes?: Quiz[];
+  onPractice?: (topic: string, kind: 'quiz' | 'flashcards') => void;
+  onUpdateGuide?: (guide: StudyGuide) => void;
+  language?: AppLanguage;
 }
 
-export const StudyGuideView: React.FC<StudyGuideProps> = ({ guide, onExit }) => {
+const SECTION_ACTIONS: GuideSectionAction[] = ['expand', 'simplify', 'examples', 'translate', 'regenerate'];
+
+const ProgressBadge: React.FC<{ progress: TopicProgress; language: AppLanguage; className?: string }> = ({ progress, language, className = '' }) => {
+  const t = translations[language];
+  if (progress.quizzes === 0) return <span className={`text-xs opacity-70 ${className}`}>{t.notPracticed}</span>;
+  const percent = progress.bestPercent;
+  const color = percent === null ? 'bg-slate-400' : percent >= 80 ? 'bg-green-500' : percent >= 50 ? 'bg-yellow-500' : 'bg-red-500';
+  return (
+    <span className={`inline-flex items-center gap-1.5 text-xs font-bold ${className}`}>
+      <span className={`w-2 h-2 rounded-full ${color}`}></span>
+      {percent === null ? t.notFinished : `${t.bestScore} ${percent}%`}
+    </span>
+  );
+};
+
+export const StudyGuideView: React.FC<StudyGuideProps> = ({ guide, onExit, onAskAssistant, onRegenerate, quizzes = [], onPractice, onUpdateGuide, language = 'ar' }) => {
+  const t = translations[language];
+  const sections = useMemo(() => splitGuideSections(guide.content), [guide.content]);
+  const [menuSection, setMenuSection] = useState<number | null>(null);
+  const [historySection, setHistorySection] = useState<number | null>(null);
+  const [editingSection, setEditingSection] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [busySection, setBusySection] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // AI edits finish after other changes may have landed; always splice into the latest guide.
+  const guideRef = useRef(guide);
+  guideRef.current = guide;
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const actionLabel: Record<GuideSectionVersion['action'], string> = {
+    expand: t.expandSection, simplify: t.simplifySection, examples: t.addExamples, translate: t.translateSection,
+    regenerate: t.regenerateSection, manual: t.editManually, revert: t.revertVersion
+  };
+
+  // The replaced text goes into the section's history, so every change (reverts included) can be undone.
+  const applySectionChange = (index: number, content: string, action: GuideSectionVersion['action']) => {
+    if (!onUpdateGuide) return;
+    const latest = guideRef.current;
+    const previous = splitGuideSections(latest.content)[index];
+    if (!previous) return;
+    onUpdateGuide({
+      ...latest,
+      content: replaceGuideSection(latest.content, index, content),
+      sectionHistory: pushSectionVersion(latest.sectionHistory, index, { content: previous.content, action, savedAt: Date.now() })
+    });
+  };
+
+  const runSectionAction = async (index: number, action: GuideSectionAction) => {
+    const section = sections[index];
+    setMenuSection(null);
+    if (!section || busySection !== null) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBusySection(index);
+    try {
+      const isArabic = /[\u0600-\u06FF]/.test(section.content);
+      const targetLanguage = action === 'translate'
+        ? (isArabic ? 'English' : 'Arabic')
+        : guide.source?.language || (isArabic ? 'Arabic' : 'English');
+      const revised = await reviseGuideSection(guide.title, section.content, action, targetLanguage, controller.signal);
+      applySectionChange(index, revised, action);
+    } catch (e) {
+      if (!isAbortError(e)) {
+        console.warn("Section update failed", e);
+        alert(t.sectionEditFailed);
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setBusySection(null);
+    }
+  };
+
+  const startManualEdit = (index: number) => {
+    setMenuSection(null);
+    setEditingSection(index);
+    setDraft(sections[index].content.trim());
+  };
+
+  const saveManualEdit = () => {
+    if (editingSection !== null && draft.trim() && draft.trim() !== sections[editingSection]?.content.trim()) {
+      applySectionChange(editingSection, draft, 'manual');
+    }
+    setEditingSection(null);
+  };
+
   const handlePrint = () => {
     window.print();
   };
@@ -35,6 +129,33 @@ export const StudyGuideView: React.FC<StudyGuideProps> = ({ guide, onExit }) =>
             <ArrowLeft size={20} className="ml-1" /> العودة
         </button>
         <div className="flex space-x-3 space-x-reverse">
+            {onAskAssistant && (
+              <button 
+                 onClick={onAskAssistant}
+                 className="flex items-center space-x-2 space-x-reverse px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 shadow-sm transition-colors"
+              >
+                 <MessageCircle size={18} />
+                 <span>{t.askAboutGuide}</span>
+              </button>
+            )}
+            {onPractice && (
+              <button
+                 onClick={() => onPractice(keyConceptsHeading(guide), 'flashcards')}
+                 className="flex items-center space-x-2 space-x-reverse px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 shadow-sm transition-colors"
+              >
+                 <Layers size={18} />
+                 <span>{t.flashcardsFromConcepts}</span>
+              </button>
+            )}
+            {onRegenerate && guide.source && (
+              <button
+                 onClick={onRegenerate}
+                 className="flex items-center space-x-2 space-x-reverse px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 shadow-sm transition-colors"
+              >
+                 <RefreshCw size={18} />
+                 <span>{t.regenerateGuide}</span>
+              </button>
+            )}
             <button 
                onClick={speakGuide}
                className="flex items-center space-x-2 space-x-reverse px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 shadow-sm transition-colors"
@@ -60,8 +181,25 @@ export const StudyGuideView: React.FC<StudyGuideProps> = ({ guide, onExit }) =>
                <span className="uppercase tracking-wider font-bold text-sm">Study Guide</span>
             </div>
             <h1 className="text-3xl md:text-5xl font-extrabold mb-4">{guide.title}</h1>
+            {guide.source && (
+               <p className="flex items-center gap-2 text-sm text-white/70 mb-4 print:text-black">
+                  <Link2 size={16} className="flex-shrink-0" />
+                  <span className="truncate">{t.guideSource}: {guide.source.label}</span>
+               </p>
+            )}
             <div className="flex flex-wrap gap-2">
-               {guide.topics.map(topic => (
+               {guide.topics.map(topic => onPractice ? (
+                  <button
+                     key={topic}
+                     onClick={() => onPractice(topic, 'quiz')}
+                     title={t.quizMeTopic}
+                     className="bg-white/20 hover:bg-white/30 px-3 py-1 rounded-full text-sm backdrop-blur-sm flex items-center gap-2 transition-colors print:border print:border-black print:text-black"
+                  >
+                     <Play size={12} className="fill-current print:hidden" />
+                     {topic}
+                     <ProgressBadge progress={topicProgress(guide, quizzes, topic)} language={language} className="print:hidden" />
+                  </button>
+               ) : (
                   <span key={topic} className="bg-white/20 px-3 py-1 rounded-full text-sm backdrop-blur-sm print:border print:border-black print:text-black">
                      {topic}
                   </span>
@@ -70,11 +208,113 @@ export const StudyGuideView: React.FC<StudyGuideProps> = ({ guide, onExit }) =>
          </div>
 
          <div className="p-8 md:p-12 print:p-0">
-             <div className="prose prose-lg dark:prose-invert max-w-none prose-headings:font-bold prose-a:text-primary-600 dark:prose-a:text-primary-400 prose-strong:text-slate-900 dark:prose-strong:text-white">
-                <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                    {guide.content}
-                </ReactMarkdown>
-             </div>
+             {sections.map((section, i) => {
+               const history = guide.sectionHistory?.[i] || [];
+               const isBusy = busySection === i;
+               return (
+               <section key={i} className="mb-8 last:mb-0">
+                 {editingSection === i ? (
+                   <div className="space-y-3 print:hidden">
+                     <textarea
+                       value={draft}
+                       onChange={(e) => setDraft(e.target.value)}
+                       rows={Math.min(24, Math.max(8, draft.split('\n').length + 2))}
+                       className="w-full p-4 font-mono text-sm bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-slate-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                       dir="auto"
+                     />
+                     <div className="flex gap-2">
+                       <button onClick={saveManualEdit} className="px-4 py-2 rounded-lg bg-primary-600 text-white font-bold text-sm hover:bg-primary-700">{t.saveSection}</button>
+                       <button onClick={() => setEditingSection(null)} className="px-4 py-2 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 font-bold text-sm hover:bg-slate-200 dark:hover:bg-slate-600">{t.cancelEdit}</button>
+                     </div>
+                   </div>
+                 ) : (
+                 <div className={`prose prose-lg dark:prose-invert max-w-none prose-headings:font-bold prose-a:text-primary-600 dark:prose-a:text-primary-400 prose-strong:text-slate-900 dark:prose-strong:text-white transition-opacity ${isBusy ? 'opacity-40' : ''}`}>
+                    <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                        {section.content}
+                    </ReactMarkdown>
+                 </div>
+                 )}
+
+                 {isBusy && (
+                   <div className="mt-3 flex items-center gap-3 text-sm text-primary-600 dark:text-primary-400 print:hidden">
+                     <Loader2 size={16} className="animate-spin" /> {t.updatingSection}
+                     <button onClick={() => abortRef.current?.abort()} className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-xs font-bold">
+                       <Square size={10} fill="currentColor" /> {t.stopGenerating}
+                     </button>
+                   </div>
+                 )}
+
+                 {editingSection !== i && (onPractice && section.heading || onUpdateGuide) && (
+                   <div className="mt-4 flex flex-wrap items-center gap-3 text-sm print:hidden">
+                     {onPractice && section.heading && (
+                       <>
+                         <button onClick={() => onPractice(section.heading, 'quiz')} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300 hover:bg-primary-100 dark:hover:bg-primary-900/40 font-medium transition-colors">
+                           <Play size={14} className="fill-current" /> {t.quizMeSection}
+                         </button>
+                         <button onClick={() => onPractice(section.heading, 'flashcards')} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-secondary-50 dark:bg-secondary-900/20 text-secondary-700 dark:text-secondary-300 hover:bg-secondary-100 dark:hover:bg-secondary-900/40 font-medium transition-colors">
+                           <Layers size={14} /> {t.sectionFlashcards}
+                         </button>
+                         <ProgressBadge progress={topicProgress(guide, quizzes, section.heading)} language={language} className="text-slate-500 dark:text-slate-400" />
+                       </>
+                     )}
+                     {onUpdateGuide && (
+                       <div className="ms-auto flex items-center gap-1 relative">
+                         <button
+                           onClick={() => setMenuSection(menuSection === i ? null : i)}
+                           disabled={busySection !== null}
+                           className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 font-medium"
+                         >
+                           <Wand2 size={14} /> {t.editSection}
+                         </button>
+                         {history.length > 0 && (
+                           <button
+                             onClick={() => setHistorySection(historySection === i ? null : i)}
+                             className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 font-medium"
+                           >
+                             <History size={14} /> {t.sectionHistory} ({history.length})
+                           </button>
+                         )}
+                         {menuSection === i && (
+                           <div className="absolute top-full mt-1 end-0 w-52 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 z-20 py-1">
+                             {SECTION_ACTIONS.map(action => (
+                               <button key={action} onClick={() => runSectionAction(i, action)} className="w-full text-start px-4 py-2 hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200">
+                                 {actionLabel[action]}
+                               </button>
+                             ))}
+                             <button onClick={() => startManualEdit(i)} className="w-full text-start px-4 py-2 hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 border-t border-slate-100 dark:border-slate-700 flex items-center gap-2">
+                               <Pencil size={14} /> {t.editManually}
+                             </button>
+                           </div>
+                         )}
+                       </div>
+                     )}
+                   </div>
+                 )}
+
+                 {historySection === i && history.length > 0 && (
+                   <ul className="mt-3 divide-y divide-slate-100 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-xl text-sm print:hidden">
+                     {[...history].reverse().map((version, v) => (
+                       <li key={version.savedAt + '-' + v} className="p-3 flex items-start justify-between gap-3">
+                         <div className="min-w-0">
+                           <p className="text-xs font-bold text-slate-500 dark:text-slate-400">
+                             {actionLabel[version.action]} · {new Date(version.savedAt).toLocaleString(language === 'ar' ? 'ar-EG' : 'en-US')}
+                           </p>
+                           <p className="text-slate-600 dark:text-slate-300 line-clamp-2">{version.content.replace(/^#+\s*/gm, '').trim()}</p>
+                         </div>
+                         <button
+                           onClick={() => { applySectionChange(i, version.content, 'revert'); setHistorySection(null); }}
+                           disabled={busySection !== null}
+                           className="flex-shrink-0 flex items-center gap-1 px-2 py-1 rounded-md text-primary-600 dark:text-primary-400 hover:bg-primary-50 dark:hover:bg-primary-900/20 font-bold text-xs disabled:opacity-40"
+                         >
+                           <Undo2 size={12} /> {t.revertVersion}
+                         </button>
+                       </li>
+                     ))}
+                   </ul>
+                 )}
+               </section>
+               );
+             })}
          </div>
       </div>
     </div>
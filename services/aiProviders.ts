@@ -0,0 +1,101 @@
+import { AIProvider, FileData } from "../types";
+
+// Client-side description of each AI provider the proxy can talk to.
+// The proxy does the wire-format translation; here we only decide which model to ask for
+// and which Gemini-only options are safe to send.
+
+interface ProviderProfile {
+  label: string;
+  defaultModel: string;
+  thinkingModel: string;
+  // Can read PDFs / audio / video inline. OpenAI-compatible servers only take images and plain text.
+  supportsAllFiles: boolean;
+  supportsThinkingConfig: boolean;
+  modelStorageKey: string;
+}
+
+export const PROVIDER_PROFILES: Record<AIProvider, ProviderProfile> = {
+  gemini: {
+    label: 'Google Gemini',
+    defaultModel: 'gemini-2.5-flash',
+    thinkingModel: 'gemini-3-pro-preview',
+    supportsAllFiles: true,
+    supportsThinkingConfig: true,
+    modelStorageKey: 'gemini_model',
+  },
+  groq: {
+    label: 'Groq',
+    defaultModel: 'llama-3.3-70b-versatile',
+    thinkingModel: 'llama-3.3-70b-versatile',
+    supportsAllFiles: false,
+    supportsThinkingConfig: false,
+    modelStorageKey: 'groq_model',
+  },
+  custom: {
+    label: 'OpenAI-compatible (Ollama, llama.cpp...)',
+    defaultModel: 'local-model',
+    thinkingModel: 'local-model',
+    supportsAllFiles: false,
+    supportsThinkingConfig: false,
+    modelStorageKey: 'custom_model_name',
+  },
+};
+
+export interface ProviderSettings {
+  provider: AIProvider;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export const safeGetItem = (key: string): string | null => {
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return localStorage.getItem(key);
+    }
+  } catch (e) {
+    console.warn('LocalStorage access denied:', e);
+  }
+  return null;
+};
+
+export const getProvider = (): AIProvider => {
+  const stored = safeGetItem('ai_provider');
+  return stored && stored in PROVIDER_PROFILES ? (stored as AIProvider) : 'gemini';
+};
+
+export const getProviderSettings = (): ProviderSettings => {
+  const provider = getProvider();
+  const profile = PROVIDER_PROFILES[provider];
+  return {
+    provider,
+    model: safeGetItem(profile.modelStorageKey) || profile.defaultModel,
+    baseUrl: provider === 'custom' ? safeGetItem('custom_base_url') || undefined : undefined,
+    apiKey: safeGetItem(`${provider}_api_key`) || undefined,
+  };
+};
+
+// 'thinking' only changes the model for Gemini; other providers keep the user's chosen model.
+export const resolveModel = (tier: 'default' | 'thinking' = 'default'): string => {
+  const settings = getProviderSettings();
+  const profile = PROVIDER_PROFILES[settings.provider];
+  if (tier === 'thinking' && settings.provider === 'gemini') return profile.thinkingModel;
+  return settings.model;
+};
+
+// Strips options the selected provider would reject (safety settings, thinking budgets).
+export const adaptConfig = (config: any = {}): any => {
+  const profile = PROVIDER_PROFILES[getProvider()];
+  if (profile.supportsThinkingConfig) return config;
+  const { safetySettings, thinkingConfig, ...rest } = config;
+  return rest;
+};
+
+export const assertFilesSupported = (files: FileData[]) => {
+  const provider = getProvider();
+  if (PROVIDER_PROFILES[provider].supportsAllFiles) return;
+  const unsupported = files.filter(f => !f.mimeType.startsWith('image/') && !f.mimeType.startsWith('text/'));
+  if (unsupported.length > 0) {
+    throw new Error(`${PROVIDER_PROFILES[provider].label} cannot read: ${unsupported.map(f => f.name).join(', ')}. Switch to Gemini in Settings or paste the text.`);
+  }
+};
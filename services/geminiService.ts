@@ -1,6 +1,21 @@
 
-import { Question, QuestionType, QuizSettings, FileData, Difficulty, ChatMessage, CalendarEvent, GradingResult, InputMode, AIProvider } from "../types";
+import { Question, Quiz, QuestionType, QuizSettings, FileData, Difficulty, ChatMessage, ChatFocus, ChatReference, GradingResult, PlannedReview, AppLanguage, InputMode, GuideSectionAction } from "../types";
 import { HarmCategory, HarmBlockThreshold, Type } from "@google/genai"; // Only importing Types now
+import { getProviderSettings, safeGetItem, resolveModel, adaptConfig, assertFilesSupported } from "./aiProviders";
+import { createArrayItemParser } from "../utils/jsonStream";
+import {
+  TypeTargets, DifficultyTargets, getTypeTargets, getForcedItemType, getMissingCounts, fitToTargets, describeTargets, totalOf,
+  splitTargets, getDifficultyTargets, getMissingDifficulties, describeDifficulties
+} from "../utils/quizMix";
+import { buildSourceSections } from "../utils/sourceSections";
+import { getLocalQuiz, putLocalQuiz, getLocalGuide, putLocalGuide, queuePendingSave, getPendingSaves, deletePendingSave, countPendingSaves } from "./offlineStore";
+import { filterDuplicateQuestions, fingerprintQuestion, fingerprintsMatch } from "../utils/questionSimilarity";
+import { getRubricPoints } from "../utils/grading";
+import { SourcePassage, retrievePassages, extractCitations } from "../utils/retrieval";
+import {
+  AIResponseError, Validation, PLAYABLE_QUESTION_TYPES, ValidQuizItem, QuizItemDefect, StudyGuidePayload,
+  parseJsonResponse, validateQuizItem, validateQuizPayload, validateStudyGuide, validateGradingResult, validateReviewNotes
+} from "../utils/aiValidation";
 
 // Automatic Server URL detection
 const getBaseUrl = () => {
@@ -23,9 +38,85 @@ const getBaseUrl = () => {
 const SERVER_URL = getBaseUrl();
 let isServerOnline = true; 
 
+// --- Offline Support ---
+
+export interface ServerStatus {
+  online: boolean;
+  pendingSaves: number;
+}
+
+const HEALTH_POLL_MS = 30000;
+const statusListeners = new Set<(status: ServerStatus) => void>();
+
+const notifyServerStatus = async () => {
+  const status = { online: isServerOnline, pendingSaves: await countPendingSaves() };
+  statusListeners.forEach(listener => listener(status));
+};
+
+const setServerOnline = (online: boolean) => {
+  if (isServerOnline === online) return;
+  isServerOnline = online;
+  notifyServerStatus();
+  if (online) flushPendingSaves();
+};
+
+export const subscribeServerStatus = (listener: (status: ServerStatus) => void) => {
+  statusListeners.add(listener);
+  notifyServerStatus();
+  return () => { statusListeners.delete(listener); };
+};
+
+export const checkServerHealth = async (): Promise<boolean> => {
+  try {
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), 3000);
+    const res = await fetch(`${SERVER_URL}/api/health`, { signal: controller.signal });
+    clearTimeout(id);
+    setServerOnline(res.ok);
+  } catch (e) {
+    setServerOnline(false);
+  }
+  return isServerOnline;
+};
+
+// Re-sends quiz saves that were made while the server was unreachable. Stops at the first failure.
+let isFlushing = false;
+const flushPendingSaves = async () => {
+  if (isFlushing) return;
+  isFlushing = true;
+  try {
+    for (const save of await getPendingSaves()) {
+      const saved = save.kind === 'guide'
+        ? save.guide && await postGuideSave(save.hash, { title: save.title, ...save.guide })
+        : save.questions && await postQuizSave(save.hash, save.questions, save.title);
+      if (!saved) break;
+      if (save.id !== undefined) await deletePendingSave(save.id);
+    }
+  } finally {
+    isFlushing = false;
+    notifyServerStatus();
+  }
+};
+
+// Watches connectivity: browser online/offline events plus /api/health polling while offline.
+export const startServerMonitor = () => {
+  const handleOnline = () => { checkServerHealth(); };
+  const handleOffline = () => setServerOnline(false);
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  const timer = setInterval(() => { if (!isServerOnline) checkServerHealth(); }, HEALTH_POLL_MS);
+  checkServerHealth().then(online => { if (online) flushPendingSaves(); });
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    clearInterval(timer);
+  };
+};
+
 // --- Auth / Activation Utilities ---
 
-export const checkActivationStatus = async (code: string): Promise<boolean> => {
+// null means the server could not be reached, so the code could not be checked either way.
+export const checkActivationStatus = async (code: string): Promise<boolean | null> => {
     try {
         const res = await fetch(`${SERVER_URL}/api/activate`, {
             method: 'POST',
@@ -40,7 +131,8 @@ export const checkActivationStatus = async (code: string): Promise<boolean> => {
         return false;
     } catch (e) {
         console.error("Activation check failed", e);
-        return false;
+        setServerOnline(false);
+        return null;
     }
 };
 
@@ -48,33 +140,105 @@ const getActivationCode = (): string => {
     return localStorage.getItem('activation_code') || '';
 };
 
-const safeGetItem = (key: string): string | null => {
-  try {
-    if (typeof window !== 'undefined' && window.localStorage) {
-      return localStorage.getItem(key);
+// --- URL EXTRACTION ---
+
+export interface ExtractedPage {
+    url: string;
+    title: string;
+    headings: string[];
+    text: string;
+    truncated: boolean;
+}
+
+// The model cannot browse, so URL mode sends the page's readable text instead of the link.
+export const extractUrlContent = async (url: string, signal?: AbortSignal): Promise<ExtractedPage> => {
+    let res: Response;
+    try {
+        res = await fetch(`${SERVER_URL}/api/extract`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ url: url.trim(), activationCode: getActivationCode() }),
+            signal
+        });
+    } catch (e) {
+        if (isAbortError(e)) throw e;
+        throw new Error("Could not reach the server to read this link.");
     }
-  } catch (e) {
-    console.warn('LocalStorage access denied:', e);
-  }
-  return null;
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || `Could not read this link (${res.status})`);
+    return data;
 };
 
+export const pageToSourceText = (page: ExtractedPage): string =>
+    `# ${page.title}\nSource: ${page.url}\n\n${page.text}`;
+
 // --- PROXY GENERATION CALL ---
 
-const generateViaProxy = async (model: string, contents: any, config: any) => {
+// Cancellation surfaces as the fetch AbortError; callers check this to tell "cancelled" from "failed".
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+// The response shape a request expects. Sent with every call so the server (and the fake
+// provider's fixtures) never have to guess it from the prompt wording.
+type ProxyTask = 'quiz' | 'grading' | 'guide' | 'section' | 'notes' | 'chat';
+
+// One thing the user asked for (a quiz, a guide, a grading), which may take several requests.
+// The server charges the daily plan for the first one and answers with the generation's id;
+// follow-ups send the id back with their step and are free within what `sections` allows.
+interface Generation {
+    task: ProxyTask;
+    sections: number;
+    id?: string;
+}
+
+type GenerationStep = 'generate' | 'section' | 'repair' | 'top_up';
+
+interface ProxyCall {
+    generation: Generation;
+    step: GenerationStep;
+}
+
+const newGeneration = (task: ProxyTask, sections = 1): Generation => ({ task, sections });
+
+// A request that is a whole generation by itself.
+const singleCall = (task: ProxyTask): ProxyCall => ({ generation: newGeneration(task), step: 'generate' });
+
+const postGenerate = async (model: string, contents: any, config: any, stream: boolean, signal: AbortSignal | undefined, call: ProxyCall): Promise<Response> => {
     const code = getActivationCode();
+    const { provider, baseUrl, apiKey } = getProviderSettings();
     
-    const response = await fetch(`${SERVER_URL}/api/generate`, {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        setServerOnline(false);
+        throw new Error("You are offline. Saved quizzes, flashcards and mistakes still work; generating new content needs a connection.");
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${SERVER_URL}/api/generate`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include', // Send the session cookie
         body: JSON.stringify({
             activationCode: code, 
+            provider: provider,
+            providerOptions: { baseUrl, apiKey },
             model: model,
             contents: contents,
-            config: config
-        })
-    });
+            config: adaptConfig(config),
+            stream: stream,
+            task: call.generation.task,
+            sections: call.generation.sections,
+            generationId: call.generation.id,
+            step: call.step
+        }),
+        signal
+      });
+    } catch (e) {
+        if (isAbortError(e)) throw e;
+        setServerOnline(false);
+        throw new Error("Cannot reach the server. Saved quizzes, flashcards and mistakes still work offline.");
+    }
+    setServerOnline(true);
 
     if (!response.ok) {
         const text = await response.text(); // Get raw response for debugging
@@ -89,31 +253,132 @@ const generateViaProxy = async (model: string, contents: any, config: any) => {
         throw new Error(errMessage);
     }
 
+    return response;
+};
+
+const generateViaProxy = async (model: string, contents: any, config: any, signal: AbortSignal | undefined, call: ProxyCall) => {
+    const response = await postGenerate(model, contents, config, false, signal, call);
     const data = await response.json();
+    if (data.generationId) call.generation.id = data.generationId;
     return data.text;
 };
 
+// Reads the NDJSON stream from /api/generate, reporting each text delta as it arrives.
+const streamViaProxy = async (model: string, contents: any, config: any, onDelta: (delta: string) => void, signal: AbortSignal | undefined, call: ProxyCall): Promise<string> => {
+    const response = await postGenerate(model, contents, config, true, signal, call);
+    if (!response.body) return generateFromNdjson(await response.text(), onDelta, call);
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let fullText = '';
+
+    const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        const event = JSON.parse(line);
+        if (event.error) throw new Error(event.error);
+        if (event.generationId) call.generation.id = event.generationId;
+        if (event.delta) {
+            fullText += event.delta;
+            onDelta(event.delta);
+        }
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let newline;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+            handleLine(buffer.slice(0, newline));
+            buffer = buffer.slice(newline + 1);
+        }
+    }
+    handleLine(buffer);
+    return fullText;
+};
+
+// Fallback for environments whose fetch does not expose a readable body.
+const generateFromNdjson = (raw: string, onDelta: (delta: string) => void, call: ProxyCall): string => {
+    let fullText = '';
+    raw.split('\n').filter(l => l.trim()).forEach(line => {
+        const event = JSON.parse(line);
+        if (event.error) throw new Error(event.error);
+        if (event.generationId) call.generation.id = event.generationId;
+        if (event.delta) {
+            fullText += event.delta;
+            onDelta(event.delta);
+        }
+    });
+    return fullText;
+};
+
 
 // --- Caching Utilities ---
 
+// Bump whenever generateQuizContent's prompt, schema or post-processing changes,
+// so quizzes cached under the old behaviour are no longer served.
+const QUIZ_CACHE_VERSION = 'quiz-v6';
+
+const sha256Hex = async (data: BufferSource): Promise<string> => {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const base64ToBytes = (data: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const GUIDE_CACHE_VERSION = 'guide-v1';
+
+// Text as-is; files by their bytes, so renamed copies share an entry and same-size files do not.
+const fingerprintContent = async (content: string | FileData[]) =>
+  typeof content === 'string'
+    ? content
+    : await Promise.all(content.map(async f => ({ type: f.mimeType, sha256: await sha256Hex(base64ToBytes(f.data)) })));
+
+// Content-addressed cache key: file bytes (not names) plus every setting that changes the output.
 const computeHash = async (content: string | FileData[], settings: QuizSettings): Promise<string> => {
   try {
+    const isMixedType = settings.questionType === QuestionType.SHORT_QUIZ || settings.questionType === QuestionType.COMPREHENSIVE;
+    const { provider } = getProviderSettings();
     const dataToHash = {
-      content: typeof content === 'string' ? content : content.map(f => ({ name: f.name, size: f.data.length, type: f.mimeType })), 
+      version: QUIZ_CACHE_VERSION,
+      content: await fingerprintContent(content),
       settings: {
         type: settings.questionType,
         difficulty: settings.difficulty,
         quantity: settings.quantity,
         maxMode: settings.maxMode,
         language: settings.language,
-        thinking: settings.thinkingMode
+        thinking: settings.thinkingMode,
+        distribution: isMixedType ? settings.distribution || null : null,
+        difficultyDistribution: settings.difficulty === Difficulty.MIXED ? settings.difficultyDistribution || null : null,
+        provider,
+        model: resolveModel(settings.thinkingMode ? 'thinking' : 'default')
       }
     };
-    
-    const msgBuffer = new TextEncoder().encode(JSON.stringify(dataToHash));
-    const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+
+    return await sha256Hex(new TextEncoder().encode(JSON.stringify(dataToHash)));
+  } catch (e) {
+    console.warn("Hashing failed, skipping cache:", e);
+    return "";
+  }
+};
+
+// Local IndexedDB copy first (works offline), then the shared server cache.
+const computeGuideHash = async (content: string | FileData[], language: string, thinking: boolean): Promise<string> => {
+  try {
+    const { provider } = getProviderSettings();
+    const dataToHash = {
+      version: GUIDE_CACHE_VERSION,
+      content: await fingerprintContent(content),
+      settings: { language, thinking, provider, model: resolveModel(thinking ? 'thinking' : 'default') }
+    };
+    return await sha256Hex(new TextEncoder().encode(JSON.stringify(dataToHash)));
   } catch (e) {
     console.warn("Hashing failed, skipping cache:", e);
     return "";
@@ -121,7 +386,10 @@ const computeHash = async (content: string | FileData[], settings: QuizSettings)
 };
 
 const checkCache = async (hash: string): Promise<Question[] | null> => {
-  if (!hash || !isServerOnline) return null;
+  if (!hash) return null;
+  const local = await getLocalQuiz(hash);
+  if (local && local.questions.length > 0) return local.questions;
+  if (!isServerOnline) return null;
   try {
     const controller = new AbortController();
     const id = setTimeout(() => controller.abort(), 1000); 
@@ -137,33 +405,110 @@ const checkCache = async (hash: string): Promise<Question[] | null> => {
     if (res.ok) {
       const data = await res.json();
       if (data.found && data.quiz) {
+        putLocalQuiz({ hash, title: data.title || '', questions: data.quiz, savedAt: Date.now() });
         return data.quiz as Question[];
       }
     }
   } catch (e) {
-    isServerOnline = false;
+    setServerOnline(false);
     console.debug("Backend server unreachable, disabling cache checks.");
   }
   return null;
 };
 
-const saveCache = async (hash: string, quiz: Question[], title: string) => {
-  if (!hash || !quiz || quiz.length === 0 || !isServerOnline) return;
+const postQuizSave = async (hash: string, quiz: Question[], title: string): Promise<boolean> => {
   try {
     const controller = new AbortController();
     const id = setTimeout(() => controller.abort(), 2000);
 
-    await fetch(`${SERVER_URL}/api/quiz/save`, {
+    const res = await fetch(`${SERVER_URL}/api/quiz/save`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ hash, quiz, title }),
       signal: controller.signal
     });
     clearTimeout(id);
+    return res.ok;
   } catch (e) {
     console.warn("Failed to save to cache", e);
-    isServerOnline = false;
+    setServerOnline(false);
+    return false;
+  }
+};
+
+// Always kept locally; the server copy is queued and retried if it cannot be saved now.
+const saveCache = async (hash: string, quiz: Question[], title: string) => {
+  if (!hash || !quiz || quiz.length === 0) return;
+  await putLocalQuiz({ hash, title, questions: quiz, savedAt: Date.now() });
+  if (isServerOnline && await postQuizSave(hash, quiz, title)) return;
+  await queuePendingSave({ kind: 'quiz', hash, title, questions: quiz, queuedAt: Date.now() });
+  notifyServerStatus();
+};
+
+// --- Study guide cache (same layering as quizzes) ---
+
+const checkGuideCache = async (hash: string): Promise<StudyGuidePayload | null> => {
+  if (!hash) return null;
+  const local = await getLocalGuide(hash);
+  if (local) return { title: local.title, content: local.content, topics: local.topics };
+  if (!isServerOnline) return null;
+  try {
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), 1000);
+
+    const res = await fetch(`${SERVER_URL}/api/guide/check`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ hash }),
+      signal: controller.signal
+    });
+    clearTimeout(id);
+
+    if (res.ok) {
+      const data = await res.json();
+      if (data.found && data.guide) {
+        const checked = validateStudyGuide(data.guide);
+        if (checked.ok) {
+          putLocalGuide({ hash, ...checked.value, savedAt: Date.now() });
+          return checked.value;
+        }
+      }
+    }
+  } catch (e) {
+    setServerOnline(false);
+    console.debug("Backend server unreachable, disabling cache checks.");
   }
+  return null;
+};
+
+const postGuideSave = async (hash: string, guide: StudyGuidePayload): Promise<boolean> => {
+  try {
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), 2000);
+
+    const res = await fetch(`${SERVER_URL}/api/guide/save`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ hash, guide, activationCode: getActivationCode() }),
+      signal: controller.signal
+    });
+    clearTimeout(id);
+    // A refused save (no session) won't succeed on retry, so it isn't queued again.
+    return res.ok || (res.status >= 400 && res.status < 500);
+  } catch (e) {
+    console.warn("Failed to save guide to cache", e);
+    setServerOnline(false);
+    return false;
+  }
+};
+
+const saveGuideCache = async (hash: string, guide: StudyGuidePayload) => {
+  if (!hash) return;
+  await putLocalGuide({ hash, ...guide, savedAt: Date.now() });
+  if (isServerOnline && await postGuideSave(hash, guide)) return;
+  await queuePendingSave({ kind: 'guide', hash, title: guide.title, guide: { content: guide.content, topics: guide.topics }, queuedAt: Date.now() });
+  notifyServerStatus();
 };
 
 // --- Admin API ---
@@ -256,6 +601,28 @@ export const getAdminConfig = async () => {
     } catch (e) { return null; }
 };
 
+export interface AdminKeyHealth {
+    label: string;
+    key: string; // masked
+    status: 'healthy' | 'cooling' | 'disabled';
+    successes: number;
+    failures: number;
+    consecutiveFailures: number;
+    cooldownRemainingMs: number;
+    lastUsedAt: number | null;
+    lastError: string | null;
+    lastErrorKind: string | null;
+    lastErrorAt: number | null;
+}
+
+export const getAdminKeyHealth = async (): Promise<AdminKeyHealth[] | null> => {
+    try {
+        const res = await fetch(`${SERVER_URL}/api/admin/keys`, { credentials: 'include' });
+        if (res.ok) return (await res.json()).keys;
+        return null;
+    } catch (e) { return null; }
+};
+
 export const updateAdminConfig = async (planLimits: any) => {
     try {
         await fetch(`${SERVER_URL}/api/admin/config`, {
@@ -270,20 +637,6 @@ export const updateAdminConfig = async (planLimits: any) => {
 
 // --- Main Wrappers ---
 
-const getProvider = (): AIProvider => {
-    return (safeGetItem('ai_provider') as AIProvider) || 'gemini';
-};
-
-const getModel = () => {
-  const provider = getProvider();
-  if (provider === 'custom') {
-      return safeGetItem('custom_model_name') || 'gpt-3.5-turbo';
-  }
-  const localModel = safeGetItem('gemini_model');
-  if (localModel) return localModel;
-  return provider === 'gemini' ? 'gemini-2.5-flash' : 'llama-3.3-70b-versatile';
-};
-
 const shuffleArray = (array: any[]) => {
   if (!array || !Array.isArray(array)) return [];
   for (let i = array.length - 1; i > 0; i--) {
@@ -295,12 +648,13 @@ const shuffleArray = (array: any[]) => {
 
 // --- Generation Implementation (Now uses Proxy) ---
 
-const generateWithGeminiProxy = async (content: string | FileData[], settings: QuizSettings, unifiedQuizSchema: any, systemInstruction: string, fullPrompt: string) => {
-    const selectedModel = getModel();
+const generateWithGeminiProxy = async (content: string | FileData[], settings: QuizSettings, unifiedQuizSchema: any, systemInstruction: string, fullPrompt: string, onDelta: ((delta: string) => void) | undefined, signal: AbortSignal | undefined, call: ProxyCall) => {
+    const selectedModel = resolveModel(settings.thinkingMode ? 'thinking' : 'default');
 
     const parts: any[] = [];
     if (typeof content !== 'string') {
         // File Mode
+        assertFilesSupported(content);
         (content as FileData[]).forEach(file => parts.push({ inlineData: { mimeType: file.mimeType, data: file.data } }));
         parts.push({ text: `${fullPrompt}\nSource Material (Files Attached)` });
     } else {
@@ -327,16 +681,50 @@ const generateWithGeminiProxy = async (content: string | FileData[], settings: Q
     }
 
     // CALL PROXY INSTEAD OF LOCAL SDK
-    return await generateViaProxy(selectedModel, { parts }, generationConfig);
+    if (onDelta) return await streamViaProxy(selectedModel, { parts }, generationConfig, onDelta, signal, call);
+    return await generateViaProxy(selectedModel, { parts }, generationConfig, signal, call);
+};
+
+const MAX_TOP_UP_ROUNDS = 2;
+
+// Question texts from every quiz saved in the library, for "only new questions" generation.
+const getLibraryQuestions = (): string[] => {
+  try {
+      const saved: Quiz[] = JSON.parse(safeGetItem('studygenius_quizzes') || '[]');
+      return saved.flatMap(quiz => (quiz.questions || []).map(q => q.question)).filter(Boolean);
+  } catch (e) {
+      console.warn("Could not read saved quizzes", e);
+      return [];
+  }
 };
 
+const TYPE_RULES = `Per-type format:
+- "multiple_choice": 4 distinct options; correct_answer copied exactly from the options.
+- "true_false": a statement; correct_answer is "True" or "False".
+- "open_ended": no options; correct_answer is a concise model answer; key_points lists 2-5 short, independently checkable points a complete answer must cover.
+- "flashcard": no options; question is the front, correct_answer the back.`;
+
+// One generation request: the whole input, or one section of a long input.
+interface QuizPlan {
+  content: string | FileData[];
+  targets: TypeTargets;
+  difficulty?: DifficultyTargets;
+  section?: string;
+  scope: string;
+}
+
+// onProgress receives every question parsed so far while the response is still streaming.
 export const generateQuizContent = async (
   inputMode: string,
   content: string | FileData[],
-  settings: QuizSettings
+  settings: QuizSettings,
+  onProgress?: (questions: Question[]) => void,
+  signal?: AbortSignal
 ): Promise<Question[]> => {
 
-  const hash = await computeHash(content, settings);
+  // "Only new questions" must not be answered from the shared cache, which holds questions the user already has.
+  const excludedQuestions = settings.onlyNewQuestions ? getLibraryQuestions() : [];
+  const hash = settings.onlyNewQuestions ? "" : await computeHash(content, settings);
   if (hash) {
       console.log("Checking cache for hash:", hash);
       const cachedQuiz = await checkCache(hash);
@@ -390,11 +778,12 @@ export const generateQuizContent = async (
         items: {
           type: Type.OBJECT,
           properties: {
-            type: { type: Type.STRING, enum: Object.values(QuestionType) },
+            type: { type: Type.STRING, enum: PLAYABLE_QUESTION_TYPES },
             difficulty: { type: Type.STRING, enum: ["Easy", "Medium", "Hard"] },
             question: { type: Type.STRING },
             options: { type: Type.ARRAY, items: { type: Type.STRING } },
             correct_answer: { type: Type.STRING },
+            key_points: { type: Type.ARRAY, items: { type: Type.STRING } },
             explanation: { type: Type.STRING },
             scientific_warning: { type: Type.STRING }
           },
@@ -407,71 +796,156 @@ export const generateQuizContent = async (
 
   const languageRule = `CRITICAL RULE: ALL generated content MUST be strictly in ${settings.language}.`;
   let systemInstruction = `You are an Exam Generator. ${languageRule}`;
-  let promptContent = `Generate ${settings.quantity} questions.`;
+  const targets = getTypeTargets(settings);
+  const forcedType = getForcedItemType(settings);
 
   // Set prompt based on type (Simplified for brevity, logic remains same)
   if (settings.questionType === QuestionType.MULTIPLE_CHOICE) {
      systemInstruction += " Generate MCQs. Strict JSON output.";
   }
-  
-  const fullPrompt = `${basePrompt}\n${promptContent}`;
 
-  let jsonText: string | undefined;
+  const isArabic = settings.language === 'ar' || settings.language.toLowerCase().includes('arabic');
 
-  try {
-      // Use Proxy
-      jsonText = await generateWithGeminiProxy(content, settings, unifiedQuizSchema, systemInstruction, fullPrompt);
+  // Long TEXT / FILE inputs are generated section by section with proportional quotas (map),
+  // then merged in source order with duplicates removed across sections (reduce).
+  const sections = inputMode === InputMode.TEXT || inputMode === InputMode.FILE ? buildSourceSections(content) : [];
+  const isChunked = sections.length > 1;
+  const plans: QuizPlan[] = isChunked
+    ? splitTargets(targets, sections.map(s => s.weight)).map((sectionTargets, i) => ({
+        content: sections[i].content,
+        targets: sectionTargets,
+        difficulty: getDifficultyTargets(settings, totalOf(sectionTargets)),
+        section: sections[i].title,
+        scope: `\n### SOURCE SECTION ${i + 1} OF ${sections.length}: "${sections[i].title}"\nWrite questions ONLY about this section.`,
+      })).filter(plan => totalOf(plan.targets) > 0)
+    : [{ content, targets, difficulty: getDifficultyTargets(settings, totalOf(targets)), scope: '' }];
+  const generation = newGeneration('quiz', plans.length);
+
+  // Validated item -> Question. Memoized per key so streamed and final results share ids and option order.
+  const batchStamp = Date.now();
+  const mappedQuestions: Record<string, Question> = {};
+  const toQuestion = (q: ValidQuizItem, key: string, sourceSection?: string): Question => {
+      if (mappedQuestions[key]) return mappedQuestions[key];
+      mappedQuestions[key] = {
+          id: `q-${batchStamp}-${key}`,
+          type: q.type,
+          question: q.question,
+          options: q.options.length > 0 ? shuffleArray([...q.options]) : undefined,
+          correctAnswer: q.correctAnswer,
+          explanation: q.explanation,
+          keyPoints: q.keyPoints,
+          bloomLevel: q.difficulty,
+          scientificWarning: q.scientificWarning || null,
+          sourceSection,
+      };
+      return mappedQuestions[key];
+  };
 
-      if (!jsonText) throw new Error("Empty response from AI.");
+  // Questions from finished sections; each new section is de-duplicated against these.
+  let generatedQuiz: Question[] = [];
+  // Near-duplicates that were dropped, so top-ups can be told to avoid them.
+  const rejected: string[] = [];
 
-      let parsedData;
+  // The library is normalized once per generation, and each question is compared with it only
+  // once (by id), so streaming deltas don't re-scan the whole library.
+  const libraryPrints = excludedQuestions.map(fingerprintQuestion);
+  const libraryVerdicts = new Map<string, boolean>();
+  const inLibrary = (question: Question): boolean => {
+      if (!libraryVerdicts.has(question.id)) {
+          const print = fingerprintQuestion(question.question);
+          libraryVerdicts.set(question.id, libraryPrints.some(l => fingerprintsMatch(print, l)));
+      }
+      return libraryVerdicts.get(question.id)!;
+  };
+
+  const keepUnique = (questions: Question[], planTargets: TypeTargets, log = true) => {
+      const fresh = questions.filter(q => !inLibrary(q));
+      const { kept, dropped: repeated } = filterDuplicateQuestions(fresh, generatedQuiz.map(q => q.question));
+      const dropped = [...questions.filter(inLibrary), ...repeated];
+      if (log && dropped.length > 0) {
+          console.warn(`Dropped ${dropped.length} near-duplicate question(s)`);
+          rejected.push(...dropped.map(q => q.question));
+      }
+      return fitToTargets(kept, planTargets);
+  };
+
+  const runPlan = async (plan: QuizPlan, p: number): Promise<Question[]> => {
+      const difficultyLine = plan.difficulty ? `\nDIFFICULTY COUNTS: ${describeDifficulties(plan.difficulty)}.` : '';
+      const planPrompt = `${basePrompt}${plan.scope}\nGenerate ${describeTargets(plan.targets)}. Set each item's "type" field to its question type.${difficultyLine}\n${TYPE_RULES}`;
+
+      // Streamed items are validated one by one; only valid ones reach the player early.
+      const itemParser = createArrayItemParser('quiz');
+      const streamedValid: { index: number; item: ValidQuizItem }[] = [];
+      const streamedInvalid: QuizItemDefect[] = [];
+      let streamedCount = 0;
+      const handleDelta = onProgress ? (delta: string) => {
+          const items = itemParser.push(delta);
+          if (items.length === 0) return;
+          items.forEach(raw => {
+              const index = streamedCount++;
+              const result = validateQuizItem(raw, isArabic, forcedType);
+              if (result.ok) streamedValid.push({ index, item: result.value });
+              else streamedInvalid.push({ index, item: raw, defects: result.defects });
+          });
+          // Surplus items sit at the end of their type, so the fitted prefix stays stable while streaming.
+          const mapped = streamedValid.map(v => toQuestion(v.item, `${p}-${v.index}`, plan.section));
+          onProgress([...generatedQuiz, ...keepUnique(mapped, plan.targets, false)]);
+      } : undefined;
+
+      const jsonText = await generateWithGeminiProxy(plan.content, settings, unifiedQuizSchema, systemInstruction, planPrompt, handleDelta, signal, { generation, step: p === 0 ? 'generate' : 'section' });
+
+      let payload: { valid: { index: number; item: ValidQuizItem }[]; invalid: QuizItemDefect[] };
       try {
-          let cleanedText = jsonText.replace(/```json/g, '').replace(/```/g, '').trim();
-          const firstOpen = cleanedText.indexOf('{');
-          const lastClose = cleanedText.lastIndexOf('}');
-          if (firstOpen !== -1 && lastClose !== -1 && lastClose > firstOpen) {
-              cleanedText = cleanedText.substring(firstOpen, lastClose + 1);
-          }
-          parsedData = JSON.parse(cleanedText);
+          payload = validateQuizPayload(parseJsonResponse(jsonText), isArabic, forcedType);
       } catch (e) {
-          throw new Error("فشل في تحليل رد الذكاء الاصطناعي.");
+          // A truncated stream still leaves us every item that completed before the cut.
+          if (streamedCount === 0) throw e;
+          payload = { valid: streamedValid, invalid: streamedInvalid };
       }
 
-      if (!parsedData.quiz || !Array.isArray(parsedData.quiz)) throw new Error("Invalid format received from AI.");
-
-      const generatedQuiz = parsedData.quiz.map((q: any, index: number) => {
-          let options = q.options ? q.options.map((o: any) => String(o).trim()) : [];
-          let correctAnswer = String(q.correct_answer || "").trim();
-
-          // Fix 1: True/False Localization logic (Same as before)
-          if (q.type === QuestionType.TRUE_FALSE || q.type === 'true_false') {
-             if (!options || options.length < 2) {
-                const isAr = settings.language === 'ar' || settings.language.toLowerCase().includes('arabic');
-                options = isAr ? ["صح", "خطأ"] : ["True", "False"];
-                const lowerAns = correctAnswer.toLowerCase();
-                if (lowerAns.includes('true') || lowerAns === 't' || lowerAns.includes('صح')) correctAnswer = isAr ? "صح" : "True";
-                else correctAnswer = isAr ? "خطأ" : "False";
-             }
-          }
+      const planQuestions = payload.valid.map(v => toQuestion(v.item, `${p}-${v.index}`, plan.section));
+
+      if (payload.invalid.length > 0) {
+          console.warn(`${payload.invalid.length} generated question(s) failed validation, requesting repair`, payload.invalid);
+          const repaired = await repairQuizItems(payload.invalid, settings, unifiedQuizSchema, systemInstruction, isArabic, forcedType, signal, { generation, step: 'repair' });
+          // Appended (not re-inserted) so questions already on screen keep their positions.
+          repaired.forEach((item, i) => planQuestions.push(toQuestion(item, `${p}-r${i}`, plan.section)));
+      }
 
-          // Fix 2: Answer Matching (Same as before)
-          if (options.length > 0 && !options.includes(correctAnswer)) {
-              const match = options.find((opt: string) => opt.includes(correctAnswer) || correctAnswer.includes(opt));
-              if (match) correctAnswer = match;
-              else correctAnswer = options[0]; // Fallback
+      // Near-duplicates (within the quiz, and against the library when asked) are dropped here
+      // and replaced by the top-up below, which is told to avoid them.
+      let kept = keepUnique(planQuestions, plan.targets);
+
+      // Verify the mix and ask for whatever types (and difficulties) came back short.
+      for (let round = 0; round < MAX_TOP_UP_ROUNDS; round++) {
+          const missing = getMissingCounts(kept, plan.targets);
+          if (totalOf(missing) === 0) break;
+          console.warn(`Quiz is short of ${describeTargets(missing)}, requesting top-up`);
+          const missingDifficulty = plan.difficulty ? getMissingDifficulties(kept, plan.difficulty) : undefined;
+          const scope = missingDifficulty ? `${plan.scope}\nPrefer these difficulties: ${describeDifficulties(missingDifficulty)}.` : plan.scope;
+          const avoid = [...generatedQuiz, ...kept].map(q => q.question).concat(rejected, excludedQuestions);
+          const extra = await topUpQuizItems(plan.content, settings, missing, avoid, unifiedQuizSchema, systemInstruction, `${basePrompt}${scope}`, isArabic, forcedType, signal, { generation, step: 'top_up' });
+          if (extra.length === 0) break;
+          kept = keepUnique([...kept, ...extra.map((item, i) => toQuestion(item, `${p}-t${round}-${i}`, plan.section))], plan.targets);
+      }
+      return kept;
+  };
+
+  try {
+      // Sections run one after another so the proxy's rate limits see one request at a time.
+      for (let p = 0; p < plans.length; p++) {
+          try {
+              generatedQuiz = [...generatedQuiz, ...await runPlan(plans[p], p)];
+          } catch (e) {
+              // One failed section should not throw away the others.
+              if (!isChunked || isAbortError(e)) throw e;
+              console.warn(`Section "${plans[p].section}" failed, continuing with the rest`, e);
           }
-          
-          return {
-              id: `q-${Date.now()}-${index}`,
-              type: q.type === 'multiple_choice' ? QuestionType.MULTIPLE_CHOICE : settings.questionType,
-              question: q.question,
-              options: options.length > 0 ? shuffleArray([...options]) : undefined,
-              correctAnswer: correctAnswer,
-              explanation: q.explanation || '',
-              bloomLevel: q.difficulty || null, 
-              scientificWarning: q.scientific_warning || null,
-          };
-      });
+          if (onProgress && isChunked) onProgress(generatedQuiz);
+      }
+      generatedQuiz = fitToTargets(generatedQuiz, targets);
+
+      if (generatedQuiz.length === 0) throw new AIResponseError("AI returned no usable questions");
 
       if (hash && generatedQuiz.length > 0) {
           let title = "Generated Quiz";
@@ -483,29 +957,153 @@ export const generateQuizContent = async (
       return generatedQuiz;
 
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     console.error("AI Generation Error:", error);
     if (error.message.includes("429")) throw new Error("Server overloaded (429). Please try again in a minute.");
     throw new Error(error.message || "Failed to generate content");
   }
 };
 
+// Follow-up request for question types that came back short or were dropped as duplicates.
+const topUpQuizItems = async (
+  content: string | FileData[],
+  settings: QuizSettings,
+  missing: TypeTargets,
+  avoid: string[],
+  quizSchema: any,
+  systemInstruction: string,
+  basePrompt: string,
+  isArabic: boolean,
+  forcedType: QuestionType | undefined,
+  signal: AbortSignal | undefined,
+  call: ProxyCall
+): Promise<ValidQuizItem[]> => {
+  const prompt = `${basePrompt}
+Generate ${describeTargets(missing)}. Set each item's "type" field to its question type.
+${TYPE_RULES}
+Do NOT repeat or rephrase any of these existing questions:
+${avoid.map(q => `- ${q}`).join('\n')}`;
+
+  try {
+      const responseText = await generateWithGeminiProxy(content, settings, quizSchema, systemInstruction, prompt, undefined, signal, call);
+      return validateQuizPayload(parseJsonResponse(responseText), isArabic, forcedType).valid.map(v => v.item);
+  } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn("Top-up request failed, keeping the questions we have", e);
+      return [];
+  }
+};
+
+// Sends only the broken items back to the model with their defects. Whatever still fails is dropped.
+const repairQuizItems = async (
+  broken: QuizItemDefect[],
+  settings: QuizSettings,
+  quizSchema: any,
+  systemInstruction: string,
+  isArabic: boolean,
+  forcedType: QuestionType | undefined,
+  signal: AbortSignal | undefined,
+  call: ProxyCall
+): Promise<ValidQuizItem[]> => {
+  const report = broken.map((b, i) => `Item ${i + 1}:\n${JSON.stringify(b.item)}\nDefects: ${b.defects.join('; ')}`).join('\n\n');
+  const prompt = `The following quiz items are invalid. Fix every defect listed and return them in the same order as { "quiz": [...] } with exactly ${broken.length} item(s).
+Rules: multiple_choice has 3-6 distinct options and correct_answer is copied exactly from the options; true_false has correct_answer "True" or "False"; open_ended keeps or adds its key_points; every item has a non-empty question and explanation. Keep the language: ${settings.language}.
+
+${report}`;
+
+  try {
+      const responseText = await generateViaProxy(resolveModel(), prompt, {
+          responseMimeType: "application/json",
+          responseSchema: quizSchema,
+          temperature: 0.1,
+          systemInstruction
+      }, signal, call);
+      const { valid, invalid } = validateQuizPayload(parseJsonResponse(responseText), isArabic, forcedType);
+      const dropped = broken.length - valid.length;
+      if (dropped > 0) console.warn(`Dropped ${dropped} question(s) that could not be repaired`, invalid);
+      return valid.slice(0, broken.length).map(v => v.item);
+  } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn(`Repair request failed, dropping ${broken.length} invalid question(s)`, e);
+      return [];
+  }
+};
+
+// Calls the model for a JSON payload and validates it. On defects, makes one repair round-trip
+// showing the model its own output; if that is still invalid the defects are thrown.
+const generateValidatedJson = async <T,>(
+  model: string,
+  contents: any,
+  config: any,
+  validate: (data: any) => Validation<T>,
+  label: string,
+  task: ProxyTask,
+  signal?: AbortSignal
+): Promise<T> => {
+  const generation = newGeneration(task);
+  const responseText = await generateViaProxy(model, contents, config, signal, { generation, step: 'generate' });
+  let defects: string[];
+  try {
+      const result = validate(parseJsonResponse(responseText));
+      if (result.ok) return result.value;
+      defects = result.defects;
+  } catch (e: any) {
+      defects = e instanceof AIResponseError && e.defects.length > 0 ? e.defects : [e.message];
+  }
+
+  console.warn(`Invalid ${label} from AI, requesting repair`, defects);
+  const repairPrompt = `Your previous JSON response (a ${label}) was invalid.
+Defects:
+- ${defects.join('\n- ')}
+
+Previous response:
+${responseText || '(empty)'}
+
+Return ONLY the corrected JSON with the same structure.`;
+  const repairedText = await generateViaProxy(model, repairPrompt, { responseMimeType: "application/json", systemInstruction: config.systemInstruction }, signal, { generation, step: 'repair' });
+  const repaired = validate(parseJsonResponse(repairedText));
+  if (repaired.ok) return repaired.value;
+  throw new AIResponseError(`AI returned an invalid ${label}`, repaired.defects);
+};
+
 
-export const gradeOpenEndedAnswer = async (userAnswer: string, correctAnswer: string): Promise<GradingResult> => {
-  const prompt = `Grade this answer. Correct: "${correctAnswer}". Student: "${userAnswer}". JSON: { "verdict": "Correct"|"Incorrect", "similarity_score": number, "feedback": "string" }`;
-  const result = await generateViaProxy('gemini-2.5-flash', prompt, { responseMimeType: "application/json" });
-  return JSON.parse(result || "{}");
+// Rubric grading: one credit (0 / 0.5 / 1) per key point; the verdict and score are computed from them.
+export const gradeOpenEndedAnswer = async (
+  userAnswer: string,
+  question: Pick<Question, 'question' | 'correctAnswer' | 'keyPoints'>,
+  signal?: AbortSignal
+): Promise<GradingResult> => {
+  const keyPoints = getRubricPoints(question);
+  const prompt = `Grade the student's answer against the rubric.
+Question: "${question.question}"
+Correct: "${question.correctAnswer}"
+Key points:
+${keyPoints.map((p, i) => `${i + 1}. ${p}`).join('\n')}
+Student: "${userAnswer}"
+
+For EACH key point, in the same order, award 1 if the answer covers it, 0.5 if it is partly or vaguely covered, 0 if it is missing or wrong. Judge meaning, not wording, and ignore spelling mistakes.
+Write feedback in the student's language; each point's feedback says briefly what was covered or missed.
+JSON: { "rubric": [{ "point": "string", "awarded": 0 | 0.5 | 1, "feedback": "string" }], "feedback": "string" }`;
+  return await generateValidatedJson(resolveModel(), prompt, { responseMimeType: "application/json" }, data => validateGradingResult(data, keyPoints), 'grading result', 'grading', signal);
 };
 
 export const generateStudyGuide = async (
   mode: InputMode,
   content: string | FileData[],
   language: string,
-  thinking: boolean
-): Promise<{ title: string, content: string, topics: string[] }> => {
-  
-  const model = thinking ? 'gemini-3-pro-preview' : 'gemini-2.5-flash';
+  thinking: boolean,
+  signal?: AbortSignal,
+  refresh = false // Regenerate: skip the cache lookup, then replace the cached copy
+): Promise<StudyGuidePayload> => {
+
+  const hash = await computeGuideHash(content, language, thinking);
+  const cached = refresh ? null : await checkGuideCache(hash);
+  if (cached) return cached;
+
+  const model = resolveModel(thinking ? 'thinking' : 'default');
   const parts: any[] = [];
   if (mode === InputMode.FILE) {
+     assertFilesSupported(content as FileData[]);
      (content as FileData[]).forEach(file => parts.push({ inlineData: { mimeType: file.mimeType, data: file.data } }));
      parts.push({ text: `Generate a comprehensive study guide.` });
   } else {
@@ -518,20 +1116,149 @@ export const generateStudyGuide = async (
   const config: any = { responseMimeType: "application/json" };
   if (thinking && model.includes('gemini-3')) config.thinkingConfig = { thinkingBudget: 32768 };
 
-  const responseText = await generateViaProxy(model, { parts }, config);
-  return JSON.parse(responseText || "{}");
+  const guide = await generateValidatedJson(model, { parts }, config, validateStudyGuide, 'study guide', 'guide', signal);
+  await saveGuideCache(hash, guide);
+  return guide;
+};
+
+const SECTION_ACTION_TASKS: Record<Exclude<GuideSectionAction, 'translate'>, string> = {
+  expand: 'Expand this section: add depth, missing details and clearer explanations.',
+  simplify: 'Rewrite this section in simpler words for a beginner, keeping every key idea.',
+  examples: 'Keep this section as it is and add 2-3 concrete, worked examples.',
+  regenerate: 'Write this section again from scratch, covering the same subject more clearly and accurately.'
 };
 
-export const sendChatMessage = async (history: ChatMessage[], newMessage: string): Promise<string> => {
+// Rewrites one section of a guide. Returns Markdown for that section only; the caller splices it back in.
+export const reviseGuideSection = async (
+  guideTitle: string,
+  section: string,
+  action: GuideSectionAction,
+  language: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  const task = action === 'translate'
+    ? `Translate this section into ${language}, keeping its Markdown structure.`
+    : SECTION_ACTION_TASKS[action];
+  const prompt = `STUDY GUIDE: "${guideTitle}"
+TASK: ${task}
+
+SECTION:
+${section}`;
+  const systemInstruction = `You edit one section of a study guide. Return only the new section as Markdown, starting with its heading, without code fences or commentary. Write in ${language}.`;
+  const text = await generateViaProxy(resolveModel(), prompt, { systemInstruction }, signal, singleCall('section'));
+  const cleaned = (text || '').replace(/^\s*```(?:markdown|md)?\s*\n/i, '').replace(/\n```\s*$/, '').trim();
+  if (!cleaned) throw new AIResponseError('Empty response from AI');
+  return cleaned;
+};
+
+// Material the chat answers from: passages built from a quiz, study guide or files, plus an optional focus question.
+export interface ChatGrounding {
+  title: string;
+  passages: SourcePassage[];
+  focus?: ChatFocus;
+}
+
+export interface ChatReply {
+  text: string;
+  references: ChatReference[];
+}
+
+const buildGroundedPrompt = (grounding: ChatGrounding, passages: SourcePassage[], transcript: string): string => {
+  const sourceBlock = passages.map(p => p.file
+    ? `[${p.id}] (${p.label}) attached file; cite pages as [${p.id}, p. N]`
+    : `[${p.id}] (${p.label})\n${p.text}`).join('\n\n');
+  const focus = grounding.focus;
+  const focusBlock = focus ? `
+THE STUDENT IS ASKING ABOUT THIS QUESTION:
+Question: ${focus.question}
+Student's answer: ${focus.userAnswer || '(none)'}
+Correct answer: ${focus.correctAnswer}
+Explanation: ${focus.explanation}
+` : '';
+  return `STUDY MATERIAL: "${grounding.title}"
+${passages.length > 0 ? `SOURCE PASSAGES:\n${sourceBlock}\n` : ''}${focusBlock}
+CONVERSATION:
+${transcript}`;
+};
+
+export interface ChatOptions {
+  grounding?: ChatGrounding | null;
+  summary?: string; // Summary of the messages left out of `history`
+  onDelta?: (delta: string) => void; // Streams the reply as it is written
+}
+
+const CHAT_HISTORY_CHAR_BUDGET = 12000;
+const CHAT_KEEP_RECENT_MESSAGES = 6;
+
+// Folds older turns into a running summary once the verbatim history outgrows the budget,
+// always keeping the last few messages word for word. Returns the thread's state unchanged when nothing needs folding.
+export const compactChatHistory = async (
+  messages: ChatMessage[],
+  summary: string | undefined,
+  summarizedCount: number,
+  signal?: AbortSignal
+): Promise<{ summary?: string; summarizedCount: number }> => {
+  const pending = messages.slice(summarizedCount);
+  const size = pending.reduce((sum, m) => sum + m.text.length, 0);
+  if (size <= CHAT_HISTORY_CHAR_BUDGET || pending.length <= CHAT_KEEP_RECENT_MESSAGES) return { summary, summarizedCount };
+
+  const folded = pending.slice(0, pending.length - CHAT_KEEP_RECENT_MESSAGES);
+  const prompt = `Summarize this tutoring conversation so it can continue without the full transcript. Keep the topics covered, the facts and definitions the assistant gave, and the student's open questions and misunderstandings. Write in the conversation's language, at most 200 words.
+${summary ? `\nSUMMARY SO FAR:\n${summary}\n` : ''}
+NEW MESSAGES:
+${folded.map(msg => `[${msg.role}]: ${msg.text}`).join('\n')}`;
+  const text = (await generateViaProxy(resolveModel(), prompt, { systemInstruction: "You write short, faithful summaries of conversations." }, signal, singleCall('chat'))).trim();
+  if (!text) return { summary, summarizedCount };
+  return { summary: text, summarizedCount: summarizedCount + folded.length };
+};
+
+export const sendChatMessage = async (
+  history: ChatMessage[],
+  newMessage: string,
+  options: ChatOptions = {},
+  signal?: AbortSignal
+): Promise<ChatReply> => {
+  const { grounding, summary, onDelta } = options;
+  const generate = (contents: any, config: any) => onDelta
+    ? streamViaProxy(resolveModel(), contents, config, onDelta, signal, singleCall('chat'))
+    : generateViaProxy(resolveModel(), contents, config, signal, singleCall('chat'));
   const parts = history.map(msg => `[${msg.role}]: ${msg.text}`).join('\n');
-  const fullPrompt = `${parts}\n[user]: ${newMessage}\n[model]:`;
-  
-  return await generateViaProxy('gemini-2.5-flash', fullPrompt, { systemInstruction: "You are a helpful study assistant." });
+  const earlier = summary ? `[summary of earlier conversation]: ${summary}\n` : '';
+  const fullPrompt = `${earlier}${parts}\n[user]: ${newMessage}\n[model]:`;
+
+  if (!grounding) {
+    const text = await generate(fullPrompt, { systemInstruction: "You are a helpful study assistant. Format answers in Markdown; use tables when comparing things." });
+    return { text, references: [] };
+  }
+
+  // Retrieve with the new message plus the focus question and previous turn, so follow-ups ("why?") stay on topic.
+  const previousQuestion = [...history].reverse().find(m => m.role === 'user')?.text || '';
+  const focusQuery = grounding.focus ? `${grounding.focus.question} ${grounding.focus.correctAnswer}` : '';
+  const passages = retrievePassages(grounding.passages, `${newMessage} ${focusQuery} ${previousQuestion}`);
+  const attachedFiles = passages.filter(p => p.file).map(p => p.file as FileData);
+  if (attachedFiles.length > 0) assertFilesSupported(attachedFiles);
+
+  const prompt = buildGroundedPrompt(grounding, passages, fullPrompt);
+  const systemInstruction = `You are a study assistant helping a student with "${grounding.title}". Base your answers on the numbered source passages and cite them inline, e.g. [S2], right after the sentence they support. If the passages do not cover the question, say so briefly, then answer from general knowledge without citations. Reply in the language the student writes in, formatted in Markdown.`;
+  const contents = attachedFiles.length > 0
+    ? { parts: [...attachedFiles.map(f => ({ inlineData: { mimeType: f.mimeType, data: f.data } })), { text: prompt }] }
+    : prompt;
+
+  const text = await generate(contents, { systemInstruction });
+  const references = extractCitations(text)
+    .map(id => passages.find(p => p.id === id))
+    .filter((p): p is SourcePassage => !!p)
+    .map(p => ({ id: p.id, label: p.label, excerpt: p.file ? p.label : p.text.substring(0, 240) }));
+  return { text, references };
 };
 
-export const generateSpacedRepetitionSchedule = async (studyDate: string, topic: string): Promise<CalendarEvent[]> => {
-    const prompt = `Topic: ${topic}, Date: ${studyDate}. Generate Spaced Repetition Schedule (1,3,7,14,30 days). JSON: { "schedule": [{ "title", "start" (YYYY-MM-DD), "description", "color" }] }`;
-    const responseText = await generateViaProxy('gemini-2.5-flash', prompt, { responseMimeType: "application/json" });
-    const data = JSON.parse(responseText || "{}");
-    return (data.schedule || []).map((ev: any) => ({...ev, allDay: true}));
+// The review plan's dates are computed locally (utils/reviewSchedule.ts); this only asks the model
+// to write what to do in each session.
+export const writeReviewNotes = async (topic: string, reviews: PlannedReview[], language: AppLanguage, signal?: AbortSignal): Promise<string[]> => {
+    const lines = reviews.map(r => `Review ${r.step}: ${r.start} (${r.intervalDays} days after studying)`).join('\n');
+    const prompt = `Topic: ${topic}
+Language: ${language === 'ar' ? 'Arabic' : 'English'}
+Write a short description (one or two sentences) of what the student should do in each spaced-repetition review session below, building from recall towards mixed practice. Return JSON: { "notes": [one string per review, in order] } with exactly ${reviews.length} entries.
+${lines}`;
+    return await generateValidatedJson(resolveModel(), prompt, { responseMimeType: "application/json" }, validateReviewNotes(reviews.length), 'set of review notes', 'notes', signal);
 };
@@ -0,0 +1,129 @@
+import { Question, InputMode, FileData } from "../types";
+
+// IndexedDB mirror of the server cache, keyed by the same content hash, a queue of
+// server saves made while offline, and the source input of saved study guides. Every call degrades to a no-op when IndexedDB is unavailable
+// (private mode, old browsers), so callers never need to guard it.
+
+const DB_NAME = 'studygenius';
+const DB_VERSION = 2;
+
+type StoreName = 'quizCache' | 'guideCache' | 'pendingSaves' | 'guideSources';
+
+export interface LocalQuizEntry {
+  hash: string;
+  title: string;
+  questions: Question[];
+  savedAt: number;
+}
+
+export interface LocalGuideEntry {
+  hash: string;
+  title: string;
+  content: string;
+  topics: string[];
+  savedAt: number;
+}
+
+export interface PendingSave {
+  id?: number;
+  kind?: 'quiz' | 'guide'; // Entries queued before guides were cached server-side have no kind: quizzes
+  hash: string;
+  title: string;
+  questions?: Question[];
+  guide?: { content: string; topics: string[] };
+  queuedAt: number;
+}
+
+// What a study guide was generated from, so it can be regenerated later. Kept here rather than
+// in localStorage because pasted text and uploaded files can be large.
+export interface GuideSourceEntry {
+  guideId: string;
+  mode: InputMode;
+  content: string | FileData[];
+  savedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise(resolve => {
+    try {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('quizCache')) db.createObjectStore('quizCache', { keyPath: 'hash' });
+        if (!db.objectStoreNames.contains('guideCache')) db.createObjectStore('guideCache', { keyPath: 'hash' });
+        if (!db.objectStoreNames.contains('pendingSaves')) db.createObjectStore('pendingSaves', { keyPath: 'id', autoIncrement: true });
+        if (!db.objectStoreNames.contains('guideSources')) db.createObjectStore('guideSources', { keyPath: 'guideId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("IndexedDB unavailable, offline cache disabled", request.error);
+        resolve(null);
+      };
+    } catch (e) {
+      console.warn("IndexedDB unavailable, offline cache disabled", e);
+      resolve(null);
+    }
+  });
+  return dbPromise;
+};
+
+const run = async <T,>(storeName: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest, fallback: T): Promise<T> => {
+  const db = await openDb();
+  if (!db) return fallback;
+  return new Promise(resolve => {
+    try {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result === undefined ? fallback : request.result);
+      request.onerror = () => {
+        console.warn(`IndexedDB ${storeName} request failed`, request.error);
+        resolve(fallback);
+      };
+    } catch (e) {
+      console.warn(`IndexedDB ${storeName} request failed`, e);
+      resolve(fallback);
+    }
+  });
+};
+
+// --- Quiz / Guide cache ---
+
+export const getLocalQuiz = (hash: string) =>
+  run<LocalQuizEntry | null>('quizCache', 'readonly', store => store.get(hash), null);
+
+export const putLocalQuiz = (entry: LocalQuizEntry) =>
+  run<unknown>('quizCache', 'readwrite', store => store.put(entry), null);
+
+export const getLocalGuide = (hash: string) =>
+  run<LocalGuideEntry | null>('guideCache', 'readonly', store => store.get(hash), null);
+
+export const putLocalGuide = (entry: LocalGuideEntry) =>
+  run<unknown>('guideCache', 'readwrite', store => store.put(entry), null);
+
+// --- Pending server saves ---
+
+export const queuePendingSave = (save: PendingSave) =>
+  run<unknown>('pendingSaves', 'readwrite', store => store.add(save), null);
+
+export const getPendingSaves = () =>
+  run<PendingSave[]>('pendingSaves', 'readonly', store => store.getAll(), []);
+
+export const countPendingSaves = () =>
+  run<number>('pendingSaves', 'readonly', store => store.count(), 0);
+
+export const deletePendingSave = (id: number) =>
+  run<unknown>('pendingSaves', 'readwrite', store => store.delete(id), null);
+
+// --- Study guide sources ---
+
+export const getGuideSource = (guideId: string) =>
+  run<GuideSourceEntry | null>('guideSources', 'readonly', store => store.get(guideId), null);
+
+export const putGuideSource = (entry: GuideSourceEntry) =>
+  run<unknown>('guideSources', 'readwrite', store => store.put(entry), null);
+
+export const deleteGuideSource = (guideId: string) =>
+  run<unknown>('guideSources', 'readwrite', store => store.delete(guideId), null);
@@ -0,0 +1,58 @@
+import { FileData } from '../types';
+import { INLINE_BYTES_BUDGET, LONG_PDF_PAGES, pdfPagesToTextFile } from '../utils/sourceSections';
+
+// Long PDFs are read page by page in the browser and sent as text, so quiz generation can split
+// them by page and heading like any other long text. pdf.js is only loaded when a PDF is.
+
+// Below this, the PDF is mostly scans or figures: it is sent as it is so the model can see them.
+const MIN_CHARS_PER_PAGE = 100;
+
+const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+// 'short' for PDFs that fit in one request anyway, null when there is too little text to use.
+const readPageTexts = async (file: FileData): Promise<string[] | 'short' | null> => {
+  const pdfjs = await loadPdfJs();
+  const data = Uint8Array.from(atob(file.data), c => c.charCodeAt(0));
+  const doc = await pdfjs.getDocument({ data }).promise;
+  try {
+    if (doc.numPages <= LONG_PDF_PAGES && file.data.length <= INLINE_BYTES_BUDGET) return 'short';
+    const pages: string[] = [];
+    for (let n = 1; n <= doc.numPages; n++) {
+      const page = await doc.getPage(n);
+      const { items } = await page.getTextContent();
+      pages.push(items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '').join(''));
+      page.cleanup();
+    }
+    const chars = pages.reduce((sum, text) => sum + text.trim().length, 0);
+    return chars >= MIN_CHARS_PER_PAGE * pages.length ? pages : null;
+  } finally {
+    await doc.destroy();
+  }
+};
+
+// Replaces each long PDF that has a text layer with its page text. Long PDFs that can't be read
+// are left as they were and named in `unreadable`; the generation still works, they just can't be split.
+export const readLongPdfsAsText = async (content: string | FileData[]): Promise<{ content: string | FileData[]; unreadable: string[] }> => {
+  if (typeof content === 'string' || !content.some(f => f.mimeType === 'application/pdf')) return { content, unreadable: [] };
+  const unreadable: string[] = [];
+  const files = await Promise.all(content.map(async file => {
+    if (file.mimeType !== 'application/pdf') return file;
+    try {
+      const pages = await readPageTexts(file);
+      if (pages === 'short') return file;
+      if (pages) return pdfPagesToTextFile(file, pages);
+    } catch (e) {
+      console.warn(`Could not read the text of ${file.name}, sending it whole`, e);
+    }
+    unreadable.push(file.name);
+    return file;
+  }));
+  return { content: files, unreadable };
+};
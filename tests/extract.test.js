@@ -0,0 +1,29 @@
+// Checks the address block list that keeps /api/extract off the server's own network.
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { isPrivateAddress } = require('../api/_lib/extract');
+
+test('private, loopback and reserved IPv4 addresses are blocked', () => {
+    ['0.0.0.0', '0.1.2.3', '10.0.0.1', '127.0.0.1', '169.254.169.254', '172.16.0.1', '192.168.1.1',
+        '100.64.0.1', '224.0.0.1', '239.255.255.250', '255.255.255.255']
+        .forEach(address => assert.equal(isPrivateAddress(address), true, address));
+});
+
+test('IPv4 inside IPv6 is checked as IPv4, in dotted and hex form', () => {
+    ['::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '::ffff:0:0', '::ffff:e000:1',
+        '0:0:0:0:0:ffff:7f00:1', '::127.0.0.1', '::7f00:1', '::', '::1', '::0.0.0.0']
+        .forEach(address => assert.equal(isPrivateAddress(address), true, address));
+    assert.equal(isPrivateAddress('::ffff:5db8:d822'), false);
+    assert.equal(isPrivateAddress('::ffff:93.184.216.34'), false);
+});
+
+test('local, site-local and multicast IPv6 ranges are blocked', () => {
+    ['fc00::1', 'fd12:3456::1', 'fe80::1', 'fe80::1%eth0', 'febf::1', 'fec0::1', 'feff::1', 'ff02::1', 'ff0e::fb']
+        .forEach(address => assert.equal(isPrivateAddress(address), true, address));
+});
+
+test('public addresses are allowed', () => {
+    ['93.184.216.34', '8.8.8.8', '172.32.0.1', '100.128.0.1', '2606:2800:220:1:248:1893:25c8:1946', '2001:4860:4860::8888']
+        .forEach(address => assert.equal(isPrivateAddress(address), false, address));
+});
@@ -0,0 +1,115 @@
+// Checks the fake provider's responses and failure fixtures. Run with `npm test` (node:test, no deps).
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const path = require('node:path');
+const { fakeAdapter, TASK_KINDS } = require('../api/_lib/fakeProvider');
+
+delete process.env.FAKE_AI_FAILURE;
+
+const QUIZ_PROMPT = 'Generate exactly 5 questions: 3 "multiple_choice", 2 "true_false". Return { "quiz": [...] }';
+const quizRequest = (marker = '', language = 'English') => ({
+    contents: { parts: [{ text: `Language: ${language}. ${QUIZ_PROMPT} ${marker}` }] },
+    config: {},
+    task: 'quiz'
+});
+
+const readStream = async (request) => {
+    let text = '';
+    for await (const delta of await fakeAdapter.stream(request)) text += delta;
+    return text;
+};
+
+test('the same prompt always gets the same answer', async () => {
+    assert.equal(await fakeAdapter.generate(quizRequest()), await fakeAdapter.generate(quizRequest()));
+});
+
+test('a quiz has the requested mix of types', async () => {
+    const { quiz } = JSON.parse(await fakeAdapter.generate(quizRequest()));
+    assert.equal(quiz.filter(q => q.type === 'multiple_choice').length, 3);
+    assert.equal(quiz.filter(q => q.type === 'true_false').length, 2);
+    quiz.filter(q => q.type === 'multiple_choice').forEach(q => assert.ok(q.options.includes(q.correct_answer)));
+});
+
+test('every answer is one of its options, in English and Arabic', async () => {
+    for (const language of ['English', 'Arabic']) {
+        const { quiz } = JSON.parse(await fakeAdapter.generate(quizRequest('', language)));
+        quiz.filter(q => q.options.length > 0).forEach(q => assert.ok(q.options.includes(q.correct_answer), `${language}: ${q.correct_answer}`));
+    }
+    const { quiz } = JSON.parse(await fakeAdapter.generate(quizRequest('', 'Arabic')));
+    assert.deepEqual(quiz.find(q => q.type === 'true_false').options, ['صح', 'خطأ']);
+});
+
+test('the tasks the client sends are the ones the fake provider answers', () => {
+    const service = fs.readFileSync(path.join(__dirname, '../services/geminiService.ts'), 'utf8');
+    const union = service.match(/type ProxyTask = ([^;]+);/);
+    assert.ok(union, 'ProxyTask not found in services/geminiService.ts');
+    const clientTasks = [...union[1].matchAll(/'([a-z_]+)'/g)].map(m => m[1]);
+    assert.deepEqual([...clientTasks].sort(), [...TASK_KINDS].sort());
+});
+
+test('the task, not the prompt wording, picks the response shape', async () => {
+    const request = (task, text) => ({ contents: text, config: { responseMimeType: 'application/json' }, task });
+    const grading = JSON.parse(await fakeAdapter.generate(request('grading', 'A Study Guide question with "notes".\nCorrect: "a"\nKey points:\n1. a\nStudent: "a"')));
+    assert.deepEqual(grading.rubric.map(r => r.awarded), [1]);
+    const guide = JSON.parse(await fakeAdapter.generate(request('guide', 'Summarize this.')));
+    assert.ok(guide.title && guide.content && Array.isArray(guide.topics));
+    const notes = JSON.parse(await fakeAdapter.generate(request('notes', 'Topic: Cells\nReview 1: a\nReview 2: b')));
+    assert.equal(notes.notes.length, 2);
+    const section = await fakeAdapter.generate({ contents: 'TASK: Expand.\n\nSECTION:\n## Cells\nText', config: {}, task: 'section' });
+    assert.ok(section.startsWith('## Cells'));
+});
+
+test('streaming returns the same text as a single response', async () => {
+    assert.equal(await readStream(quizRequest()), await fakeAdapter.generate(quizRequest()));
+});
+
+test('#fake:429 raises a rate-limit error', async () => {
+    await assert.rejects(fakeAdapter.generate(quizRequest('#fake:429')), error => error.status === 429);
+});
+
+test('#fake:empty returns no text', async () => {
+    assert.equal(await fakeAdapter.generate(quizRequest('#fake:empty')), '');
+});
+
+test('#fake:malformed returns JSON that does not parse', async () => {
+    const text = await fakeAdapter.generate(quizRequest('#fake:malformed'));
+    assert.ok(text.length > 0);
+    assert.throws(() => JSON.parse(text));
+});
+
+test('#fake:invalid returns a quiz with a defective multiple-choice item', async () => {
+    const { quiz } = JSON.parse(await fakeAdapter.generate(quizRequest('#fake:invalid')));
+    assert.equal(quiz[0].options.length, 1);
+    assert.ok(!quiz[0].options.includes(quiz[0].correct_answer));
+});
+
+test('FAKE_AI_FAILURE applies when the prompt has no marker', async () => {
+    process.env.FAKE_AI_FAILURE = 'empty';
+    try {
+        assert.equal(await fakeAdapter.generate(quizRequest()), '');
+    } finally {
+        delete process.env.FAKE_AI_FAILURE;
+    }
+});
+
+test('clients can pick the fake provider outside production only', () => {
+    const { getProviderAdapter } = require('../api/_lib/providers');
+    const saved = { NODE_ENV: process.env.NODE_ENV, AI_PROVIDER: process.env.AI_PROVIDER };
+    try {
+        delete process.env.AI_PROVIDER;
+        process.env.NODE_ENV = 'development';
+        assert.equal(getProviderAdapter('fake').name, 'fake');
+        process.env.NODE_ENV = 'production';
+        assert.throws(() => getProviderAdapter('fake'), error => error.status === 400);
+        assert.equal(getProviderAdapter('groq').name, 'groq');
+        process.env.AI_PROVIDER = 'fake';
+        assert.equal(getProviderAdapter('gemini').name, 'fake');
+    } finally {
+        for (const [key, value] of Object.entries(saved)) {
+            if (value === undefined) delete process.env[key];
+            else process.env[key] = value;
+        }
+    }
+});
@@ -0,0 +1,68 @@
+// Checks which open-ended answers are settled on the device and which go to the AI grader.
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+require('./registerTs');
+const { preGradeOpenEndedAnswer } = require('../utils/grading.ts');
+
+const LABELS = { exact: 'exact', covered: 'covered', notCovered: 'notCovered', noAnswer: 'noAnswer', pointCovered: '+', pointMissing: '-' };
+const PHOTOSYNTHESIS = {
+    correctAnswer: 'Plants use sunlight to turn carbon dioxide and water into glucose and oxygen.',
+    keyPoints: ['uses sunlight', 'carbon dioxide and water', 'produces glucose and oxygen']
+};
+const grade = (answer, question = PHOTOSYNTHESIS) => preGradeOpenEndedAnswer(answer, question, LABELS);
+
+test('blank and "I don\'t know" answers get no credit', () => {
+    ['', '   ', 'the', "I don't know", 'لا أعرف'].forEach(answer => {
+        const result = grade(answer);
+        assert.equal(result.score, 0, answer);
+        assert.equal(result.feedback, 'noAnswer');
+    });
+});
+
+test('an answer covering every keyword of every key point gets full credit', () => {
+    const result = grade('It uses sunlight and produces glucose and oxygen from carbon dioxide and water');
+    assert.equal(result.score, 1);
+    assert.equal(result.feedback, 'covered');
+    assert.equal(result.gradedLocally, true);
+});
+
+test('an answer with almost no keywords gets no credit', () => {
+    const result = grade('Roots absorb minerals from the soil.');
+    assert.equal(result.score, 0);
+    assert.equal(result.feedback, 'notCovered');
+});
+
+test('the middle band goes to the AI grader', () => {
+    assert.equal(grade('Sunlight makes glucose.'), null);
+    assert.equal(grade('Uses sunlight, carbon dioxide and water to make sugar and oxygen'), null);
+});
+
+test('an added negation is never settled locally', () => {
+    assert.equal(grade('It does not use sunlight, carbon dioxide and water to produce glucose and oxygen'), null);
+});
+
+test('words must match whole, not by a shared prefix', () => {
+    const question = { correctAnswer: 'Mitosis', keyPoints: ['mitosis divides the cell'] };
+    assert.equal(grade('meiosis divides the cell', question), null);
+    assert.equal(grade('mitochondria divides the cell', question), null);
+});
+
+test('a rubric with too few keywords is never settled as uncovered', () => {
+    assert.equal(grade('Electrons', { correctAnswer: 'Protons', keyPoints: ['protons'] }), null);
+});
+
+test('Arabic answers are normalized before matching', () => {
+    const question = { correctAnswer: 'تستخدم النباتات ضوء الشمس لصنع الغذاء', keyPoints: ['ضوء الشمس', 'صنع الغذاء'] };
+    // Diacritics and the attached "ال" / "وال" prefixes are ignored.
+    assert.equal(grade('تسْتخدم النباتات ضوء الشّمس لصنع الغذاء', question).feedback, 'exact');
+    assert.equal(grade('يستخدم النبات ضوءَ الشمس في صنع والغذاء', question).score, 1);
+    assert.equal(grade('ضوء الشمس فقط', question), null);
+    assert.equal(grade('الجذور تمتص الماء والأملاح من التربة', question).feedback, 'notCovered');
+    assert.equal(grade('لا يستخدم ضوء الشمس لصنع الغذاء', question), null);
+});
+
+test('Arabic-Indic digits count as the same numbers', () => {
+    const question = { correctAnswer: '206 bones', keyPoints: ['206 bones'] };
+    assert.equal(grade('٢٠٦ bones', question).feedback, 'exact');
+});
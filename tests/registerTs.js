@@ -0,0 +1,13 @@
+// Lets node:test load the app's TypeScript modules: `require('./registerTs')` before requiring a .ts file.
+// Files are transpiled on the fly with the project's own TypeScript, without type-checking.
+
+const fs = require('node:fs');
+const ts = require('typescript');
+
+require.extensions['.ts'] = (module, filename) => {
+    const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+        fileName: filename
+    });
+    module._compile(outputText, filename);
+};
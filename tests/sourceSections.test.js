@@ -0,0 +1,27 @@
+// Checks that a long PDF's page text is split into page-aligned sections.
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+require('./registerTs');
+const { buildSourceSections, pdfPagesToTextFile, decodeBase64Text } = require('../utils/sourceSections.ts');
+
+const PDF = { id: 'f1', name: 'lecture.pdf', mimeType: 'application/pdf', data: '' };
+const page = (n) => `Lecture notes, page ${n}. ${'Photosynthesis turns light into chemical energy. '.repeat(40)}`;
+
+test('page text keeps non-Latin characters and marks each page', () => {
+    const file = pdfPagesToTextFile(PDF, ['البناء الضوئي', 'Cell division']);
+    assert.equal(file.mimeType, 'text/plain');
+    assert.equal(decodeBase64Text(file.data), '## Page 1\nالبناء الضوئي\n\n## Page 2\nCell division');
+});
+
+test('a long PDF is split into sections that start on page boundaries', () => {
+    const pages = Array.from({ length: 60 }, (_, i) => page(i + 1));
+    const sections = buildSourceSections([pdfPagesToTextFile(PDF, pages)]);
+    assert.ok(sections.length > 1);
+    sections.forEach(section => {
+        assert.match(section.title, /^lecture\.pdf: Page \d+$/);
+        assert.match(section.content, /^## Page \d+\n/);
+    });
+    const text = sections.map(s => s.content).join('\n\n');
+    assert.equal((text.match(/## Page \d+/g) || []).length, 60);
+});
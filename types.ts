@@ -18,29 +18,48 @@ export enum Difficulty {
 export type AppLanguage = 'ar' | 'en';
 export type AIProvider = 'gemini' | 'groq' | 'custom';
 
+export interface RubricPointResult {
+  point: string;
+  awarded: number; // Credit for this key point: 0, 0.5 or 1
+  feedback: string;
+}
+
 export interface GradingResult {
-  verdict: 'Correct' | 'Incorrect';
+  verdict: 'Correct' | 'Partial' | 'Incorrect';
   similarity_score: number;
   feedback: string;
+  score?: number; // Fractional credit 0..1 (average of the rubric points)
+  rubric?: RubricPointResult[];
+  gradedLocally?: boolean; // Settled on the device without an AI request
 }
 
-export interface Question {
+// Spaced repetition state (see utils/srs.ts); unset until the card is first rated
+export interface SrsState {
+  srsStatus?: 'learning' | 'review' | 'mastered';
+  nextReviewDate?: number;
+  easeFactor?: number;
+  interval?: number; // Days
+  repetitions?: number; // Successful reviews in a row
+  lapses?: number;
+  lastReviewedAt?: number;
+  firstReviewedAt?: number;
+}
+
+export interface Question extends SrsState {
   id: string;
   type: QuestionType;
   question: string;
   options?: string[];
   correctAnswer: string;
   explanation: string;
+  keyPoints?: string[]; // Open-ended rubric: points a full answer must cover
   bloomLevel?: string;
   userAnswer?: string;
   isCorrect?: boolean;
+  credit?: number; // 0..1; partial credit for open-ended answers
   gradingResult?: GradingResult;
   scientificWarning?: string | null;
-  // SRS Fields
-  srsStatus?: 'learning' | 'review' | 'mastered';
-  nextReviewDate?: number;
-  easeFactor?: number;
-  interval?: number;
+  sourceSection?: string; // Section of a long input the question was generated from
 }
 
 export interface QuizSettings {
@@ -50,6 +69,7 @@ export interface QuizSettings {
   maxMode?: boolean; // New: Exhaustive mode
   language: string;
   thinkingMode?: boolean; // New: Thinking Mode
+  onlyNewQuestions?: boolean; // Skip questions already saved in the library
   distribution?: {
     multipleChoice: number;
     trueFalse: number;
@@ -68,9 +88,30 @@ export interface Quiz {
   createdAt: number;
   questions: Question[];
   settings: QuizSettings;
-  score?: number;
+  score?: number; // Sum of per-question credit, may be fractional
   completed: boolean;
   timeSpentSeconds: number;
+  guideId?: string;    // Set when generated from a study guide section or topic
+  guideTopic?: string; // The topic or section heading it practises
+  examId?: string;     // Set on mock exams started from an exam countdown plan
+}
+
+// What a saved guide was generated from. The input itself (text, files) is kept in IndexedDB,
+// keyed by the guide id; this is the summary shown in the library.
+export interface StudyGuideSource {
+  mode: InputMode;
+  label: string; // Topic, URL, start of the pasted text or the file names
+  language: string;
+  thinking: boolean;
+}
+
+export type GuideSectionAction = 'expand' | 'simplify' | 'examples' | 'translate' | 'regenerate';
+
+// A section's Markdown as it was before a change, so the change can be reverted.
+export interface GuideSectionVersion {
+  content: string;
+  action: GuideSectionAction | 'manual' | 'revert'; // The change that replaced this version
+  savedAt: number;
 }
 
 export interface StudyGuide {
@@ -79,6 +120,8 @@ export interface StudyGuide {
   content: string; // Markdown content
   createdAt: number;
   topics: string[];
+  source?: StudyGuideSource;
+  sectionHistory?: Record<number, GuideSectionVersion[]>; // Keyed by section index, oldest first
 }
 
 export interface UserProfile {
@@ -88,7 +131,8 @@ export interface UserProfile {
   lastStudyDate: number;
 }
 
-export interface Mistake {
+// A wrong answer kept for review; it is also a flashcard in the "Due today" queue.
+export interface Mistake extends SrsState {
   id: string;
   questionId: string;
   quizTitle: string; 
@@ -113,11 +157,49 @@ export interface FileData {
   data: string; // Base64
 }
 
+export interface ChatReference {
+  id: string;      // Passage id cited in the reply, e.g. "S2"
+  label: string;   // Where it comes from, e.g. "Q3" or a guide heading
+  excerpt: string;
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  references?: ChatReference[];
+}
+
+// A single question the student wants to discuss ("Ask about this question").
+export interface ChatFocus {
+  question: string;
+  userAnswer?: string;
+  correctAnswer: string;
+  explanation: string;
+}
+
+// Material a chat is grounded in.
+export interface ChatContext {
+  kind: 'quiz' | 'study_guide' | 'files';
+  title: string;
+  quizId?: string;
+  guideId?: string;
+  files?: FileData[];
+  focus?: ChatFocus;
+}
+
+// A saved conversation. Older messages are folded into `summary` once the thread gets long;
+// the first `summarizedCount` messages are then only sent to the model through that summary.
+export interface ChatThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  context?: ChatContext | null;
+  summary?: string;
+  summarizedCount?: number;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface CalendarEvent {
@@ -127,3 +209,55 @@ export interface CalendarEvent {
   description: string;
   color?: string;
 }
+
+// A spaced-repetition review of a topic in the review plan, placed by utils/reviewSchedule.ts.
+export interface PlannedReview extends CalendarEvent {
+  id: string;
+  topic: string;
+  studyDate: string;    // YYYY-MM-DD the topic was first studied
+  step: number;         // 1-based position in the interval sequence
+  intervalDays: number; // Offset from studyDate the sequence asked for; `start` may differ
+  completedAt?: number;
+  rescheduledFrom?: string; // Original date of a missed session that was moved automatically
+}
+
+export interface ReviewPlanSettings {
+  intervals: number[];       // Days after the study date, ascending
+  blockedWeekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  maxPerDay: number;         // Reviews per day before another day is preferred
+}
+
+export interface ReviewPlan {
+  settings: ReviewPlanSettings;
+  reviews: PlannedReview[];
+}
+
+export type ExamSessionKind = 'learn' | 'review' | 'mock';
+
+export interface ExamTopic {
+  id: string;
+  name: string;
+  quizId?: string;   // Linked quiz: its scores and mistakes adapt the plan
+  guideId?: string;  // Linked study guide: quizzes made from it count too
+  learnedOn?: string; // YYYY-MM-DD its "new material" session was checked off
+}
+
+export interface ExamSessionRecord {
+  key: string;
+  date: string;
+  kind: ExamSessionKind;
+  topicIds: string[];
+  completedAt: number;
+}
+
+// An exam countdown: the inputs only. The day-by-day plan is rebuilt from them (utils/examPlan.ts)
+// each time it is shown, so it follows new scores and mistakes.
+export interface ExamPlan {
+  id: string;
+  title: string;
+  examDate: string; // YYYY-MM-DD
+  minutesPerDay: number;
+  topics: ExamTopic[];
+  completed: ExamSessionRecord[];
+  createdAt: number;
+}
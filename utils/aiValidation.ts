@@ -0,0 +1,200 @@
+import { QuestionType, GradingResult } from '../types';
+import { verdictForCredit } from './grading';
+
+// Runtime validation of AI JSON output. Validators never guess: anything they cannot
+// normalize unambiguously is reported as a defect so the caller can ask for a repair or drop it.
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; defects: string[] };
+
+export class AIResponseError extends Error {
+  defects: string[];
+  constructor(message: string, defects: string[] = []) {
+    super(defects.length > 0 ? `${message}: ${defects.join('; ')}` : message);
+    this.name = 'AIResponseError';
+    this.defects = defects;
+  }
+}
+
+// Strips Markdown fences / chatter around the outermost JSON object and parses it.
+export const parseJsonResponse = (text: string | undefined | null): any => {
+  if (!text || !text.trim()) throw new AIResponseError('Empty response from AI');
+  let cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  const firstOpen = cleaned.indexOf('{');
+  const lastClose = cleaned.lastIndexOf('}');
+  if (firstOpen !== -1 && lastClose > firstOpen) cleaned = cleaned.substring(firstOpen, lastClose + 1);
+  try {
+    return JSON.parse(cleaned);
+  } catch (e) {
+    throw new AIResponseError('AI response is not valid JSON');
+  }
+};
+
+const isNonEmptyString = (value: any): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// --- Quiz questions ---
+
+export interface ValidQuizItem {
+  type: QuestionType;
+  question: string;
+  options: string[];
+  correctAnswer: string;
+  explanation: string;
+  keyPoints?: string[];
+  difficulty?: string;
+  scientificWarning?: string;
+}
+
+export interface QuizItemDefect {
+  index: number;
+  item: any;
+  defects: string[];
+}
+
+// Item types the player can render; SHORT_QUIZ / COMPREHENSIVE are request presets, never item types.
+export const PLAYABLE_QUESTION_TYPES = [QuestionType.MULTIPLE_CHOICE, QuestionType.TRUE_FALSE, QuestionType.OPEN_ENDED, QuestionType.FLASHCARD];
+const MIN_MC_OPTIONS = 3;
+const MAX_MC_OPTIONS = 6;
+const MAX_KEY_POINTS = 6;
+
+const TRUE_WORDS = ['true', 't', 'صح', 'صحيح', 'صواب'];
+const FALSE_WORDS = ['false', 'f', 'خطأ', 'خطا', 'غلط', 'خاطئ'];
+
+const toBoolean = (answer: string): boolean | null => {
+  const normalized = answer.trim().toLowerCase().replace(/[.!]$/, '');
+  if (TRUE_WORDS.includes(normalized)) return true;
+  if (FALSE_WORDS.includes(normalized)) return false;
+  return null;
+};
+
+// forcedType replays any item as that type (used for open-ended / flashcard-only requests).
+export const validateQuizItem = (raw: any, isArabic: boolean, forcedType?: QuestionType): Validation<ValidQuizItem> => {
+  const defects: string[] = [];
+  if (!raw || typeof raw !== 'object') return { ok: false, defects: ['item is not an object'] };
+
+  const type = (forcedType || raw.type) as QuestionType;
+  if (!PLAYABLE_QUESTION_TYPES.includes(type)) defects.push(`unknown type "${raw.type}"`);
+  if (!isNonEmptyString(raw.question)) defects.push('question text is empty');
+  if (!isNonEmptyString(raw.explanation)) defects.push('explanation is empty');
+
+  let options: string[] = Array.isArray(raw.options) ? raw.options.map((o: any) => String(o).trim()).filter(Boolean) : [];
+  let correctAnswer = raw.correct_answer === undefined || raw.correct_answer === null ? '' : String(raw.correct_answer).trim();
+  if (!correctAnswer) defects.push('correct_answer is empty');
+
+  if (type === QuestionType.MULTIPLE_CHOICE) {
+    if (options.length < MIN_MC_OPTIONS || options.length > MAX_MC_OPTIONS) {
+      defects.push(`multiple choice needs ${MIN_MC_OPTIONS}-${MAX_MC_OPTIONS} options, got ${options.length}`);
+    }
+    if (new Set(options.map(o => o.toLowerCase())).size !== options.length) defects.push('options contain duplicates');
+    if (correctAnswer) {
+      // Only exact matches (ignoring case/whitespace) are accepted; partial matches are ambiguous.
+      const match = options.find(o => o.toLowerCase() === correctAnswer.toLowerCase());
+      if (match) correctAnswer = match;
+      else defects.push('correct_answer is not one of the options');
+    }
+  } else if (type === QuestionType.TRUE_FALSE) {
+    const value = toBoolean(correctAnswer);
+    if (options.length > 0 && options.length !== 2) defects.push(`true/false needs exactly 2 options, got ${options.length}`);
+    if (value === null) {
+      const match = options.length === 2 ? options.find(o => o.toLowerCase() === correctAnswer.toLowerCase()) : undefined;
+      if (match && toBoolean(match) !== null) correctAnswer = match;
+      else if (correctAnswer) defects.push(`true/false answer "${correctAnswer}" is not true or false`);
+    }
+    const resolved = toBoolean(correctAnswer);
+    if (resolved !== null) {
+      options = isArabic ? ['صح', 'خطأ'] : ['True', 'False'];
+      correctAnswer = resolved ? options[0] : options[1];
+    }
+  } else {
+    options = [];
+  }
+
+  // Key points are optional: without them the grader falls back to the model answer.
+  const keyPoints = type === QuestionType.OPEN_ENDED && Array.isArray(raw.key_points)
+    ? raw.key_points.filter(isNonEmptyString).map((p: string) => p.trim()).slice(0, MAX_KEY_POINTS)
+    : [];
+
+  if (defects.length > 0) return { ok: false, defects };
+  return {
+    ok: true,
+    value: {
+      type,
+      question: raw.question.trim(),
+      options,
+      correctAnswer,
+      explanation: raw.explanation.trim(),
+      keyPoints: keyPoints.length > 0 ? keyPoints : undefined,
+      difficulty: isNonEmptyString(raw.difficulty) ? raw.difficulty : undefined,
+      scientificWarning: isNonEmptyString(raw.scientific_warning) ? raw.scientific_warning : undefined,
+    },
+  };
+};
+
+export const validateQuizPayload = (data: any, isArabic: boolean, forcedType?: QuestionType): { valid: { index: number; item: ValidQuizItem }[]; invalid: QuizItemDefect[] } => {
+  if (!data || !Array.isArray(data.quiz)) throw new AIResponseError('AI response has no "quiz" array');
+  const valid: { index: number; item: ValidQuizItem }[] = [];
+  const invalid: QuizItemDefect[] = [];
+  data.quiz.forEach((raw: any, index: number) => {
+    const result = validateQuizItem(raw, isArabic, forcedType);
+    if (result.ok) valid.push({ index, item: result.value });
+    else invalid.push({ index, item: raw, defects: result.defects });
+  });
+  return { valid, invalid };
+};
+
+// --- Other AI payloads ---
+
+export interface StudyGuidePayload {
+  title: string;
+  content: string;
+  topics: string[];
+}
+
+export const validateStudyGuide = (data: any): Validation<StudyGuidePayload> => {
+  const defects: string[] = [];
+  if (!data || typeof data !== 'object') return { ok: false, defects: ['response is not an object'] };
+  if (!isNonEmptyString(data.title)) defects.push('title is empty');
+  if (!isNonEmptyString(data.content)) defects.push('content is empty');
+  if (!Array.isArray(data.topics) || !data.topics.every(isNonEmptyString)) defects.push('topics must be an array of strings');
+  if (defects.length > 0) return { ok: false, defects };
+  return { ok: true, value: { title: data.title.trim(), content: data.content, topics: data.topics.map((t: string) => t.trim()) } };
+};
+
+const RUBRIC_CREDITS = [0, 0.5, 1];
+
+// The verdict and score are derived from the per-point credit, never taken from the model.
+export const validateGradingResult = (data: any, keyPoints: string[]): Validation<GradingResult> => {
+  const defects: string[] = [];
+  if (!data || typeof data !== 'object') return { ok: false, defects: ['response is not an object'] };
+  if (!isNonEmptyString(data.feedback)) defects.push('feedback is empty');
+  if (!Array.isArray(data.rubric)) {
+    defects.push('rubric must be an array');
+  } else {
+    if (data.rubric.length !== keyPoints.length) defects.push(`rubric must have exactly ${keyPoints.length} entries (one per key point), got ${data.rubric.length}`);
+    data.rubric.forEach((entry: any, i: number) => {
+      if (!entry || !RUBRIC_CREDITS.includes(Number(entry.awarded))) defects.push(`rubric[${i}].awarded must be 0, 0.5 or 1`);
+      if (!entry || typeof entry.feedback !== 'string') defects.push(`rubric[${i}].feedback must be a string`);
+    });
+  }
+  if (defects.length > 0) return { ok: false, defects };
+
+  // Points are matched by position, so the stored text is always the question's own key point.
+  const rubric = keyPoints.map((point, i) => ({ point, awarded: Number(data.rubric[i].awarded), feedback: data.rubric[i].feedback.trim() }));
+  const score = rubric.reduce((sum, r) => sum + r.awarded, 0) / rubric.length;
+  return {
+    ok: true,
+    value: { verdict: verdictForCredit(score), similarity_score: Math.round(score * 100), feedback: data.feedback.trim(), score, rubric },
+  };
+};
+
+// Review plan notes: one description per planned review, in order. The dates come from the
+// local scheduler, so only the text is taken from the model.
+export const validateReviewNotes = (count: number) => (data: any): Validation<string[]> => {
+  if (!data || !Array.isArray(data.notes)) return { ok: false, defects: ['response has no "notes" array'] };
+  const defects: string[] = [];
+  if (data.notes.length !== count) defects.push(`expected ${count} notes, got ${data.notes.length}`);
+  data.notes.forEach((note: any, i: number) => {
+    if (!isNonEmptyString(note)) defects.push(`note ${i + 1} is empty`);
+  });
+  if (defects.length > 0) return { ok: false, defects };
+  return { ok: true, value: data.notes.map((note: string) => note.trim()) };
+};
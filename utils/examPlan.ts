@@ -0,0 +1,152 @@
+import { ExamPlan, ExamTopic, ExamSessionKind, Quiz, Mistake } from '../types';
+import { addDays, daysBetween } from './reviewSchedule';
+
+// Exam countdown plans, worked backwards from the exam date. Topics not studied yet get a "new
+// material" session early on, reviews are placed at fixed distances before the exam (closer
+// together for weak topics), and mock exams sit near the end. The plan is rebuilt from today on
+// every view, so missed days simply drop out and fresh quiz scores reshape what is left.
+
+export type TopicLevel = 'weak' | 'normal' | 'strong';
+
+export interface TopicStanding {
+  percent: number | null; // Latest completed quiz score for the topic, 0..100
+  mistakes: number;
+  level: TopicLevel;
+  learnedOn: string | null;
+}
+
+export interface ExamSession {
+  key: string;
+  date: string;
+  kind: ExamSessionKind;
+  topicIds: string[];
+  minutes: number;
+  done: boolean;
+}
+
+export interface ExamDay {
+  date: string;
+  sessions: ExamSession[];
+  minutes: number;
+}
+
+const SESSION_MINUTES: Record<ExamSessionKind, number> = { learn: 45, review: 20, mock: 60 };
+
+// Days before the exam each review lands on.
+const REVIEW_OFFSETS: Record<TopicLevel, number[]> = {
+  weak: [1, 2, 4, 7, 10, 14, 21, 30],
+  normal: [1, 3, 7, 14, 30],
+  strong: [2, 10, 30],
+};
+
+const LEARN_WINDOW = 0.7; // Share of the days left in which new material should be covered
+
+const localIsoDate = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// --- Progress ---
+
+export const linkedQuizzes = (topic: ExamTopic, quizzes: Quiz[]): Quiz[] =>
+  quizzes.filter(q => q.id === topic.quizId || (!!topic.guideId && q.guideId === topic.guideId));
+
+// The latest score comes from the topic's own quizzes or the exam's mock exams, whichever is newer
+// (a mock covers every topic). Mistakes are matched by question id, so only the topic's own
+// quizzes count: a mock question can't be told apart by topic.
+export const topicStanding = (topic: ExamTopic, quizzes: Quiz[], mistakes: Mistake[], examId?: string): TopicStanding => {
+  const linked = linkedQuizzes(topic, quizzes);
+  const isFinished = (q: Quiz) => q.completed && q.questions.length > 0;
+  const mocks = examId ? quizzes.filter(q => q.examId === examId) : [];
+  const scored = [...linked, ...mocks].filter(isFinished).sort((a, b) => b.createdAt - a.createdAt);
+  const percent = scored.length > 0 ? Math.round(((scored[0].score || 0) / scored[0].questions.length) * 100) : null;
+  const questionIds = new Set(linked.flatMap(q => q.questions.map(question => question.id)));
+  const mistakeCount = mistakes.filter(m => questionIds.has(m.questionId)).length;
+
+  let level: TopicLevel = 'normal';
+  if ((percent !== null && percent < 70) || mistakeCount >= 3) level = 'weak';
+  else if (percent !== null && percent >= 90 && mistakeCount === 0) level = 'strong';
+
+  // A completed quiz on the topic means it has been studied, even without a checked-off session.
+  const completed = linked.filter(isFinished).sort((a, b) => b.createdAt - a.createdAt);
+  const learnedOn = topic.learnedOn || (completed.length > 0 ? localIsoDate(completed[completed.length - 1].createdAt) : null);
+  return { percent, mistakes: mistakeCount, level, learnedOn };
+};
+
+// --- Scheduling ---
+
+export const sessionKey = (date: string, kind: ExamSessionKind, topicIds: string[]): string =>
+  `${date}|${kind}|${topicIds.join(',')}`;
+
+export const buildExamSchedule = (plan: ExamPlan, standings: Record<string, TopicStanding>, today: string): ExamDay[] => {
+  const span = daysBetween(today, plan.examDate);
+  if (span <= 0) return [];
+  const days: ExamDay[] = Array.from({ length: span }, (_, i) => ({ date: addDays(today, i), sessions: [], minutes: 0 }));
+  const doneKeys = new Set(plan.completed.map(r => r.key));
+  const budget = Math.max(plan.minutesPerDay, 1);
+
+  const add = (index: number, kind: ExamSessionKind, topicIds: string[]) => {
+    const day = days[index];
+    const key = sessionKey(day.date, kind, topicIds);
+    if (day.sessions.some(s => s.key === key)) return;
+    const minutes = Math.min(SESSION_MINUTES[kind], budget);
+    day.sessions.push({ key, date: day.date, kind, topicIds, minutes, done: doneKeys.has(key) });
+    day.minutes += minutes;
+  };
+  const roomOn = (index: number, kind: ExamSessionKind) =>
+    days[index].minutes + Math.min(SESSION_MINUTES[kind], budget) <= budget;
+
+  // Mock exams: two days out (leaving the last day for light review) and halfway on long runs.
+  const allTopics = plan.topics.map(t => t.id);
+  if (allTopics.length > 0) {
+    if (span >= 3) add(span - 2, 'mock', allTopics);
+    if (span >= 14) add(Math.floor(span / 2), 'mock', allTopics);
+  }
+
+  // New material, as early as the days allow, ideally inside the learning window.
+  const learnedOn: Record<string, string> = {};
+  const learnWindow = Math.max(1, Math.floor(span * LEARN_WINDOW));
+  plan.topics.forEach(topic => {
+    const learned = standings[topic.id]?.learnedOn;
+    if (learned) {
+      learnedOn[topic.id] = learned;
+      return;
+    }
+    let index = days.findIndex((_, i) => i < learnWindow && roomOn(i, 'learn'));
+    if (index === -1) index = days.findIndex((_, i) => roomOn(i, 'learn'));
+    if (index === -1) index = days.reduce((best, day, i) => day.minutes < days[best].minutes ? i : best, 0);
+    add(index, 'learn', [topic.id]);
+    learnedOn[topic.id] = days[index].date;
+  });
+
+  // Reviews: the day after learning, then back-scheduled from the exam. A review on a full day
+  // moves to the nearest earlier day with room that still comes after the learning session.
+  plan.topics.forEach(topic => {
+    const level = standings[topic.id]?.level || 'normal';
+    const learned = learnedOn[topic.id];
+    const targets = [addDays(learned, 1), ...REVIEW_OFFSETS[level].map(offset => addDays(plan.examDate, -offset))];
+    [...new Set(targets)].forEach(date => {
+      if (date <= learned || date < today || date >= plan.examDate) return;
+      const target = daysBetween(today, date);
+      let index = target;
+      for (let i = target; i >= 0 && days[i].date > learned; i--) {
+        if (roomOn(i, 'review')) { index = i; break; }
+      }
+      add(index, 'review', [topic.id]);
+    });
+  });
+
+  // Sessions already checked off today stay listed, even when the plan no longer asks for them
+  // (a topic learned today has no learn session left to schedule).
+  plan.completed
+    .filter(r => r.date === today && !days[0].sessions.some(s => s.key === r.key))
+    .forEach(r => {
+      const minutes = Math.min(SESSION_MINUTES[r.kind], budget);
+      days[0].sessions.push({ key: r.key, date: today, kind: r.kind, topicIds: r.topicIds, minutes, done: true });
+      days[0].minutes += minutes;
+    });
+
+  const order: Record<ExamSessionKind, number> = { learn: 0, review: 1, mock: 2 };
+  days.forEach(day => day.sessions.sort((a, b) => order[a.kind] - order[b.kind]));
+  return days;
+};
@@ -0,0 +1,110 @@
+import { GradingResult, Question, QuestionType } from '../types';
+import { normalizeQuestionText, STOP_WORDS } from './questionSimilarity';
+
+// Rubric scoring for open-ended answers and fractional quiz scores.
+
+export const CORRECT_CREDIT = 0.75;
+
+export const verdictForCredit = (credit: number): GradingResult['verdict'] =>
+  credit >= CORRECT_CREDIT ? 'Correct' : credit > 0 ? 'Partial' : 'Incorrect';
+
+// Questions generated before rubrics existed are graded against the model answer as a single point.
+export const getRubricPoints = (question: Pick<Question, 'correctAnswer' | 'keyPoints'>): string[] =>
+  question.keyPoints && question.keyPoints.length > 0 ? question.keyPoints : [question.correctAnswer];
+
+export const getQuestionCredit = (question: Question, userAnswer: string | undefined, grading?: GradingResult): number => {
+  if (question.type === QuestionType.OPEN_ENDED) {
+    if (!grading) return 0;
+    return typeof grading.score === 'number' ? grading.score : grading.verdict === 'Correct' ? 1 : 0;
+  }
+  return userAnswer === question.correctAnswer ? 1 : 0;
+};
+
+// "7.5" / "8" — credit sums are shown with at most one decimal.
+export const formatScore = (score: number): string =>
+  Number.isInteger(score) ? String(score) : score.toFixed(1);
+
+// --- Local pre-grading ---
+// Settles clear-cut open-ended answers on the device so they don't spend an AI request: exact
+// matches, blank / "I don't know" answers, and answers whose keywords cover every key point or
+// almost none of them. Keyword overlap can't judge meaning, so the band in between returns null
+// and goes to the AI grader.
+
+const EASTERN_DIGITS = /[٠-٩۰-۹]/g;
+const NEGATIONS = new Set(['not', 'no', 'never', 'cannot', 'isnt', 'doesnt', 'dont', 'لا', 'ليس', 'ليست', 'لم', 'لن', 'غير', 'بدون']);
+const NO_ANSWER = ['i do not know', 'do not know', 'i dont know', 'dont know', 'idk', 'no idea', 'لا اعرف', 'لا ادري', 'مش عارف', 'لا اعلم'];
+
+// Every keyword of every key point must appear for full credit...
+export const LOCAL_FULL_COVERAGE = 1;
+// ...and at most one in ten, over a rubric with enough keywords to judge by, for none.
+export const LOCAL_NO_COVERAGE = 0.1;
+const MIN_KEYWORDS_FOR_NO_COVERAGE = 3;
+
+// Arabic-Indic and Persian digits -> 0-9 and "n't" -> " not", then the shared Arabic/English normalization.
+export const normalizeAnswerText = (text: string): string =>
+  normalizeQuestionText(text.replace(EASTERN_DIGITS, d => String(d.charCodeAt(0) % 16)).replace(/n['’]t\b/gi, ' not'));
+
+// Light stemming so "the cells" matches "cell" and "والخلايا" matches "الخلايا". Words must
+// otherwise match whole: a shared prefix would let "mitosis" stand in for "mitochondria".
+const stem = (word: string): string => {
+  const arabic = word.replace(/^(وال|بال|كال|فال|لل|ال)/, '');
+  if (arabic !== word && arabic.length >= 2) return arabic;
+  if (/^[a-z]+$/.test(word) && word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+const answerTokens = (text: string): string[] =>
+  normalizeAnswerText(text)
+    .split(' ')
+    .filter(w => /\d/.test(w) || (w.length > 1 && !STOP_WORDS.has(w)))
+    .map(stem);
+
+// How many of each key point's keywords appear in the answer.
+const keywordCoverage = (points: string[], answer: string): { matched: number; total: number }[] => {
+  const words = new Set(answerTokens(answer));
+  return points.map(point => {
+    const keywords = [...new Set(answerTokens(point))];
+    return { matched: keywords.filter(k => words.has(k)).length, total: keywords.length };
+  });
+};
+
+export interface LocalGradingLabels {
+  exact: string;
+  covered: string;
+  notCovered: string;
+  noAnswer: string;
+  pointCovered: string;
+  pointMissing: string;
+}
+
+export const preGradeOpenEndedAnswer = (
+  userAnswer: string,
+  question: Pick<Question, 'correctAnswer' | 'keyPoints'>,
+  labels: LocalGradingLabels
+): GradingResult | null => {
+  const points = getRubricPoints(question);
+  const graded = (credit: number, feedback: string): GradingResult => ({
+    verdict: verdictForCredit(credit),
+    similarity_score: Math.round(credit * 100),
+    feedback,
+    score: credit,
+    rubric: points.map(point => ({ point, awarded: credit, feedback: credit === 1 ? labels.pointCovered : labels.pointMissing })),
+    gradedLocally: true,
+  });
+
+  const normalized = normalizeAnswerText(userAnswer);
+  if (!normalized || answerTokens(userAnswer).length === 0 || NO_ANSWER.includes(normalized)) return graded(0, labels.noAnswer);
+  if (normalized === normalizeAnswerText(question.correctAnswer)) return graded(1, labels.exact);
+
+  // A negation the model answer doesn't have can flip the meaning while keeping every keyword.
+  const modelWords = new Set(normalizeAnswerText(question.correctAnswer).split(' '));
+  if (normalized.split(' ').some(w => NEGATIONS.has(w) && !modelWords.has(w))) return null;
+
+  const coverage = keywordCoverage(points, userAnswer);
+  if (coverage.every(c => c.total > 0 && c.matched / c.total >= LOCAL_FULL_COVERAGE)) return graded(1, labels.covered);
+
+  const total = coverage.reduce((sum, c) => sum + c.total, 0);
+  const matched = coverage.reduce((sum, c) => sum + c.matched, 0);
+  if (total >= MIN_KEYWORDS_FOR_NO_COVERAGE && matched / total <= LOCAL_NO_COVERAGE) return graded(0, labels.notCovered);
+  return null;
+};
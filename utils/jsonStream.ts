@@ -0,0 +1,61 @@
+// Incremental extraction of completed objects from a streamed JSON array,
+// e.g. the items of `{ "quiz": [ {...}, {...}, ...` before the closing brackets arrive.
+
+export const createArrayItemParser = (arrayKey: string) => {
+  let buffer = '';
+  let cursor = 0;          // next character to scan
+  let arrayStart = -1;     // index just after the array's "["
+  let itemStart = -1;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let closed = false;
+
+  const locateArray = () => {
+    const keyIndex = buffer.indexOf(`"${arrayKey}"`);
+    if (keyIndex === -1) return;
+    const bracket = buffer.indexOf('[', keyIndex);
+    if (bracket === -1) return;
+    arrayStart = bracket + 1;
+    cursor = arrayStart;
+  };
+
+  // Feed the next chunk of text; returns the items completed by it.
+  const push = (chunk: string): any[] => {
+    buffer += chunk;
+    if (arrayStart === -1) locateArray();
+    if (arrayStart === -1 || closed) return [];
+
+    const items: any[] = [];
+    for (; cursor < buffer.length; cursor++) {
+      const ch = buffer[cursor];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') inString = true;
+      else if (ch === ']' && depth === 0) {
+        closed = true;
+        break;
+      } else if (ch === '{') {
+        if (depth === 0) itemStart = cursor;
+        depth++;
+      } else if (ch === '}') {
+        depth--;
+        if (depth === 0 && itemStart !== -1) {
+          try {
+            items.push(JSON.parse(buffer.slice(itemStart, cursor + 1)));
+          } catch (e) {
+            console.warn('Skipping malformed streamed item', e);
+          }
+          itemStart = -1;
+        }
+      }
+    }
+    return items;
+  };
+
+  return { push };
+};
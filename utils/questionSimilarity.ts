@@ -0,0 +1,76 @@
+// Lexical near-duplicate detection for quiz questions (Arabic + English).
+// Two questions are duplicates when their normalized text matches or their
+// content-word overlap is high enough that they test the same fact.
+
+const ARABIC_DIACRITICS = /[ً-ْٰـ]/g;
+const PUNCTUATION = /[^\p{L}\p{N}\s]/gu;
+
+export const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'of', 'in', 'on', 'to', 'is', 'are', 'was', 'were', 'which', 'what', 'who', 'how', 'why', 'when',
+  'following', 'does', 'do', 'and', 'or', 'for', 'by', 'with', 'that', 'this', 'these', 'it', 'its', 'be', 'as', 'at',
+  'من', 'في', 'على', 'الى', 'إلى', 'عن', 'ما', 'ماذا', 'هو', 'هي', 'التالي', 'التالية', 'اي', 'أي', 'هل', 'كيف', 'لماذا',
+  'متى', 'و', 'او', 'أو', 'ان', 'أن', 'مع', 'هذا', 'هذه', 'التي', 'الذي', 'كان', 'يكون'
+]);
+
+const DUPLICATE_THRESHOLD = 0.75;
+
+export const normalizeQuestionText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(ARABIC_DIACRITICS, '')
+    .replace(/[إأآا]/g, 'ا')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(PUNCTUATION, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const contentTokens = (text: string): Set<string> =>
+  new Set(normalizeQuestionText(text).split(' ').filter(w => w.length > 1 && !STOP_WORDS.has(w)));
+
+// A question normalized once, so long lists (the whole library) aren't re-normalized per comparison.
+export interface QuestionFingerprint {
+  text: string;
+  tokens: Set<string>;
+}
+
+export const fingerprintQuestion = (question: string): QuestionFingerprint =>
+  ({ text: normalizeQuestionText(question), tokens: contentTokens(question) });
+
+// Overlap coefficient: a short question fully contained in a longer one still counts as a duplicate.
+const fingerprintSimilarity = (a: QuestionFingerprint, b: QuestionFingerprint): number => {
+  if (a.text === b.text) return 1;
+  if (a.tokens.size === 0 || b.tokens.size === 0) return 0;
+  let shared = 0;
+  a.tokens.forEach(w => { if (b.tokens.has(w)) shared++; });
+  return shared / Math.min(a.tokens.size, b.tokens.size);
+};
+
+export const questionSimilarity = (a: string, b: string): number =>
+  fingerprintSimilarity(fingerprintQuestion(a), fingerprintQuestion(b));
+
+export const fingerprintsMatch = (a: QuestionFingerprint, b: QuestionFingerprint): boolean =>
+  fingerprintSimilarity(a, b) >= DUPLICATE_THRESHOLD;
+
+export const isNearDuplicate = (a: string, b: string): boolean => questionSimilarity(a, b) >= DUPLICATE_THRESHOLD;
+
+// Keeps items in order, dropping any that duplicate an earlier kept item or an excluded question.
+export const filterDuplicateQuestions = <T extends { question: string }>(
+  items: T[],
+  exclude: (string | QuestionFingerprint)[] = []
+): { kept: T[]; dropped: T[] } => {
+  const excluded = exclude.map(q => typeof q === 'string' ? fingerprintQuestion(q) : q);
+  const kept: T[] = [];
+  const keptPrints: QuestionFingerprint[] = [];
+  const dropped: T[] = [];
+  items.forEach(item => {
+    const print = fingerprintQuestion(item.question);
+    if (excluded.some(q => fingerprintsMatch(print, q)) || keptPrints.some(k => fingerprintsMatch(print, k))) {
+      dropped.push(item);
+    } else {
+      kept.push(item);
+      keptPrints.push(print);
+    }
+  });
+  return { kept, dropped };
+};
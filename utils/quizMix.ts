@@ -0,0 +1,105 @@
+import { QuestionType, QuizSettings, Difficulty } from '../types';
+
+// Per-type question counts for a quiz request. SHORT_QUIZ / COMPREHENSIVE are
+// "mixed" presets whose real item types come from settings.distribution.
+
+export type TypeTargets = Partial<Record<QuestionType, number>>;
+
+export const isMixedQuizType = (type: QuestionType): boolean =>
+  type === QuestionType.SHORT_QUIZ || type === QuestionType.COMPREHENSIVE;
+
+export const getTypeTargets = (settings: QuizSettings): TypeTargets => {
+  if (!isMixedQuizType(settings.questionType)) {
+    // Max mode has no fixed count (quantity is a 9999 placeholder): take all the material supports.
+    return { [settings.questionType]: settings.maxMode ? Infinity : settings.quantity };
+  }
+  const dist = settings.distribution || { multipleChoice: settings.quantity, trueFalse: 0, openEnded: 0 };
+  const targets: TypeTargets = {};
+  if (dist.multipleChoice > 0) targets[QuestionType.MULTIPLE_CHOICE] = dist.multipleChoice;
+  if (dist.trueFalse > 0) targets[QuestionType.TRUE_FALSE] = dist.trueFalse;
+  if (dist.openEnded > 0) targets[QuestionType.OPEN_ENDED] = dist.openEnded;
+  return targets;
+};
+
+export const totalOf = (targets: TypeTargets): number =>
+  Object.values(targets).reduce((sum, n) => sum + (n || 0), 0);
+
+// Open-ended and flashcard items only need a prompt and an answer, so any item can
+// be played as one. Other single-type requests must come back with their own type.
+export const getForcedItemType = (settings: QuizSettings): QuestionType | undefined =>
+  settings.questionType === QuestionType.FLASHCARD || settings.questionType === QuestionType.OPEN_ENDED
+    ? settings.questionType
+    : undefined;
+
+export const describeTargets = (targets: TypeTargets): string => {
+  const parts = Object.entries(targets).map(([type, n]) =>
+    Number.isFinite(n) ? `${n} "${type}"` : `as many "${type}" questions as the material supports`);
+  const total = totalOf(targets);
+  return Number.isFinite(total) ? `exactly ${total} questions: ${parts.join(', ')}` : parts.join(', ');
+};
+
+// Keeps items in order while dropping off-type items and anything beyond each type's target.
+export const fitToTargets = <T extends { type: QuestionType }>(items: T[], targets: TypeTargets): T[] => {
+  const used: TypeTargets = {};
+  return items.filter(item => {
+    const limit = targets[item.type] || 0;
+    const count = used[item.type] || 0;
+    if (count >= limit) return false;
+    used[item.type] = count + 1;
+    return true;
+  });
+};
+
+export const getMissingCounts = <T extends { type: QuestionType }>(items: T[], targets: TypeTargets): TypeTargets => {
+  const missing: TypeTargets = {};
+  (Object.entries(targets) as [QuestionType, number][]).forEach(([type, target]) => {
+    const have = items.filter(i => i.type === type).length;
+    if (Number.isFinite(target) && have < target) missing[type] = target - have;
+  });
+  return missing;
+};
+
+// Largest-remainder split of n into integer shares proportional to weights.
+const apportion = (n: number, weights: number[]): number[] => {
+  const sum = weights.reduce((s, w) => s + w, 0) || 1;
+  const exact = weights.map(w => (n * w) / sum);
+  const shares = exact.map(Math.floor);
+  let left = n - shares.reduce((s, v) => s + v, 0);
+  exact
+    .map((v, i) => ({ i, frac: v - Math.floor(v) }))
+    .sort((a, b) => b.frac - a.frac)
+    .forEach(({ i }) => { if (left > 0) { shares[i]++; left--; } });
+  return shares;
+};
+
+// Per-section quotas for chunked generation. Unbounded (max mode) targets stay unbounded in every section.
+export const splitTargets = (targets: TypeTargets, weights: number[]): TypeTargets[] => {
+  const perSection: TypeTargets[] = weights.map(() => ({}));
+  (Object.entries(targets) as [QuestionType, number][]).forEach(([type, target]) => {
+    const shares = Number.isFinite(target) ? apportion(target, weights) : weights.map(() => Infinity);
+    shares.forEach((share, i) => { if (share > 0) perSection[i][type] = share; });
+  });
+  return perSection;
+};
+
+export type DifficultyTargets = { Easy: number; Medium: number; Hard: number };
+
+// Exact Easy/Medium/Hard counts for a custom mixed difficulty; undefined when there is nothing to balance.
+export const getDifficultyTargets = (settings: QuizSettings, total: number): DifficultyTargets | undefined => {
+  if (settings.difficulty !== Difficulty.MIXED || !Number.isFinite(total) || total <= 0) return undefined;
+  const dist = settings.difficultyDistribution || { easy: 30, medium: 50, hard: 20 };
+  const [Easy, Medium, Hard] = apportion(total, [dist.easy, dist.medium, dist.hard]);
+  return { Easy, Medium, Hard };
+};
+
+export const getMissingDifficulties = (items: { bloomLevel?: string }[], targets: DifficultyTargets): DifficultyTargets => {
+  const count = (level: string) => items.filter(i => i.bloomLevel === level).length;
+  return {
+    Easy: Math.max(0, targets.Easy - count('Easy')),
+    Medium: Math.max(0, targets.Medium - count('Medium')),
+    Hard: Math.max(0, targets.Hard - count('Hard')),
+  };
+};
+
+export const describeDifficulties = (targets: DifficultyTargets): string =>
+  `${targets.Easy} Easy, ${targets.Medium} Medium, ${targets.Hard} Hard`;
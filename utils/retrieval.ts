@@ -0,0 +1,117 @@
+import { Quiz, StudyGuide, FileData } from '../types';
+import { normalizeAnswerText } from './grading';
+import { STOP_WORDS } from './questionSimilarity';
+import { decodeBase64Text } from './sourceSections';
+
+// Grounding for the chat assistant: the attached material is cut into small labelled passages,
+// and only the passages most relevant to the student's message are sent with each request.
+
+export interface SourcePassage {
+  id: string;       // "S1", "S2"... — what the model cites
+  label: string;    // Human-readable location, e.g. "Q3" or "Key Concepts"
+  text: string;
+  file?: FileData;  // Binary files (PDF, images) are attached whole instead of quoted
+}
+
+const PASSAGE_CHARS = 1200;
+const MAX_RETRIEVED = 6;
+const SEND_ALL_CHARS = 6000; // Small sources are sent whole; retrieval only matters for long ones.
+
+const chunkText = (text: string): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  text.split(/\n\s*\n/).forEach(block => {
+    for (let rest = block.trim(); rest; rest = rest.substring(PASSAGE_CHARS).trim()) {
+      const piece = rest.substring(0, PASSAGE_CHARS);
+      if (current && current.length + piece.length + 2 > PASSAGE_CHARS) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+const numbered = (passages: Omit<SourcePassage, 'id'>[]): SourcePassage[] =>
+  passages.map((p, i) => ({ ...p, id: `S${i + 1}` }));
+
+// --- Building passages ---
+
+export const quizPassages = (quiz: Quiz): SourcePassage[] =>
+  numbered(quiz.questions.map((q, i) => ({
+    label: `Q${i + 1}`,
+    text: [
+      `Question: ${q.question}`,
+      q.options && q.options.length > 0 ? `Options: ${q.options.join(' | ')}` : '',
+      `Correct answer: ${q.correctAnswer}`,
+      q.keyPoints && q.keyPoints.length > 0 ? `Key points: ${q.keyPoints.join('; ')}` : '',
+      `Explanation: ${q.explanation}`,
+      q.sourceSection ? `Source section: ${q.sourceSection}` : '',
+    ].filter(Boolean).join('\n'),
+  })));
+
+// One passage group per Markdown heading, so references point at a named part of the guide.
+export const studyGuidePassages = (guide: StudyGuide): SourcePassage[] => {
+  const sections = guide.content.split(/\n(?=#{1,6}\s)/);
+  return numbered(sections.flatMap(section => {
+    const heading = (section.match(/^\s*#{1,6}\s+(.+)$/m) || [])[1]?.trim() || guide.title;
+    return chunkText(section).map((text, i, all) => ({ label: all.length > 1 ? `${heading} (${i + 1})` : heading, text }));
+  }));
+};
+
+export const filePassages = (files: FileData[]): SourcePassage[] =>
+  numbered(files.flatMap(file => {
+    if (file.mimeType.startsWith('text/')) {
+      return chunkText(decodeBase64Text(file.data)).map((text, i) => ({ label: `${file.name} ¶${i + 1}`, text }));
+    }
+    return [{ label: file.name, text: '', file }];
+  }));
+
+// --- Retrieval ---
+
+const tokenize = (text: string): string[] =>
+  normalizeAnswerText(text).split(' ').filter(w => /\d/.test(w) || (w.length > 1 && !STOP_WORDS.has(w)));
+
+// BM25 over the passages; attached files always go along since their text can't be scored here.
+export const retrievePassages = (passages: SourcePassage[], query: string, limit = MAX_RETRIEVED): SourcePassage[] => {
+  const textual = passages.filter(p => !p.file);
+  const attached = passages.filter(p => p.file);
+  const totalChars = textual.reduce((sum, p) => sum + p.text.length, 0);
+  if (totalChars <= SEND_ALL_CHARS) return passages;
+
+  const docs = textual.map(p => tokenize(`${p.label} ${p.text}`));
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / (docs.length || 1);
+  const terms = [...new Set(tokenize(query))];
+  const k1 = 1.2;
+  const b = 0.75;
+
+  const scored = textual.map((passage, i) => {
+    const doc = docs[i];
+    const score = terms.reduce((sum, term) => {
+      const tf = doc.filter(w => w === term).length;
+      if (tf === 0) return sum;
+      const df = docs.filter(d => d.includes(term)).length;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      return sum + idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * doc.length / avgLength));
+    }, 0);
+    return { passage, score, index: i };
+  });
+
+  const relevant = scored.filter(s => s.score > 0).sort((a, b) => b.score - a.score).slice(0, limit);
+  // Nothing matched (e.g. "summarize this"): fall back to the opening passages.
+  const picked = relevant.length > 0 ? relevant : scored.slice(0, limit);
+  return [...picked.sort((a, b) => a.index - b.index).map(s => s.passage), ...attached];
+};
+
+// Passage ids cited in a reply, in order of first mention: "[S2]", "[S2, S5]", "[S3, p. 4]".
+export const extractCitations = (text: string): string[] => {
+  const ids: string[] = [];
+  for (const group of text.matchAll(/\[([^\]]*S\d+[^\]]*)\]/g)) {
+    for (const id of group[1].matchAll(/S\d+/g)) {
+      if (!ids.includes(id[0])) ids.push(id[0]);
+    }
+  }
+  return ids;
+};
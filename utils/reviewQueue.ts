@@ -0,0 +1,93 @@
+import { Quiz, Mistake, Question, QuestionType, Difficulty, SrsState } from '../types';
+import { buildStudyQueue, isNewCard, startOfDay, endOfDay } from './srs';
+
+// The "Due today" queue: every scheduled flashcard in the library plus the mistakes bank, played
+// as one mixed session. The cards stay in their quiz or mistake entry; a review card points back
+// to it so a rating can be saved where the card lives.
+
+export type ReviewSource =
+  | { kind: 'quiz'; quizId: string; questionId: string }
+  | { kind: 'mistake'; mistakeId: string };
+
+export interface ReviewCard {
+  key: string;      // Unique across sources; also the id of `card`
+  subject: string;  // Quiz title (for mistakes, the quiz they came from)
+  source: ReviewSource;
+  card: Question;
+}
+
+export interface SubjectCount {
+  subject: string;
+  count: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const SRS_KEYS: (keyof SrsState)[] = [
+  'srsStatus', 'nextReviewDate', 'easeFactor', 'interval', 'repetitions', 'lapses', 'lastReviewedAt', 'firstReviewedAt'
+];
+
+const srsFields = (state: SrsState): SrsState =>
+  SRS_KEYS.reduce((acc, key) => state[key] === undefined ? acc : { ...acc, [key]: state[key] }, {} as SrsState);
+
+// New quiz cards are left to their own quiz's sessions; a mistake counts as a card from the start,
+// since the student has already got it wrong once. A mistake whose question is already scheduled
+// in its quiz would be the same card twice, so only the quiz copy is kept.
+export const collectReviewCards = (quizzes: Quiz[], mistakes: Mistake[]): ReviewCard[] => {
+  const cards: ReviewCard[] = [];
+  const scheduled = new Set<string>();
+  quizzes.forEach(quiz => quiz.questions.forEach(q => {
+    if (isNewCard(q)) return;
+    scheduled.add(q.id);
+    const key = `${quiz.id}:${q.id}`;
+    cards.push({ key, subject: quiz.title, source: { kind: 'quiz', quizId: quiz.id, questionId: q.id }, card: { ...q, id: key } });
+  }));
+  mistakes.forEach(m => {
+    if (scheduled.has(m.questionId)) return;
+    const key = `mistake:${m.id}`;
+    cards.push({
+      key, subject: m.quizTitle, source: { kind: 'mistake', mistakeId: m.id },
+      card: { id: key, type: QuestionType.FLASHCARD, question: m.question, correctAnswer: m.correctAnswer, explanation: m.explanation, ...srsFields(m) }
+    });
+  });
+  return cards;
+};
+
+// Same rules as a single quiz's session: due cards first, then new mistakes up to the daily limit.
+export const dueCards = (cards: ReviewCard[], now: number): ReviewCard[] => {
+  const byKey = new Map(cards.map(c => [c.key, c]));
+  return buildStudyQueue(cards.map(c => c.card), now).map(key => byKey.get(key)!);
+};
+
+export const countBySubject = (cards: ReviewCard[]): SubjectCount[] => {
+  const counts = new Map<string, number>();
+  cards.forEach(c => counts.set(c.subject, (counts.get(c.subject) || 0) + 1));
+  return [...counts.entries()]
+    .map(([subject, count]) => ({ subject, count }))
+    .sort((a, b) => b.count - a.count || a.subject.localeCompare(b.subject));
+};
+
+// Reviews per day for the next `days` days, today first. Today also takes in everything overdue
+// and the new mistakes allowed today.
+export const reviewForecast = (cards: ReviewCard[], now: number, days: number): number[] => {
+  const today = startOfDay(now);
+  const forecast = new Array<number>(days).fill(0);
+  forecast[0] = dueCards(cards, endOfDay(now)).length;
+  cards.forEach(({ card }) => {
+    if (isNewCard(card)) return;
+    const day = Math.floor(((card.nextReviewDate ?? 0) - today) / DAY);
+    if (day >= 1 && day < days) forecast[day]++;
+  });
+  return forecast;
+};
+
+// FlashcardPlayer plays quizzes; a review session is wrapped as one.
+export const reviewSessionQuiz = (cards: ReviewCard[], title: string, language: string): Quiz => ({
+  id: 'review-session',
+  title,
+  createdAt: Date.now(),
+  questions: cards.map(c => c.card),
+  settings: { questionType: QuestionType.FLASHCARD, difficulty: Difficulty.MIXED, quantity: cards.length, language },
+  completed: false,
+  timeSpentSeconds: 0
+});
@@ -0,0 +1,176 @@
+import { AppLanguage, PlannedReview, ReviewPlan, ReviewPlanSettings } from '../types';
+
+// Review plan scheduling, done on the device: each topic gets one review per interval after the
+// day it was studied. A review moves to a nearby day when its day is blocked or already holds
+// `maxPerDay` reviews (of any topic), but never to or before the previous review of its topic.
+
+export const INTERVAL_PRESETS = {
+  standard: [1, 3, 7, 14, 30],
+  intensive: [1, 2, 4, 7, 14],
+  relaxed: [2, 7, 21, 45, 90],
+};
+
+export const DEFAULT_PLAN_SETTINGS: ReviewPlanSettings = {
+  intervals: INTERVAL_PRESETS.standard,
+  blockedWeekdays: [],
+  maxPerDay: 3,
+};
+
+const MAX_INTERVAL = 365;
+const TOPIC_COLORS = ['#3b82f6', '#8b5cf6', '#10b981', '#f59e0b', '#ef4444', '#06b6d4', '#ec4899'];
+
+// --- Dates (YYYY-MM-DD, calculated in UTC so DST never shifts a day) ---
+
+export const addDays = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+export const weekdayOf = (isoDate: string): number => new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+
+export const todayIso = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// "1, 3, 7" -> [1, 3, 7]; null when the text isn't a list of whole days.
+export const parseIntervals = (text: string): number[] | null => {
+  const parts = text.split(/[\s,،]+/).filter(Boolean);
+  if (parts.length === 0 || parts.some(p => !/^\d+$/.test(p))) return null;
+  const days = [...new Set(parts.map(Number))].filter(n => n >= 1 && n <= MAX_INTERVAL).sort((a, b) => a - b);
+  return days.length === parts.length ? days : null;
+};
+
+// --- Placement ---
+
+const reviewText = (topic: string, step: number, count: number, intervalDays: number, language: AppLanguage) => {
+  const ar = language === 'ar';
+  const task = step === 1
+    ? (ar ? `اكتب ما تتذكره عن ${topic} من الذاكرة، ثم قارنه بملاحظاتك.` : `Write down what you remember about ${topic} from memory, then check it against your notes.`)
+    : step === count
+      ? (ar ? `اختبار شامل في ${topic} لترسيخ المعلومة.` : `Mixed practice test on ${topic} to lock it in.`)
+      : (ar ? `اختبر نفسك في ${topic} دون ملاحظات، وأعد دراسة ما أخطأت فيه فقط.` : `Quiz yourself on ${topic} without notes; re-study only what you missed.`);
+  return {
+    title: ar ? `مراجعة ${step}: ${topic}` : `Review ${step}: ${topic}`,
+    description: `${task} ${ar ? `(بعد ${intervalDays} يوم من المذاكرة)` : `(${intervalDays} day${intervalDays === 1 ? '' : 's'} after studying)`}`,
+  };
+};
+
+// Candidate days around the target, nearest first, later before earlier: 0, +1, -1, +2, -2...
+const nearbyOffsets = (slack: number): number[] => {
+  const offsets = [0];
+  for (let i = 1; i <= slack; i++) offsets.push(i, -i);
+  return offsets;
+};
+
+export const loadByDay = (reviews: PlannedReview[]): Map<string, number> => {
+  const load = new Map<string, number>();
+  reviews.forEach(r => load.set(r.start, (load.get(r.start) || 0) + 1));
+  return load;
+};
+
+export const scheduleTopic = (
+  topic: string,
+  studyDate: string,
+  settings: ReviewPlanSettings,
+  existing: PlannedReview[],
+  language: AppLanguage,
+  createId: () => string
+): PlannedReview[] => {
+  if (settings.blockedWeekdays.length >= 7) throw new Error('Every weekday is blocked');
+  const blocked = new Set(settings.blockedWeekdays);
+  const load = loadByDay(existing);
+  const topicCount = new Set(existing.map(r => r.topic)).size;
+  const color = TOPIC_COLORS[topicCount % TOPIC_COLORS.length];
+
+  const reviews: PlannedReview[] = [];
+  let previousDate = studyDate;
+  let previousInterval = 0;
+  settings.intervals.forEach((intervalDays, i) => {
+    const target = addDays(studyDate, intervalDays);
+    // Later reviews may drift further: a day either way matters little at 30 days, a lot at 1.
+    const slack = Math.max(1, Math.floor((intervalDays - previousInterval) * 0.25));
+    const candidates = nearbyOffsets(slack)
+      .map(offset => addDays(target, offset))
+      .filter(day => day > previousDate && !blocked.has(weekdayOf(day)));
+
+    let day = candidates.find(d => (load.get(d) || 0) < settings.maxPerDay)
+      || candidates.reduce<string | undefined>((best, d) => best === undefined || (load.get(d) || 0) < (load.get(best) || 0) ? d : best, undefined);
+    if (!day) {
+      // Every nearby day is blocked: take the first open day after the target.
+      day = target > previousDate ? target : addDays(previousDate, 1);
+      while (blocked.has(weekdayOf(day))) day = addDays(day, 1);
+    }
+
+    load.set(day, (load.get(day) || 0) + 1);
+    reviews.push({
+      id: createId(), topic, studyDate, step: i + 1, intervalDays,
+      start: day, allDay: true, color,
+      ...reviewText(topic, i + 1, settings.intervals.length, intervalDays, language),
+    });
+    previousDate = day;
+    previousInterval = intervalDays;
+  });
+  return reviews;
+};
+
+// --- Missed sessions ---
+
+// First day from `from` that isn't blocked and has room; a full week of full days means every day
+// is busy, so it settles for the first day that isn't blocked.
+const openDay = (from: string, blocked: Set<number>, load: Map<string, number>, maxPerDay: number): string => {
+  let firstUnblocked: string | undefined;
+  for (let i = 0; i < 7; i++) {
+    const day = addDays(from, i);
+    if (blocked.has(weekdayOf(day))) continue;
+    if ((load.get(day) || 0) < maxPerDay) return day;
+    firstUnblocked = firstUnblocked || day;
+  }
+  return firstUnblocked || from;
+};
+
+// Sessions left undone before `today` move to the next open day, and the topic's later sessions
+// move along with them so the gaps between reviews are kept. Returns the same plan when nothing
+// was missed.
+export const rescheduleMissed = (plan: ReviewPlan, today: string): ReviewPlan => {
+  if (!plan.reviews.some(r => !r.completedAt && r.start < today)) return plan;
+  const blocked = new Set(plan.settings.blockedWeekdays);
+  const load = loadByDay(plan.reviews.filter(r => !r.completedAt));
+  const moved = new Map<string, string>();
+
+  [...new Set(plan.reviews.map(r => r.topic))].forEach(topic => {
+    const pending = plan.reviews.filter(r => r.topic === topic && !r.completedAt).sort((a, b) => a.step - b.step);
+    let previousOld: string | null = null;
+    let previousNew: string | null = null;
+    pending.forEach(review => {
+      let desired = review.start;
+      if (previousOld && previousNew && previousNew !== previousOld) {
+        const kept = addDays(previousNew, daysBetween(previousOld, review.start));
+        if (kept > desired) desired = kept;
+      }
+      if (desired < today) desired = today;
+      if (previousNew && desired <= previousNew) desired = addDays(previousNew, 1);
+
+      let start = review.start;
+      if (desired !== review.start) {
+        load.set(review.start, (load.get(review.start) || 1) - 1);
+        start = openDay(desired, blocked, load, plan.settings.maxPerDay);
+        load.set(start, (load.get(start) || 0) + 1);
+        moved.set(review.id, start);
+      }
+      previousOld = review.start;
+      previousNew = start;
+    });
+  });
+
+  return {
+    ...plan,
+    reviews: plan.reviews.map(r => moved.has(r.id)
+      ? { ...r, start: moved.get(r.id)!, rescheduledFrom: r.start < today ? r.rescheduledFrom || r.start : r.rescheduledFrom }
+      : r)
+  };
+};
@@ -0,0 +1,133 @@
+import { FileData } from '../types';
+
+// Splits long TEXT / FILE inputs into sections that are each small enough for one
+// generation request. Short inputs come back as a single section. Only text can be cut:
+// long PDFs are turned into their page text first (services/pdfText.ts); PDFs without a
+// text layer and images go to the model as they are, so each one is sent once, whole.
+
+export interface SourceSection {
+  title: string;
+  content: string | FileData[];
+  // Relative size, used for proportional question quotas.
+  weight: number;
+}
+
+const SECTION_CHAR_BUDGET = 24000;   // ~6k tokens of source text per request
+const MAX_SECTIONS = 12;
+export const INLINE_BYTES_BUDGET = 3_000_000; // base64 chars per request, below the proxy's body limit
+export const LONG_PDF_PAGES = 25;
+
+const sectionTitle = (text: string, fallback: string): string => {
+  const heading = text.match(/^\s*#{1,6}\s+(.+)$/m);
+  const line = (heading ? heading[1] : text.trim().split('\n')[0] || '').trim();
+  if (!line) return fallback;
+  return line.length > 60 ? `${line.substring(0, 57)}...` : line;
+};
+
+// Hard split for a single block longer than the budget, preferring sentence ends.
+const splitLongBlock = (block: string, budget: number): string[] => {
+  const pieces: string[] = [];
+  let rest = block;
+  while (rest.length > budget) {
+    const window = rest.substring(0, budget);
+    const cut = Math.max(window.lastIndexOf('. '), window.lastIndexOf('.\n'), window.lastIndexOf('۔'), window.lastIndexOf('\n'));
+    const at = cut > budget / 2 ? cut + 1 : budget;
+    pieces.push(rest.substring(0, at));
+    rest = rest.substring(at);
+  }
+  if (rest.trim()) pieces.push(rest);
+  return pieces;
+};
+
+export const splitTextIntoSections = (text: string, label = 'Section'): SourceSection[] => {
+  const budget = Math.max(SECTION_CHAR_BUDGET, Math.ceil(text.length / MAX_SECTIONS));
+  if (text.length <= budget) return [{ title: sectionTitle(text, label), content: text, weight: text.length }];
+
+  // Break before Markdown headings and at blank lines, then pack blocks up to the budget.
+  const blocks = text.split(/\n(?=#{1,6}\s)|\n\s*\n/).flatMap(b => splitLongBlock(b, budget));
+  const chunks: string[] = [];
+  let current = '';
+  blocks.forEach(block => {
+    if (current && current.length + block.length + 2 > budget) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${block}` : block;
+  });
+  if (current.trim()) chunks.push(current);
+
+  return chunks.map((chunk, i) => ({
+    title: sectionTitle(chunk, `${label} ${i + 1}`),
+    content: chunk,
+    weight: chunk.length,
+  }));
+};
+
+export const decodeBase64Text = (data: string): string => {
+  const binary = atob(data);
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+export const encodeBase64Text = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+// A PDF's page texts as one text file. Each page is one block under a "## Page N" heading
+// (blank lines inside it are dropped), so the splitter cuts between pages and each section is
+// named after the page it starts on.
+export const pdfPagesToTextFile = (file: FileData, pages: string[]): FileData => ({
+  id: file.id,
+  name: file.name,
+  mimeType: 'text/plain',
+  data: encodeBase64Text(pages.map((text, i) => `## Page ${i + 1}\n${text.replace(/\n\s*\n/g, '\n').trim()}`).join('\n\n')),
+});
+
+// Page objects in the PDF body. Compressed object streams hide them, in which case we get 0.
+const countPdfPages = (data: string): number => {
+  try {
+    return (atob(data).match(/\/Type\s*\/Page(?!s)/g) || []).length;
+  } catch (e) {
+    return 0;
+  }
+};
+
+const fileSections = (file: FileData): SourceSection[] => {
+  if (file.mimeType.startsWith('text/')) {
+    return splitTextIntoSections(decodeBase64Text(file.data), file.name)
+      .map(s => ({ ...s, title: s.title === file.name ? s.title : `${file.name}: ${s.title}` }));
+  }
+  return [{ title: file.name, content: [file], weight: file.data.length }];
+};
+
+// Files that are long enough to need splitting but can't be split (images, PDFs without a text
+// layer), so the user can be told why one may hit the model's limits (pasting the chapters as
+// text avoids it).
+export const unsplittableFiles = (content: string | FileData[]): string[] => {
+  if (typeof content === 'string') return [];
+  return content
+    .filter(f => !f.mimeType.startsWith('text/'))
+    .filter(f => f.data.length > INLINE_BYTES_BUDGET || (f.mimeType === 'application/pdf' && countPdfPages(f.data) > LONG_PDF_PAGES))
+    .map(f => f.name);
+};
+
+export const buildSourceSections = (content: string | FileData[]): SourceSection[] => {
+  if (typeof content === 'string') return splitTextIntoSections(content);
+
+  const totalBytes = content.reduce((sum, f) => sum + f.data.length, 0);
+  const perFile = content.map(fileSections);
+  // Nothing needs splitting: keep the original single request with all files together.
+  if (totalBytes <= INLINE_BYTES_BUDGET && perFile.every(s => s.length === 1)) {
+    return [{ title: content.map(f => f.name).join(', '), content, weight: totalBytes }];
+  }
+
+  // Weights are only comparable within one file, so each file's share is normalized to its size.
+  return perFile.flatMap((sections, i) => {
+    const fileWeight = content[i].data.length;
+    const sum = sections.reduce((s, sec) => s + sec.weight, 0) || 1;
+    return sections.map(sec => ({ ...sec, weight: (sec.weight / sum) * fileWeight }));
+  });
+};
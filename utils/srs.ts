@@ -0,0 +1,125 @@
+import { SrsState } from '../types';
+
+// SM-2 spaced repetition for flashcards. A card is new until it is first rated; after that its
+// schedule lives on the question itself (ease, interval, repetitions, next review) and is saved
+// with the quiz, so a flashcard session only shows what is due plus a few new cards a day.
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export type CardSchedule = Required<SrsState>;
+
+type ScheduledCard = SrsState & { id: string };
+
+export const NEW_CARDS_PER_DAY = 20;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const AGAIN_DELAY = MINUTE;       // Failed cards come back in the same session
+const HARD_STEP = 10 * MINUTE;    // "Hard" on a card still being learned
+const EASY_START = 4;             // Days; first interval of a new card rated "easy"
+const EASY_BONUS = 1.3;
+const HARD_FACTOR = 1.2;
+const MASTERED_INTERVAL = 21;     // Days
+const LEARN_AHEAD = 20 * MINUTE;  // Cards due this soon are shown again before the session ends
+
+// SM-2 grades (0..5) for the four buttons; 3 and above counts as recalled.
+const QUALITY: Record<ReviewRating, number> = { again: 2, hard: 3, good: 4, easy: 5 };
+
+export const startOfDay = (now: number): number => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+export const endOfDay = (now: number): number => startOfDay(now) + DAY - 1;
+
+export const isNewCard = (card: SrsState): boolean => card.srsStatus === undefined;
+
+// Reviews are due by the day, so a card scheduled for this evening can be done this morning;
+// learning steps (minutes) wait for their exact time.
+export const isCardDue = (card: SrsState, now: number): boolean =>
+  !isNewCard(card) && (card.nextReviewDate ?? 0) <= (card.srsStatus === 'learning' ? now : endOfDay(now));
+
+const nextEase = (ease: number, rating: ReviewRating): number => {
+  const q = QUALITY[rating];
+  return Math.max(MIN_EASE, ease + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+};
+
+export const scheduleCard = (card: SrsState, rating: ReviewRating, now: number): CardSchedule => {
+  const ease = card.easeFactor ?? DEFAULT_EASE;
+  const repetitions = card.repetitions ?? 0;
+  const previous = card.interval ?? 0;
+  const base = {
+    lapses: card.lapses ?? 0,
+    lastReviewedAt: now,
+    firstReviewedAt: card.firstReviewedAt ?? now
+  };
+
+  // Learning: the card hasn't been recalled yet (new, or forgotten after a lapse). Ease only
+  // changes on reviews, so a rough first encounter doesn't shorten every later interval.
+  if (repetitions === 0) {
+    if (rating === 'again' || rating === 'hard') {
+      return { ...base, srsStatus: 'learning', easeFactor: ease, interval: 0, repetitions: 0, nextReviewDate: now + (rating === 'again' ? AGAIN_DELAY : HARD_STEP) };
+    }
+    const interval = rating === 'easy' ? EASY_START : 1;
+    return {
+      ...base, srsStatus: 'review', easeFactor: rating === 'easy' ? ease + 0.15 : ease,
+      interval, repetitions: 1, nextReviewDate: now + interval * DAY
+    };
+  }
+
+  const easeFactor = nextEase(ease, rating);
+  if (rating === 'again') {
+    return { ...base, srsStatus: 'learning', easeFactor, interval: 0, repetitions: 0, lapses: base.lapses + 1, nextReviewDate: now + AGAIN_DELAY };
+  }
+
+  const good = repetitions === 1 ? 6 : Math.round(previous * easeFactor);
+  const interval = Math.max(previous + 1,
+    rating === 'hard' ? Math.round(previous * HARD_FACTOR) : rating === 'easy' ? Math.round(good * EASY_BONUS) : good);
+  return {
+    ...base, srsStatus: interval >= MASTERED_INTERVAL ? 'mastered' : 'review',
+    easeFactor, interval, repetitions: repetitions + 1, nextReviewDate: now + interval * DAY
+  };
+};
+
+// Short label for the wait a rating would give: "1m", "10m", "6d", "3mo".
+export const formatInterval = (ms: number): string => {
+  if (ms < 60 * MINUTE) return `${Math.max(1, Math.round(ms / MINUTE))}m`;
+  if (ms < DAY) return `${Math.round(ms / (60 * MINUTE))}h`;
+  const days = Math.round(ms / DAY);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1).replace(/\.0$/, '')}y`;
+};
+
+export const previewIntervals = (card: SrsState, now: number): Record<ReviewRating, string> => {
+  const label = (rating: ReviewRating) => formatInterval(scheduleCard(card, rating, now).nextReviewDate - now);
+  return { again: label('again'), hard: label('hard'), good: label('good'), easy: label('easy') };
+};
+
+// Whether a just-rated card should come back before the session ends.
+export const repeatsInSession = (schedule: CardSchedule, now: number): boolean =>
+  schedule.nextReviewDate - now <= LEARN_AHEAD;
+
+export const newCardsIntroducedToday = (questions: SrsState[], now: number): number => {
+  const dayStart = startOfDay(now);
+  return questions.filter(q => q.firstReviewedAt !== undefined && q.firstReviewedAt >= dayStart).length;
+};
+
+// Session order: due cards, most overdue first, then new cards in quiz order up to what is left
+// of today's new-card allowance. Returns question ids.
+export const buildStudyQueue = (questions: ScheduledCard[], now: number, newLimit = NEW_CARDS_PER_DAY): string[] => {
+  const due = questions
+    .filter(q => isCardDue(q, now))
+    .sort((a, b) => (a.nextReviewDate ?? 0) - (b.nextReviewDate ?? 0));
+  const allowance = Math.max(0, newLimit - newCardsIntroducedToday(questions, now));
+  const fresh = questions.filter(isNewCard).slice(0, allowance);
+  return [...due, ...fresh].map(q => q.id);
+};
+
+export const nextDueDate = (questions: SrsState[]): number | null => {
+  const dates = questions.filter(q => !isNewCard(q)).map(q => q.nextReviewDate ?? 0);
+  return dates.length > 0 ? Math.min(...dates) : null;
+};
@@ -0,0 +1,108 @@
+import { Quiz, StudyGuide, GuideSectionVersion } from '../types';
+
+// Study guides by section: the guide is split into its outline sections, which can be edited one
+// at a time or used as the source text of a quiz; quizzes made that way report back per topic.
+
+export interface GuideSection {
+  heading: string; // '' for any text before the first heading
+  content: string; // Markdown, heading line included
+}
+
+export interface TopicProgress {
+  quizzes: number;
+  completed: number;
+  bestPercent: number | null; // Best score among completed quizzes, 0..100
+}
+
+const KEY_CONCEPTS_HEADING = /key concepts|المفاهيم/i;
+const MAX_SECTION_VERSIONS = 10;
+const HEADING_LINE = /^(#{1,6})(\s+.*)$/;
+
+const topHeadingLevel = (content: string): number | null => {
+  const levels = [...content.matchAll(/^(#{1,6})\s+\S/gm)].map(m => m[1].length);
+  return levels.length > 0 ? Math.min(...levels) : null;
+};
+
+// Splits at the guide's top heading level (usually "##"), so each section is one part of the outline.
+export const splitGuideSections = (content: string): GuideSection[] => {
+  const top = topHeadingLevel(content);
+  if (top === null) return [{ heading: '', content }];
+  const headingLine = new RegExp(`^\\s*#{${top}}\\s+(.+)$`);
+  return content
+    .split(new RegExp(`\\n(?=#{${top}}\\s)`))
+    .filter(part => part.trim())
+    .map(part => {
+      const heading = part.trimStart().split('\n', 1)[0].match(headingLine);
+      return { heading: heading ? heading[1].trim() : '', content: part };
+    });
+};
+
+const countMentions = (text: string, term: string): number =>
+  term ? text.toLowerCase().split(term.toLowerCase()).length - 1 : 0;
+
+// The section a topic (or a section heading) refers to: an exact heading match, else the section
+// that mentions it most. Falls back to the whole guide when no section mentions it.
+export const guideTextForTopic = (guide: StudyGuide, topic: string): string => {
+  const sections = splitGuideSections(guide.content);
+  const exact = sections.find(s => s.heading.toLowerCase() === topic.toLowerCase());
+  if (exact) return exact.content;
+  const ranked = sections
+    .map(section => ({ section, mentions: countMentions(section.content, topic) }))
+    .sort((a, b) => b.mentions - a.mentions);
+  return ranked.length > 0 && ranked[0].mentions > 0 ? ranked[0].section.content : guide.content;
+};
+
+// "Flashcards from key concepts": the Key Concepts section when the guide has one.
+export const keyConceptsHeading = (guide: StudyGuide): string =>
+  splitGuideSections(guide.content).find(s => KEY_CONCEPTS_HEADING.test(s.heading))?.heading || guide.title;
+
+export const topicProgress = (guide: StudyGuide, quizzes: Quiz[], topic: string): TopicProgress => {
+  const linked = quizzes.filter(q => q.guideId === guide.id && q.guideTopic === topic);
+  const completed = linked.filter(q => q.completed && q.questions.length > 0);
+  return {
+    quizzes: linked.length,
+    completed: completed.length,
+    bestPercent: completed.length > 0
+      ? Math.max(...completed.map(q => Math.round(((q.score || 0) / q.questions.length) * 100)))
+      : null
+  };
+};
+
+// --- Section editing ---
+
+// Swaps one section for new Markdown without changing the outline: the section keeps a heading at
+// the top level, and top-level headings inside the new text are demoted, so section indices (and
+// the history keyed by them) stay valid. Other sections are left byte for byte.
+export const replaceGuideSection = (content: string, index: number, replacement: string): string => {
+  const sections = splitGuideSections(content);
+  const original = sections[index];
+  if (!original) return content;
+  const top = topHeadingLevel(content);
+
+  let lines = replacement.trim().split('\n');
+  if (top !== null) {
+    const first = lines[0].match(HEADING_LINE);
+    if (original.heading) {
+      if (first && first[1].length <= top) lines[0] = '#'.repeat(top) + first[2];
+      else lines = [`${'#'.repeat(top)} ${original.heading}`, '', ...lines];
+    }
+    lines = lines.map((line, i) => {
+      if (original.heading && i === 0) return line;
+      const heading = line.match(HEADING_LINE);
+      return heading && heading[1].length <= top ? '#'.repeat(Math.min(6, top + 1)) + heading[2] : line;
+    });
+  }
+
+  const isLast = index === sections.length - 1;
+  sections[index] = { ...original, content: lines.join('\n') + (isLast ? '' : '\n') };
+  return sections.map(s => s.content).join('\n');
+};
+
+export const pushSectionVersion = (
+  history: StudyGuide['sectionHistory'],
+  index: number,
+  version: GuideSectionVersion
+): Record<number, GuideSectionVersion[]> => ({
+  ...history,
+  [index]: [...(history?.[index] || []), version].slice(-MAX_SECTION_VERSIONS)
+});
@@ -30,6 +30,8 @@ export const translations = {
     questionCount: "عدد الأسئلة",
     maxMode: "الوضع الأقصى",
     thinkingMode: "التفكير العميق",
+    onlyNewQuestions: "أسئلة جديدة فقط",
+    onlyNewQuestionsDesc: "استبعاد الأسئلة الموجودة في مكتبتي",
     // Dashboard
     totalQuizzes: "إجمالي الاختبارات",
     avgScore: "متوسط الدرجات",
@@ -40,15 +42,67 @@ export const translations = {
     completed: "منجز",
     quizAction: "اختبار",
     cardsAction: "بطاقات",
+    searchLibrary: "ابحث في المكتبة...",
+    studyGuides: "الملخصات الدراسية",
+    quizzesHeading: "الاختبارات",
+    openGuide: "فتح",
+    regenerateGuide: "إعادة التوليد",
+    guideSource: "المصدر",
+    deleteGuideConfirm: "حذف هذا الملخص؟",
+    guideSourceMissing: "لم يعد مصدر هذا الملخص محفوظاً على هذا الجهاز، لذا لا يمكن إعادة توليده.",
+    noResults: "لا توجد نتائج",
+    quizMeSection: "اختبرني في هذا القسم",
+    quizMeTopic: "اختبرني في هذا الموضوع",
+    sectionFlashcards: "بطاقات",
+    flashcardsFromConcepts: "بطاقات من المفاهيم الأساسية",
+    notPracticed: "لم يُختبر بعد",
+    notFinished: "لم يكتمل",
+    bestScore: "أفضل نتيجة",
+    fromGuide: "من الملخص",
+    editSection: "تعديل القسم",
+    expandSection: "توسيع",
+    simplifySection: "تبسيط",
+    addExamples: "إضافة أمثلة",
+    translateSection: "ترجمة",
+    regenerateSection: "إعادة كتابة",
+    editManually: "تحرير يدوي",
+    sectionHistory: "السجل",
+    revertVersion: "استرجاع",
+    saveSection: "حفظ",
+    cancelEdit: "إلغاء",
+    updatingSection: "جاري تحديث القسم...",
+    sectionEditFailed: "تعذر تحديث هذا القسم. حاول مرة أخرى.",
     questions: "سؤال",
     // QuizPlayer
     question: "السؤال",
     explanation: "الشرح",
+    sourceSection: "المصدر",
+    // LoadingOverlay
+    questionsReady: "سؤال جاهز",
+    questionsOf: "من",
+    processing: "جاري المعالجة",
+    cancelGeneration: "إلغاء",
+    unsplittableFiles: "لا يمكن تقسيم هذه الملفات إلى طلبات أصغر (صور، أو ملفات PDF بلا نص قابل للقراءة مثل الصفحات الممسوحة ضوئياً)، لذا يُرسل كل منها كاملاً. إذا فشل ملف طويل جداً، الصق الفصول التي تحتاجها كنص:",
+    gradingUnavailable: "تعذر التصحيح الذكي الآن. إجابتك محفوظة ولم تُصحح بعد، أعد المحاولة عند عودة الاتصال.",
+    retryGrading: "أعد محاولة التصحيح",
+    rubricBreakdown: "تفصيل التصحيح",
+    verdictCorrect: "إجابة صحيحة",
+    verdictPartial: "إجابة صحيحة جزئياً",
+    verdictIncorrect: "إجابة غير صحيحة",
+    gradedLocally: "صُححت فوراً",
+    localGradeExact: "إجابتك مطابقة للإجابة النموذجية.",
+    localGradeCovered: "غطّت إجابتك جميع النقاط الأساسية.",
+    localGradeNotCovered: "لم تذكر إجابتك أياً من النقاط الأساسية. راجع الإجابة النموذجية والشرح.",
+    localGradeNoAnswer: "لم تُكتب إجابة. راجع الإجابة النموذجية والشرح.",
+    pointCovered: "مذكورة",
+    pointMissing: "غير مذكورة",
     next: "التالي",
     results: "النتائج",
     skip: "تخطي السؤال",
     confirm: "تأكيد الإجابة",
     grading: "الذكاء الاصطناعي يصحح...",
+    loadingMoreQuestions: "جاري تحميل المزيد من الأسئلة...",
+    stopLoadingMore: "إيقاف تحميل المزيد",
     paused: "استراحة محارب ☕",
     pausedDesc: "الوقت متوقف حالياً. خذ نفس عميق وعد عندما تكون مستعداً.",
     resume: "استئناف الاختبار",
@@ -66,9 +120,34 @@ export const translations = {
     flip: "اضغط للقلب",
     answer: "الإجابة",
     hard: "صعب",
-    medium: "وسط",
     good: "جيد",
     easy: "سهل",
+    again: "مجدداً",
+    cardsLeft: "متبقية",
+    newCards: "جديدة",
+    dueCards: "مستحقة",
+    sessionComplete: "انتهت مراجعة اليوم 🎉",
+    nothingDue: "لا توجد بطاقات مستحقة الآن.",
+    nextReviewOn: "المراجعة التالية",
+    newLimitReached: "وصلت إلى حد البطاقات الجديدة لهذا اليوم.",
+    practiceAll: "تدرّب على كل البطاقات",
+    practiceModeNote: "وضع التدريب لا يغيّر جدول المراجعة.",
+    skipCard: "تخطي",
+    // Due today
+    dueToday: "مستحق اليوم",
+    dueTodayDesc: "كل البطاقات المستحقة من اختباراتك وبنك الأخطاء في جلسة واحدة.",
+    reviewAllDue: "راجع الكل",
+    nothingDueToday: "لا شيء مستحق اليوم",
+    nothingDueTodayDesc: "أنهيت مراجعاتك. عد غداً أو تدرّب على بطاقات جديدة من مكتبتك.",
+    dueBySubject: "حسب المادة",
+    fromMistakes: "من بنك الأخطاء",
+    startReview: "مراجعة",
+    workloadForecast: "توقع المراجعات",
+    next7Days: "7 أيام",
+    next30Days: "30 يوماً",
+    forecastTotal: "إجمالي المراجعات في هذه الفترة",
+    today: "اليوم",
+    reviewSession: "جلسة مراجعة",
     // SmartReview
     mistakesBank: "بنك الأخطاء الذكي",
     reviewWeakness: "راجع نقاط ضعفك وحولها إلى نقاط قوة.",
@@ -83,19 +162,92 @@ export const translations = {
     schedulerDesc: "استخدم تقنية التكرار المتباعد لتحويل ما تعلمته اليوم إلى ذاكرة طويلة الأمد.",
     studyDate: "تاريخ المذاكرة",
     topicStudied: "الموضوع الذي ذاكرته",
-    createPlan: "إنشاء خطة المراجعة",
     syncGoogle: "مزامنة مباشرة لتقويم جوجل",
     downloadIcs: "تحميل ملف التقويم (.ics)",
     manualAdd: "إضافة",
     consolidated: "تم ترسيخ المعلومة!",
-    calculating: "جاري الحساب...",
+    addToPlan: "أضف إلى خطة المراجعة",
+    planSettings: "إعدادات الجدول",
+    intervalSequence: "فترات المراجعة (بالأيام بعد المذاكرة)",
+    intervalSequenceHint: "أرقام مفصولة بفواصل، مثل 1, 3, 7, 14, 30.",
+    invalidIntervals: "أدخل فترات المراجعة كأرقام أيام مفصولة بفواصل.",
+    presetStandard: "عادي",
+    presetIntensive: "مكثف",
+    presetRelaxed: "مريح",
+    blockedWeekdays: "أيام بدون مراجعة",
+    maxReviewsPerDay: "أقصى عدد مراجعات في اليوم",
+    rescheduleAll: "أعد جدولة كل المواضيع بهذه الإعدادات",
+    aiReviewNotes: "اكتب وصف الجلسات بالذكاء الاصطناعي",
+    writingReviewNotes: "جاري كتابة وصف الجلسات...",
+    reviewNotesFailed: "تمت الجدولة، لكن تعذرت كتابة الوصف بالذكاء الاصطناعي.",
+    removeTopic: "إزالة الموضوع",
+    monthView: "شهر",
+    weekView: "أسبوع",
+    listView: "قائمة",
+    markDone: "تمت المراجعة",
+    markNotDone: "لم تتم بعد",
+    studyStreak: "أيام متتالية من المذاكرة",
+    dragToReschedule: "اسحب جلسة إلى يوم آخر لتغيير موعدها. الجلسات الفائتة تُنقل تلقائياً إلى أقرب يوم متاح.",
+    spacedReviewsMode: "مراجعات متباعدة",
+    examCountdownMode: "العد التنازلي للامتحان",
+    newExam: "امتحان جديد",
+    examTitle: "اسم الامتحان",
+    examTitlePlaceholder: "مثال: امتحان الأحياء النهائي",
+    examDate: "تاريخ الامتحان",
+    minutesPerDay: "الوقت المتاح يومياً (دقيقة)",
+    examTopics: "المواضيع",
+    addExamTopic: "إضافة موضوع",
+    noLinkedQuiz: "بدون اختبار مرتبط",
+    noLinkedGuide: "بدون دليل مرتبط",
+    saveExamPlan: "إنشاء الخطة",
+    examPlanIncomplete: "أدخل اسم الامتحان وموضوعاً واحداً على الأقل.",
+    examDateInPast: "يجب أن يكون تاريخ الامتحان بعد اليوم.",
+    deleteExamConfirm: "هل تريد حذف خطة هذا الامتحان؟",
+    editExamPlan: "تعديل الخطة",
+    deleteExamPlan: "حذف الخطة",
+    daysUntilExam: "يوم متبقٍ على الامتحان",
+    examIsToday: "الامتحان اليوم، بالتوفيق!",
+    examIsOver: "انتهى موعد هذا الامتحان.",
+    minutesShort: "د",
+    perDay: "يوم",
+    mistakesShort: "أخطاء",
+    examPlanAdapts: "تتغير الخطة مع نتائج اختباراتك وأخطائك: المواضيع الضعيفة تحصل على مراجعات أكثر.",
+    learnSession: "مادة جديدة",
+    mockExam: "امتحان تجريبي شامل",
+    startMockExam: "ابدأ",
+    openLinkedGuide: "افتح الدليل",
+    openLinkedQuiz: "افتح الاختبار",
+    restDay: "لا جلسات، يوم راحة.",
+    showAllDays: "عرض كل الأيام",
+    showFewerDays: "عرض أيام أقل",
     // ChatBot
     chatAssistant: "المساعد الدراسي",
     howToHelp: "كيف يمكنني مساعدتك؟",
     summarize: "لخص لي هذا النص...",
     explainTheory: "اشرح لي نظرية...",
     writeMessage: "اكتب رسالتك هنا...",
-    clearChat: "محو المحادثة",
+    newChat: "محادثة جديدة",
+    chatHistory: "المحادثات",
+    searchChats: "ابحث في المحادثات...",
+    noChats: "لا توجد محادثات بعد",
+    renameChat: "إعادة التسمية",
+    deleteChat: "حذف المحادثة",
+    confirmDeleteChat: "حذف هذه المحادثة نهائياً؟",
+    exportChat: "تصدير كملف Markdown",
+    chatYou: "أنت",
+    earlierSummarized: "تم تلخيص الرسائل الأقدم للحفاظ على سرعة المحادثة",
+    stopGenerating: "إيقاف",
+    regenerateAnswer: "إعادة توليد الإجابة",
+    copyMessage: "نسخ",
+    copied: "تم النسخ",
+    attachMaterial: "ربط المحادثة بمادة دراسية",
+    uploadFiles: "رفع ملفات...",
+    groundedIn: "الإجابات مبنية على",
+    detachMaterial: "إلغاء الربط",
+    chatSources: "المصادر",
+    askAboutQuestion: "اسأل عن هذا السؤال",
+    askAboutQuestionPrompt: "اشرح لي هذا السؤال، ولماذا الإجابة الصحيحة صحيحة؟",
+    askAboutGuide: "اسأل المساعد",
     // SettingsModal
     settingsTitle: "الإعدادات",
     aiProvider: "مزود الذكاء الاصطناعي",
@@ -105,6 +257,7 @@ export const translations = {
     baseUrl: "Base URL",
     modelName: "Model Name",
     apiKeyDesc: "هذا ضروري لعمل التطبيق.",
+    providerKeyDesc: "اختياري إذا كان الخادم مهيأً بمفتاح خاص به.",
     model: "نموذج الذكاء الاصطناعي",
     save: "حفظ التغييرات",
     saved: "تم الحفظ",
@@ -127,6 +280,8 @@ export const translations = {
     openEnded: "أسئلة مقالية",
     distribution: "توزيع الصعوبة",
     questionsDist: "توزيع الأسئلة",
+    offlineBanner: "أنت غير متصل بالخادم. يمكنك متابعة الاختبارات والبطاقات والأخطاء المحفوظة، وسيعود الإنشاء عند عودة الاتصال.",
+    offlinePending: "حفظ بانتظار المزامنة",
     footer: "© 2024 StudyGenius. Created with ❤ & AI."
   },
   en: {
@@ -156,6 +311,8 @@ export const translations = {
     questionCount: "Count",
     maxMode: "Max Mode",
     thinkingMode: "Deep Thinking",
+    onlyNewQuestions: "Only new questions",
+    onlyNewQuestionsDesc: "Skip questions already in my library",
     totalQuizzes: "Total Quizzes",
     avgScore: "Avg Score",
     questionsAnswered: "Questions Answered",
@@ -165,14 +322,66 @@ export const translations = {
     completed: "DONE",
     quizAction: "Quiz",
     cardsAction: "Cards",
+    searchLibrary: "Search the library...",
+    studyGuides: "Study guides",
+    quizzesHeading: "Quizzes",
+    openGuide: "Open",
+    regenerateGuide: "Regenerate",
+    guideSource: "Source",
+    deleteGuideConfirm: "Delete this study guide?",
+    guideSourceMissing: "The source of this guide is no longer stored on this device, so it can't be regenerated.",
+    noResults: "No results",
+    quizMeSection: "Quiz me on this section",
+    quizMeTopic: "Quiz me on this topic",
+    sectionFlashcards: "Flashcards",
+    flashcardsFromConcepts: "Flashcards from key concepts",
+    notPracticed: "Not practised yet",
+    notFinished: "Not finished",
+    bestScore: "Best",
+    fromGuide: "From guide",
+    editSection: "Edit section",
+    expandSection: "Expand",
+    simplifySection: "Simplify",
+    addExamples: "Add examples",
+    translateSection: "Translate",
+    regenerateSection: "Regenerate",
+    editManually: "Edit manually",
+    sectionHistory: "History",
+    revertVersion: "Revert",
+    saveSection: "Save",
+    cancelEdit: "Cancel",
+    updatingSection: "Updating section...",
+    sectionEditFailed: "Couldn't update this section. Please try again.",
     questions: "Questions",
     question: "Question",
     explanation: "Explanation",
+    sourceSection: "Source",
+    // LoadingOverlay
+    questionsReady: "questions ready",
+    questionsOf: "of",
+    processing: "Processing",
+    cancelGeneration: "Cancel",
+    unsplittableFiles: "These files can't be split into smaller requests (images, or PDFs without readable text such as scanned pages), so each is sent whole. If a very long one fails, paste the chapters you need as text instead:",
+    gradingUnavailable: "Smart grading is unavailable right now. Your answer is kept ungraded; try again once you're back online.",
+    retryGrading: "Retry grading",
+    rubricBreakdown: "Rubric breakdown",
+    verdictCorrect: "Correct",
+    verdictPartial: "Partially correct",
+    verdictIncorrect: "Incorrect",
+    gradedLocally: "Graded instantly",
+    localGradeExact: "Your answer matches the model answer.",
+    localGradeCovered: "Your answer covers every key point.",
+    localGradeNotCovered: "Your answer does not mention any of the key points. Review the model answer and the explanation.",
+    localGradeNoAnswer: "No answer was given. Review the model answer and the explanation.",
+    pointCovered: "Covered",
+    pointMissing: "Missing",
     next: "Next",
     results: "Results",
     skip: "Skip",
     confirm: "Submit",
     grading: "Grading...",
+    loadingMoreQuestions: "Loading more questions...",
+    stopLoadingMore: "Stop loading more",
     paused: "Paused ☕",
     pausedDesc: "Time is paused. Take a breath and resume when ready.",
     resume: "Resume Quiz",
@@ -188,9 +397,33 @@ export const translations = {
     flip: "Flip",
     answer: "Answer",
     hard: "Hard",
-    medium: "Medium",
     good: "Good",
     easy: "Easy",
+    again: "Again",
+    cardsLeft: "left",
+    newCards: "new",
+    dueCards: "due",
+    sessionComplete: "All done for today 🎉",
+    nothingDue: "No cards are due right now.",
+    nextReviewOn: "Next review",
+    newLimitReached: "You've reached today's limit of new cards.",
+    practiceAll: "Practice all cards",
+    practiceModeNote: "Practice mode doesn't change the review schedule.",
+    skipCard: "Skip",
+    dueToday: "Due today",
+    dueTodayDesc: "Every card due across your quizzes and the mistakes bank, in one session.",
+    reviewAllDue: "Review all",
+    nothingDueToday: "Nothing due today",
+    nothingDueTodayDesc: "You're done with your reviews. Come back tomorrow or study new cards from your library.",
+    dueBySubject: "By subject",
+    fromMistakes: "from mistakes",
+    startReview: "Review",
+    workloadForecast: "Review forecast",
+    next7Days: "7 days",
+    next30Days: "30 days",
+    forecastTotal: "Total reviews in this period",
+    today: "Today",
+    reviewSession: "Review session",
     mistakesBank: "Mistakes Bank",
     reviewWeakness: "Review points of weakness.",
     cleanRecord: "Clean Record!",
@@ -203,18 +436,91 @@ export const translations = {
     schedulerDesc: "Use spaced repetition for long-term memory.",
     studyDate: "Study Date",
     topicStudied: "Topic Studied",
-    createPlan: "Create Plan",
     syncGoogle: "Sync Google Cal",
     downloadIcs: "Download .ics",
     manualAdd: "Add",
     consolidated: "Consolidated!",
-    calculating: "Calculating...",
+    addToPlan: "Add to review plan",
+    planSettings: "Schedule settings",
+    intervalSequence: "Review intervals (days after studying)",
+    intervalSequenceHint: "Comma-separated days, e.g. 1, 3, 7, 14, 30.",
+    invalidIntervals: "Enter the review intervals as comma-separated numbers of days.",
+    presetStandard: "Standard",
+    presetIntensive: "Intensive",
+    presetRelaxed: "Relaxed",
+    blockedWeekdays: "Days without reviews",
+    maxReviewsPerDay: "Max reviews per day",
+    rescheduleAll: "Reschedule every topic with these settings",
+    aiReviewNotes: "Write session notes with AI",
+    writingReviewNotes: "Writing session notes...",
+    reviewNotesFailed: "The plan is scheduled, but the AI notes could not be written.",
+    removeTopic: "Remove topic",
+    monthView: "Month",
+    weekView: "Week",
+    listView: "List",
+    markDone: "Mark as done",
+    markNotDone: "Mark as not done",
+    studyStreak: "Study streak (days in a row)",
+    dragToReschedule: "Drag a session to another day to reschedule it. Missed sessions move to the next open day automatically.",
+    spacedReviewsMode: "Spaced reviews",
+    examCountdownMode: "Exam countdown",
+    newExam: "New exam",
+    examTitle: "Exam name",
+    examTitlePlaceholder: "e.g. Biology final",
+    examDate: "Exam date",
+    minutesPerDay: "Time per day (minutes)",
+    examTopics: "Topics",
+    addExamTopic: "Add topic",
+    noLinkedQuiz: "No linked quiz",
+    noLinkedGuide: "No linked guide",
+    saveExamPlan: "Build plan",
+    examPlanIncomplete: "Enter an exam name and at least one topic.",
+    examDateInPast: "The exam date must be after today.",
+    deleteExamConfirm: "Delete this exam plan?",
+    editExamPlan: "Edit plan",
+    deleteExamPlan: "Delete plan",
+    daysUntilExam: "Days until the exam",
+    examIsToday: "The exam is today. Good luck!",
+    examIsOver: "This exam has passed.",
+    minutesShort: "min",
+    perDay: "day",
+    mistakesShort: "mistakes",
+    examPlanAdapts: "The plan follows your quiz scores and mistakes: weak topics get more reviews.",
+    learnSession: "New material",
+    mockExam: "Full mock exam",
+    startMockExam: "Start",
+    openLinkedGuide: "Open guide",
+    openLinkedQuiz: "Open quiz",
+    restDay: "Nothing planned. Rest day.",
+    showAllDays: "Show all days",
+    showFewerDays: "Show fewer days",
     chatAssistant: "Assistant",
     howToHelp: "How can I help?",
     summarize: "Summarize this...",
     explainTheory: "Explain theory...",
     writeMessage: "Type message...",
-    clearChat: "Clear",
+    newChat: "New chat",
+    chatHistory: "Chats",
+    searchChats: "Search chats...",
+    noChats: "No chats yet",
+    renameChat: "Rename",
+    deleteChat: "Delete chat",
+    confirmDeleteChat: "Delete this chat permanently?",
+    exportChat: "Export as Markdown",
+    chatYou: "You",
+    earlierSummarized: "Older messages were summarized to keep the chat fast",
+    stopGenerating: "Stop",
+    regenerateAnswer: "Regenerate answer",
+    copyMessage: "Copy",
+    copied: "Copied",
+    attachMaterial: "Ground the chat in your material",
+    uploadFiles: "Upload files...",
+    groundedIn: "Answering from",
+    detachMaterial: "Detach",
+    chatSources: "Sources",
+    askAboutQuestion: "Ask about this question",
+    askAboutQuestionPrompt: "Explain this question to me. Why is the correct answer right?",
+    askAboutGuide: "Ask the assistant",
     settingsTitle: "Settings",
     aiProvider: "AI Provider",
     apiKey: "Gemini API Key",
@@ -223,6 +529,7 @@ export const translations = {
     baseUrl: "Base URL",
     modelName: "Model Name",
     apiKeyDesc: "Required for the app to work.",
+    providerKeyDesc: "Optional when the server is configured with its own key.",
     model: "AI Model",
     save: "Save",
     saved: "Saved",
@@ -244,6 +551,8 @@ export const translations = {
     openEnded: "Open Ended",
     distribution: "Distribution",
     questionsDist: "Questions Distribution",
+    offlineBanner: "You're offline. Saved quizzes, flashcards and mistakes still work; generating new content resumes when the connection is back.",
+    offlinePending: "saves waiting to sync",
     footer: "© 2024 StudyGenius. Created with ❤ & AI."
   }
 };